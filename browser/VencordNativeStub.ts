@@ -25,6 +25,8 @@ import * as DataStore from "../src/api/DataStore";
 import { debounce } from "../src/utils";
 import { EXTENSION_BASE_URL } from "../src/utils/web-metadata";
 import { getTheme, Theme } from "../src/utils/discord";
+import type { Snippet } from "../src/main/ipcMain";
+import type { CssDiagnostic } from "../src/utils/cssLint";
 import { getThemeInfo } from "../src/main/themes";
 import { Settings } from "../src/Vencord";
 
@@ -33,12 +35,23 @@ const { localStorage } = window;
 
 // listeners for ipc.on
 const cssListeners = new Set<(css: string) => void>();
+const snippetListeners = new Set<(snippets: Snippet[]) => void>();
+// The listener of the last opened editor, which stops working once it's closed
+let removeEditorSnippetsListener: (() => void) | undefined;
+const diagnosticsListeners = new Set<(diagnostics: Record<string, CssDiagnostic[]>) => void>();
+let quickCssDiagnostics: Record<string, CssDiagnostic[]> = {};
 const NOOP = () => { };
 const NOOP_ASYNC = async () => { };
 
 const setCssDebounced = debounce((css: string) => VencordNative.quickCss.set(css));
 
 const themeStore = DataStore.createStore("VencordThemes", "VencordThemeData");
+const snippetStore = DataStore.createStore("VencordSnippets", "VencordSnippetData");
+
+async function notifySnippetListeners() {
+    const snippets = await VencordNative.quickCss.getSnippets();
+    snippetListeners.forEach(l => l(snippets));
+}
 
 // probably should make this less cursed at some point
 window.VencordNative = {
@@ -51,6 +64,13 @@ window.VencordNative = {
         ),
         getThemeData: (fileName: string) => DataStore.get(fileName, themeStore),
         getSystemValues: async () => ({}),
+        getOnlineThemes: async () => ({}),
+        // Online themes aren't saved on the web, so they're fetched like the browser loads them
+        getOnlineThemeData: (link: string) => fetch(link)
+            .then(res => res.ok ? res.text() : undefined)
+            .catch(() => undefined),
+        checkOnlineThemes: async () => ({}),
+        addOnlineThemesChangeListener: () => NOOP,
     },
 
     native: {
@@ -75,6 +95,41 @@ window.VencordNative = {
             cssListeners.add(cb);
         },
         addThemeChangeListener: NOOP,
+
+        getSnippets: () => DataStore.entries(snippetStore).then(entries =>
+            entries.map(([name, css]) => ({ name: name.toString(), css }))
+        ),
+        async setSnippet(name: string, css: string) {
+            await DataStore.set(name, css, snippetStore);
+            notifySnippetListeners();
+        },
+        async deleteSnippet(name: string) {
+            await DataStore.del(name, snippetStore);
+            notifySnippetListeners();
+        },
+        async renameSnippet(name: string, newName: string) {
+            if (await DataStore.get(newName, snippetStore) !== undefined)
+                throw `A snippet named ${newName} already exists`;
+
+            const css = await DataStore.get(name, snippetStore);
+            await DataStore.del(name, snippetStore);
+            await DataStore.set(newName, css ?? "", snippetStore);
+            notifySnippetListeners();
+        },
+        addSnippetsChangeListener(cb) {
+            snippetListeners.add(cb);
+            return () => void snippetListeners.delete(cb);
+        },
+
+        getDiagnostics: async () => quickCssDiagnostics,
+        async setDiagnostics(diagnostics: Record<string, CssDiagnostic[]>) {
+            quickCssDiagnostics = diagnostics;
+            diagnosticsListeners.forEach(l => l(diagnostics));
+        },
+        addDiagnosticsListener(cb) {
+            diagnosticsListeners.add(cb);
+        },
+
         openFile: NOOP_ASYNC,
         async openEditor() {
             const features = `popup,width=${Math.min(window.innerWidth, 1000)},height=${Math.min(window.innerHeight, 1000)}`;
@@ -87,6 +142,16 @@ window.VencordNative = {
             win.baseUrl = EXTENSION_BASE_URL;
             win.setCss = setCssDebounced;
             win.getCurrentCss = () => VencordNative.quickCss.get();
+            win.getSnippets = () => VencordNative.quickCss.getSnippets();
+            win.setSnippet = (name: string, css: string) => VencordNative.quickCss.setSnippet(name, css);
+            removeEditorSnippetsListener?.();
+            win.addSnippetsChangeListener = (cb: (snippets: Snippet[]) => void) => {
+                removeEditorSnippetsListener = VencordNative.quickCss.addSnippetsChangeListener(cb);
+            };
+            win.getDiagnostics = () => VencordNative.quickCss.getDiagnostics();
+            // Only one editor can be open, so listeners of closed ones are dropped
+            diagnosticsListeners.clear();
+            win.addDiagnosticsListener = VencordNative.quickCss.addDiagnosticsListener;
             win.getTheme = () =>
                 getTheme() === Theme.Light
                     ? "vs-light"
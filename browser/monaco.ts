@@ -8,10 +8,18 @@ import "./patch-worker";
 
 import * as monaco from "monaco-editor/esm/vs/editor/editor.main.js";
 
+import type { Snippet } from "../src/main/ipcMain";
+import type { CssDiagnostic } from "../src/utils/cssLint";
+
 declare global {
     const baseUrl: string;
     const getCurrentCss: () => Promise<string>;
     const setCss: (css: string) => void;
+    const getSnippets: () => Promise<Snippet[]>;
+    const setSnippet: (name: string, css: string) => Promise<void>;
+    const addSnippetsChangeListener: (cb: (snippets: Snippet[]) => void) => void;
+    const getDiagnostics: () => Promise<Record<string, CssDiagnostic[]>>;
+    const addDiagnosticsListener: (cb: (diagnostics: Record<string, CssDiagnostic[]>) => void) => void;
     const getTheme: () => string;
 }
 
@@ -24,18 +32,136 @@ self.MonacoEnvironment = {
     }
 };
 
-getCurrentCss().then(css => {
+Promise.all([getCurrentCss(), getSnippets()]).then(([css, snippets]) => {
+    // The main QuickCSS file is the snippet without a name
+    const models = new Map<string, monaco.editor.ITextModel>();
+    const saveTimeouts = {} as Record<string, ReturnType<typeof setTimeout>>;
+    let current = "";
+    // Set while snippets changed elsewhere are applied, so they aren't saved again
+    let isUpdating = false;
+    // Linted by Discord, as it can check selectors and variables against the page
+    let diagnostics: Record<string, CssDiagnostic[]> = {};
+    const severities = {
+        error: monaco.MarkerSeverity.Error,
+        warning: monaco.MarkerSeverity.Warning,
+        info: monaco.MarkerSeverity.Info,
+    };
+
+    // Otherwise syntax errors would be reported twice
+    monaco.languages.css.cssDefaults.setOptions({ validate: false });
+
     const editor = monaco.editor.create(
         document.getElementById("container")!,
         {
-            value: css,
-            language: "css",
+            model: null,
             theme: getTheme(),
         }
     );
-    editor.onDidChangeModelContent(() =>
-        setCss(editor.getValue())
-    );
+    document.body.classList.add(getTheme() === "vs-light" ? "vs" : "vs-dark");
+
+    function addModel(name: string, css: string) {
+        const model = monaco.editor.createModel(css, "css");
+        model.onDidChangeContent(() => {
+            if (isUpdating) return;
+            if (!name) return setCss(model.getValue());
+
+            // Kept until the snippet is saved, so updates don't overwrite newer changes
+            clearTimeout(saveTimeouts[name]);
+            const timeout = saveTimeouts[name] = setTimeout(() => {
+                setSnippet(name, model.getValue()).finally(() => {
+                    if (saveTimeouts[name] === timeout) delete saveTimeouts[name];
+                });
+            }, 300);
+        });
+        models.set(name, model);
+    }
+
+    function select(name: string) {
+        current = name;
+        editor.setModel(models.get(name)!);
+        renderSidebar();
+        showDiagnostics();
+    }
+
+    function showDiagnostics() {
+        for (const [name, model] of models) {
+            monaco.editor.setModelMarkers(model, "vencord", (diagnostics[name] ?? []).map(d => ({
+                severity: severities[d.severity],
+                message: d.message,
+                startLineNumber: d.line,
+                startColumn: d.column,
+                endLineNumber: d.endLine,
+                endColumn: d.endColumn,
+            })));
+        }
+    }
+
+    function onDiagnostics(newDiagnostics: Record<string, CssDiagnostic[]>) {
+        diagnostics = newDiagnostics;
+        showDiagnostics();
+    }
+
+    function renderSidebar() {
+        document.getElementById("snippets")!.replaceChildren(...Array.from(models.keys(), name => {
+            const item = document.createElement("div");
+            item.className = name === current ? "snippet active" : "snippet";
+            item.textContent = name || "QuickCSS";
+            item.onclick = () => select(name);
+            return item;
+        }));
+    }
+
+    // Snippets may have been changed, renamed or removed in the settings, on disk or by sync
+    function updateSnippets(snippets: Snippet[]) {
+        for (const [name, model] of models) {
+            if (!name || snippets.some(s => s.name === name)) continue;
+
+            // Saving would create the snippet again
+            clearTimeout(saveTimeouts[name]);
+            delete saveTimeouts[name];
+            model.dispose();
+            models.delete(name);
+        }
+
+        for (const { name, css } of snippets) {
+            const model = models.get(name);
+            if (!model) {
+                addModel(name, css);
+            } else if (!(name in saveTimeouts) && model.getValue() !== css) {
+                isUpdating = true;
+                // Unlike setValue, this keeps the undo history
+                model.pushEditOperations([], [{ range: model.getFullModelRange(), text: css }], () => null);
+                isUpdating = false;
+            }
+        }
+
+        select(models.has(current) ? current : "");
+    }
+
+    addModel("", css);
+    snippets.forEach(s => addModel(s.name, s.css));
+    select("");
+
+    const form = document.getElementById("new-snippet") as HTMLFormElement;
+    form.onsubmit = e => {
+        e.preventDefault();
+        const input = form.elements[0] as HTMLInputElement;
+        const name = input.value.trim();
+        input.value = "";
+        if (!name) return;
+
+        if (!models.has(name)) {
+            addModel(name, "");
+            setSnippet(name, "");
+        }
+        select(name);
+    };
+
+    getDiagnostics().then(onDiagnostics);
+    addDiagnosticsListener(onDiagnostics);
+
+    addSnippetsChangeListener(updateSnippets);
+    window.addEventListener("focus", () => getSnippets().then(updateSnippets));
     window.addEventListener("resize", () => {
         // make monaco re-layout
         editor.layout();
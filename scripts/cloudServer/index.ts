@@ -0,0 +1,48 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// Runs the reference cloud server. Point the Backend URL in the Cloud tab at it to use it.
+//
+// Usage:
+//   pnpm cloudServer
+//
+// Environment variables:
+//   PORT                  Port to listen on, defaults to 8485
+//   CLOUD_DATA_DIR        Where to save users and settings, defaults to ./cloud-data
+//   CLOUD_DEV_AUTH        Set to "true" to skip Discord OAuth. Only dev builds of Vencord support this
+//   DISCORD_CLIENT_ID     \
+//   DISCORD_CLIENT_SECRET  > Discord OAuth application used to authorize users. The redirect uri has to point
+//   DISCORD_REDIRECT_URI  /  to /v1/oauth/callback of this server
+
+import { resolve } from "path";
+
+import { createCloudServer } from "./server";
+
+const {
+    PORT = "8485",
+    CLOUD_DATA_DIR = "cloud-data",
+    CLOUD_DEV_AUTH,
+    DISCORD_CLIENT_ID,
+    DISCORD_CLIENT_SECRET,
+    DISCORD_REDIRECT_URI
+} = process.env;
+
+const devAuth = CLOUD_DEV_AUTH === "true";
+const oauth = DISCORD_CLIENT_ID && DISCORD_CLIENT_SECRET && DISCORD_REDIRECT_URI
+    ? { clientId: DISCORD_CLIENT_ID, clientSecret: DISCORD_CLIENT_SECRET, redirectUri: DISCORD_REDIRECT_URI }
+    : undefined;
+
+if (!devAuth && !oauth) {
+    console.error("Either set CLOUD_DEV_AUTH=true or configure a Discord OAuth application, otherwise nobody can authorize");
+    process.exit(1);
+}
+
+const dataDir = resolve(CLOUD_DATA_DIR);
+
+createCloudServer({ dataDir, devAuth, oauth }).listen(Number(PORT), () => {
+    console.log(`Cloud server listening on http://localhost:${PORT}, saving data to ${dataDir}`);
+    if (devAuth) console.warn("Dev auth is enabled, anyone can access any user's settings!");
+});
@@ -0,0 +1,275 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// A minimal implementation of the Vencord cloud API, compatible with src/utils/cloud.tsx and src/utils/settingsSync.ts.
+// It's meant for self-hosting and testing, not as a replacement for https://github.com/Vencord/Backend
+
+import { randomBytes, timingSafeEqual } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import { join } from "path";
+
+export interface CloudServerOptions {
+    /** Where users and their settings are saved */
+    dataDir: string;
+    /**
+     * Let clients authorize with just their user id instead of Discord OAuth. Anyone can access any
+     * user's settings this way, so only use it locally
+     */
+    devAuth?: boolean;
+    oauth?: {
+        clientId: string;
+        clientSecret: string;
+        redirectUri: string;
+    };
+    /** In bytes */
+    maxSettingsSize?: number;
+}
+
+interface User {
+    /** Shared by all devices of the user, so every one of them gets the same secret when authorizing */
+    secret: string;
+    /** When the settings were last written, in ms. Used as their ETag */
+    written?: number;
+}
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+function isSameSecret(a: string, b: string) {
+    const bufA = Buffer.from(a);
+    const bufB = Buffer.from(b);
+    return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+class UserStore {
+    private users: Record<string, User>;
+    private readonly usersFile: string;
+    private readonly settingsDir: string;
+
+    constructor(dataDir: string) {
+        this.usersFile = join(dataDir, "users.json");
+        this.settingsDir = join(dataDir, "settings");
+        mkdirSync(this.settingsDir, { recursive: true });
+
+        this.users = existsSync(this.usersFile) ? JSON.parse(readFileSync(this.usersFile, "utf-8")) : {};
+    }
+
+    private save() {
+        writeFileSync(this.usersFile, JSON.stringify(this.users, null, 4));
+    }
+
+    private settingsFile(id: string) {
+        // Discord ids are numeric, anything else could escape the directory
+        if (!/^\d+$/.test(id)) throw new HttpError(400, "Invalid user id");
+        return join(this.settingsDir, `${id}.bin`);
+    }
+
+    get(id: string): User | undefined {
+        return this.users[id];
+    }
+
+    /**
+     * Get the secret of a user, creating it on their first authorization
+     */
+    authorize(id: string) {
+        this.settingsFile(id);
+        if (!this.users[id]) {
+            this.users[id] = { secret: randomBytes(32).toString("hex") };
+            this.save();
+        }
+
+        return this.users[id].secret;
+    }
+
+    authenticate(header: string | undefined) {
+        if (!header) throw new HttpError(401, "Missing authorization");
+
+        // The client sends base64(secret:userId)
+        const [secret, id] = Buffer.from(header, "base64").toString("utf-8").split(":");
+        const user = id && this.users[id];
+        if (!user || !secret || !isSameSecret(user.secret, secret)) throw new HttpError(401, "Invalid authorization");
+
+        return id;
+    }
+
+    getSettings(id: string) {
+        const file = this.settingsFile(id);
+        return existsSync(file) ? readFileSync(file) : null;
+    }
+
+    putSettings(id: string, data: Buffer) {
+        writeFileSync(this.settingsFile(id), data);
+        const written = Date.now();
+        this.users[id].written = written;
+        this.save();
+        return written;
+    }
+
+    deleteSettings(id: string) {
+        rmSync(this.settingsFile(id), { force: true });
+        delete this.users[id].written;
+        this.save();
+    }
+
+    delete(id: string) {
+        rmSync(this.settingsFile(id), { force: true });
+        delete this.users[id];
+        this.save();
+    }
+}
+
+function readBody(req: IncomingMessage, limit: number) {
+    return new Promise<Buffer>((resolve, reject) => {
+        const chunks = [] as Buffer[];
+        let size = 0;
+
+        req.on("data", (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > limit) {
+                reject(new HttpError(413, "Settings are too large"));
+                req.destroy();
+            } else {
+                chunks.push(chunk);
+            }
+        });
+        req.on("end", () => resolve(Buffer.concat(chunks)));
+        req.on("error", reject);
+    });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+async function exchangeOAuthCode({ clientId, clientSecret, redirectUri }: NonNullable<CloudServerOptions["oauth"]>, code: string) {
+    const tokenRes = await fetch("https://discord.com/api/oauth2/token", {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+            client_id: clientId,
+            client_secret: clientSecret,
+            grant_type: "authorization_code",
+            code,
+            redirect_uri: redirectUri
+        })
+    });
+    if (!tokenRes.ok) throw new HttpError(400, "Invalid OAuth code");
+
+    const { access_token } = await tokenRes.json();
+    const userRes = await fetch("https://discord.com/api/users/@me", {
+        headers: { Authorization: `Bearer ${access_token}` }
+    });
+    if (!userRes.ok) throw new HttpError(502, "Failed to fetch the Discord user");
+
+    const { id } = await userRes.json();
+    return id as string;
+}
+
+export function createCloudServer({ dataDir, devAuth = false, oauth, maxSettingsSize = 32 * 1024 * 1024 }: CloudServerOptions) {
+    const users = new UserStore(dataDir);
+
+    async function handle(req: IncomingMessage, res: ServerResponse) {
+        const url = new URL(req.url!, "http://localhost");
+        const route = `${req.method} ${url.pathname.replace(/\/$/, "")}`;
+
+        switch (route) {
+            case "GET /v1/oauth/settings":
+                if (devAuth) return sendJson(res, 200, { devAuth: true });
+                if (!oauth) throw new HttpError(501, "OAuth is not configured");
+                return sendJson(res, 200, { clientId: oauth.clientId, redirectUri: oauth.redirectUri });
+
+            case "GET /v1/oauth/callback": {
+                if (!oauth) throw new HttpError(501, "OAuth is not configured");
+                const code = url.searchParams.get("code");
+                if (!code) throw new HttpError(400, "Missing code");
+
+                const id = await exchangeOAuthCode(oauth, code);
+                return sendJson(res, 200, { secret: users.authorize(id) });
+            }
+
+            case "POST /v1/oauth/dev": {
+                if (!devAuth) throw new HttpError(404, "Not found");
+                let userId: unknown;
+                try {
+                    ({ userId } = JSON.parse((await readBody(req, 1024)).toString("utf-8")));
+                } catch {
+                    throw new HttpError(400, "Expected a JSON body");
+                }
+                if (typeof userId !== "string") throw new HttpError(400, "Missing userId");
+
+                return sendJson(res, 200, { secret: users.authorize(userId) });
+            }
+
+            case "GET /v1/settings": {
+                const id = users.authenticate(req.headers.authorization);
+                const { written } = users.get(id)!;
+                const data = users.getSettings(id);
+                if (!data || !written) throw new HttpError(404, "No settings");
+
+                if (req.headers["if-none-match"] === String(written)) {
+                    res.writeHead(304, { ETag: String(written) });
+                    return res.end();
+                }
+
+                res.writeHead(200, { "Content-Type": "application/octet-stream", ETag: String(written) });
+                return res.end(data);
+            }
+
+            case "PUT /v1/settings": {
+                const id = users.authenticate(req.headers.authorization);
+                if (req.headers["content-type"] !== "application/octet-stream")
+                    throw new HttpError(415, "Expected application/octet-stream");
+
+                const written = users.putSettings(id, await readBody(req, maxSettingsSize));
+                return sendJson(res, 200, { written });
+            }
+
+            case "DELETE /v1/settings":
+                users.deleteSettings(users.authenticate(req.headers.authorization));
+                res.writeHead(204);
+                return res.end();
+
+            case "DELETE /v1":
+                users.delete(users.authenticate(req.headers.authorization));
+                res.writeHead(204);
+                return res.end();
+
+            default:
+                throw new HttpError(404, "Not found");
+        }
+    }
+
+    return createServer(async (req, res) => {
+        // Web clients make cross origin requests from discord.com
+        res.setHeader("Access-Control-Allow-Origin", "*");
+        res.setHeader("Access-Control-Allow-Headers", "Authorization, Content-Type, If-None-Match");
+        res.setHeader("Access-Control-Allow-Methods", "GET, PUT, POST, DELETE");
+        res.setHeader("Access-Control-Expose-Headers", "ETag");
+
+        if (req.method === "OPTIONS") {
+            res.writeHead(204);
+            return res.end();
+        }
+
+        try {
+            await handle(req, res);
+        } catch (e) {
+            if (res.headersSent) return void res.end();
+
+            if (e instanceof HttpError) {
+                sendJson(res, e.status, { error: e.message });
+            } else {
+                console.error(`${req.method} ${req.url} failed`, e);
+                sendJson(res, 500, { error: "Internal server error" });
+            }
+        }
+    });
+}
@@ -0,0 +1,350 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+// Same as generateReport.ts, but runs fully offline against a directory of saved Discord webpack chunks
+// instead of a live Discord session, so it needs neither a token nor a browser.
+//
+// Usage:
+//   pnpm buildWeb --standalone --dev
+//   pnpm generateOfflineReport <path to chunks directory> [path to settings.json]
+//
+// The chunks directory should contain Discord's asset files (https://discord.com/assets/*.js). Only webpack
+// chunk files are evaluated, everything else (like the entry point containing the webpack runtime) is skipped.
+// If a settings file (as exported by the Backup & Restore tab) is given, only plugins enabled in it are tested,
+// otherwise all plugins are.
+
+import { Console } from "console";
+import { readdirSync, readFileSync } from "fs";
+import { join } from "path";
+import vm from "vm";
+
+const [chunksDir, settingsFile] = process.argv.slice(2);
+if (!chunksDir) {
+    console.error("Usage: generateOfflineReport <chunks directory> [settings.json]");
+    process.exit(1);
+}
+
+const CHUNK_PREFIX = "(this.webpackChunkdiscord_app=this.webpackChunkdiscord_app||[]).push(";
+
+const report = {
+    badPatches: [] as {
+        plugin: string;
+        type: string;
+        id: string;
+        match: string;
+        error?: string;
+    }[],
+    patchConflicts: [] as string[],
+    otherErrors: [] as string[],
+    badWebpackFinds: [] as string[]
+};
+
+function toCodeBlock(s: string) {
+    s = s.replace(/```/g, "`\u200B`\u200B`");
+    return "```" + s + " ```";
+}
+
+function printReport() {
+    console.log();
+
+    console.log("# Vencord Report (Offline)");
+
+    console.log();
+
+    console.log("## Bad Patches");
+    report.badPatches.forEach(p => {
+        console.log(`- ${p.plugin} (${p.type})`);
+        console.log(`  - ID: \`${p.id}\``);
+        console.log(`  - Match: ${toCodeBlock(p.match)}`);
+        if (p.error) console.log(`  - Error: ${toCodeBlock(p.error)}`);
+    });
+
+    console.log();
+
+    console.log("## Patch Conflicts");
+    report.patchConflicts.forEach(c => console.log("- " + c));
+
+    console.log();
+
+    console.log("## Bad Webpack Finds");
+    report.badWebpackFinds.forEach(p => console.log("- " + p));
+
+    console.log();
+
+    console.log("## Discord Errors");
+    report.otherErrors.forEach(e => {
+        console.log(`- ${toCodeBlock(e)}`);
+    });
+
+    console.log();
+}
+
+/**
+ * An object that can be accessed, called and constructed in any way without throwing.
+ * Used in place of all browser APIs Vencord touches while initialising, none of which matter for patching
+ */
+function makeStub(): any {
+    return new Proxy(function () { }, {
+        get(_, key) {
+            if (key === Symbol.toPrimitive) return () => "";
+            // Don't pretend to be a Promise
+            if (key === "then") return undefined;
+            return makeStub();
+        },
+        set: () => true,
+        apply: () => makeStub(),
+        construct: () => makeStub()
+    });
+}
+
+function makeLocalStorage(initial: Record<string, string>) {
+    const data = new Map(Object.entries(initial));
+    return {
+        getItem: (key: string) => data.get(key) ?? null,
+        setItem: (key: string, value: string) => void data.set(key, String(value)),
+        removeItem: (key: string) => void data.delete(key),
+        clear: () => data.clear()
+    };
+}
+
+/**
+ * A minimal implementation of the webpack runtime. Discord's own runtime lives in its entry point,
+ * which can't run without a real browser, so modules are required through this instead
+ */
+function makeWebpackRequire() {
+    const wreq: any = function (id: PropertyKey) {
+        const cached = wreq.c[id];
+        if (cached) return cached.exports;
+
+        const module = wreq.c[id] = { id, loaded: false, exports: {} };
+        wreq.m[id].call(module.exports, module, module.exports, wreq);
+        module.loaded = true;
+
+        return module.exports;
+    };
+
+    wreq.m = {};
+    wreq.c = {};
+    wreq.p = "/assets/";
+    wreq.u = (id: PropertyKey) => `${String(id)}.js`;
+    wreq.g = globalThis;
+    wreq.o = (obj: object, prop: PropertyKey) => Object.prototype.hasOwnProperty.call(obj, prop);
+    wreq.d = (exports: object, definition: Record<string, () => any>) => {
+        for (const key in definition) {
+            if (wreq.o(definition, key) && !wreq.o(exports, key))
+                Object.defineProperty(exports, key, { enumerable: true, get: definition[key] });
+        }
+    };
+    wreq.r = (exports: object) => {
+        Object.defineProperty(exports, Symbol.toStringTag, { value: "Module" });
+        Object.defineProperty(exports, "__esModule", { value: true });
+    };
+    wreq.n = (module: any) => {
+        const getter = module?.__esModule ? () => module.default : () => module;
+        wreq.d(getter, { a: getter });
+        return getter;
+    };
+    wreq.t = function (value: any, mode: number) {
+        if (mode & 1) value = this(value);
+        if (mode & 8) return value;
+        if (typeof value === "object" && value) {
+            if ((mode & 4) && value.__esModule) return value;
+            if ((mode & 16) && typeof value.then === "function") return value;
+        }
+
+        const ns = Object.create(null);
+        wreq.r(ns);
+        const def = {} as Record<string, () => any>;
+        for (let current = mode & 2 && value; typeof current === "object" && current; current = Object.getPrototypeOf(current)) {
+            for (const key of Object.getOwnPropertyNames(current)) def[key] = () => value[key];
+        }
+        def.default = () => value;
+        wreq.d(ns, def);
+        return ns;
+    };
+    wreq.nmd = (module: any) => {
+        module.paths = [];
+        module.children ??= [];
+        return module;
+    };
+    wreq.hmd = wreq.nmd;
+    // Every chunk was already loaded from the snapshot, so there is nothing left to fetch
+    wreq.e = () => Promise.resolve();
+
+    return wreq;
+}
+
+function unCanonicalize(match: string) {
+    return match.replace(/\[A-Za-z_\$\]\[\\w\$\]\*/g, "\\i");
+}
+
+const settings = settingsFile ? JSON.parse(readFileSync(settingsFile, "utf-8")).settings : null;
+
+const stderr = new Console(process.stderr);
+const context = vm.createContext({
+    console: stderr,
+    setTimeout,
+    clearTimeout,
+    setInterval,
+    clearInterval,
+    queueMicrotask,
+    performance,
+    TextEncoder,
+    TextDecoder,
+    URL,
+    URLSearchParams,
+    AbortController,
+    fetch: () => Promise.reject(new Error("The offline report has no network access")),
+    localStorage: makeLocalStorage(settings ? { VencordSettings: JSON.stringify(settings) } : {}),
+    navigator: { userAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64)", platform: "Win32", languages: ["en-US", "en"] },
+    location: { href: "https://discord.com/app", origin: "https://discord.com", host: "discord.com", pathname: "/app", search: "", hash: "" },
+    document: makeStub(),
+    indexedDB: makeStub(),
+    addEventListener: () => { },
+    removeEventListener: () => { },
+    open: () => null
+});
+vm.runInContext("globalThis.window = globalThis.self = globalThis;", context);
+
+vm.runInContext(readFileSync("./dist/browser.js", "utf-8"), context, { filename: "Vencord" });
+const { Vencord } = context;
+
+// Only report errors, the rest of Vencord's logging is just noise here
+Vencord.Util.Logger.prototype._log = function (level: string, _levelColor: string, args: any[]) {
+    if (level === "error") stderr.error(`[${this.name}]`, ...args);
+};
+
+if (!settings) {
+    // Force enable all plugins and patches
+    Vencord.Plugins.patches.length = 0;
+    for (const p of Object.values(Vencord.Plugins.plugins as Record<string, import("../src/utils/types").Plugin>)) {
+        p.patches?.forEach(patch => {
+            Vencord.Plugins.patches.push(patch);
+            Vencord.Plugins.PatchDiagnostics.registerPatch(patch);
+        });
+    }
+}
+
+// Predicates mostly depend on settings, so ignore them to test every patch like the live report does
+for (const patch of Vencord.Plugins.patches) {
+    delete patch.predicate;
+    (patch.replacement as Array<{ predicate?(): boolean; }>).forEach(r => delete r.predicate);
+}
+
+const wreq = makeWebpackRequire();
+// Set up the chunk global like Discord's runtime would. Vencord intercepts this assignment and
+// patches push, so every chunk pushed below goes through the patcher
+context.chunkGlobal = Object.assign([], {
+    push(chunk: [PropertyKey[], Record<PropertyKey, Function>, ((r: any) => void)?]) {
+        Object.assign(wreq.m, chunk[1]);
+        chunk[2]?.(wreq);
+    }
+});
+vm.runInContext("window.webpackChunkdiscord_app = chunkGlobal; delete globalThis.chunkGlobal;", context);
+
+if (!Vencord.Webpack.wreq) {
+    console.error("Failed to initialise Vencord's webpack");
+    process.exit(1);
+}
+
+const chunkFiles = readdirSync(chunksDir).filter(f => f.endsWith(".js")).sort();
+for (const file of chunkFiles) {
+    const code = readFileSync(join(chunksDir, file), "utf-8");
+    if (!code.trimStart().startsWith(CHUNK_PREFIX)) {
+        stderr.info(`Skipping ${file} as it is not a webpack chunk`);
+        continue;
+    }
+
+    try {
+        vm.runInContext(code, context, { filename: `https://discord.com/assets/${file}` });
+    } catch (e) {
+        report.otherErrors.push(`Failed to load chunk ${file}: ${e}`);
+    }
+}
+
+const { PatchDiagnostics } = Vencord.Plugins;
+for (const diagnostic of PatchDiagnostics.getPatchDiagnostics()) {
+    for (const { id, replacements } of diagnostic.modules) {
+        for (const r of replacements) {
+            if (r.status === PatchDiagnostics.ReplacementStatus.ERRORED || (r.status === PatchDiagnostics.ReplacementStatus.NO_EFFECT && !diagnostic.noWarn)) {
+                report.badPatches.push({
+                    plugin: diagnostic.plugin,
+                    type: r.status === PatchDiagnostics.ReplacementStatus.ERRORED ? "errored" : "had no effect",
+                    id: String(id),
+                    match: unCanonicalize(r.match),
+                    error: r.error
+                });
+            }
+        }
+    }
+}
+
+for (const conflict of PatchDiagnostics.getPatchConflicts()) {
+    report.patchConflicts.push(PatchDiagnostics.describeConflict(conflict));
+}
+
+for (const patch of Vencord.Plugins.patches) {
+    if (!patch.all) {
+        report.badPatches.push({
+            plugin: patch.plugin,
+            type: "found no module",
+            id: "-",
+            match: patch.find
+        });
+    }
+}
+
+// Evaluate all modules so webpack finds have exports to search through. Many of them need a real browser, so errors are expected
+for (const id in wreq.m) {
+    try {
+        wreq(id);
+    } catch { }
+}
+
+if (!Vencord.Webpack.lazyWebpackSearchHistory.length)
+    stderr.warn("No webpack finds were recorded. Make sure Vencord was built with --dev");
+
+for (const [searchType, args] of Vencord.Webpack.lazyWebpackSearchHistory) {
+    let method: string = searchType;
+
+    if (searchType === "findComponent") method = "find";
+    if (searchType === "findExportedComponent") method = "findByProps";
+    if (searchType === "waitFor" || searchType === "waitForComponent") {
+        if (typeof args[0] === "string") method = "findByProps";
+        else method = "find";
+    }
+    if (searchType === "waitForStore") method = "findStore";
+
+    try {
+        let result: any;
+
+        if (method === "proxyLazyWebpack" || method === "LazyComponentWebpack") {
+            const [factory] = args;
+            result = factory();
+        } else if (method === "extractAndLoadChunks") {
+            const [code, matcher] = args;
+
+            const module = Vencord.Webpack.findModuleFactory(...code);
+            if (module) result = module.toString().match(Vencord.Util.canonicalizeMatch(matcher));
+        } else {
+            result = Vencord.Webpack[method as keyof typeof Vencord.Webpack](...args);
+        }
+
+        if (result == null || ("$$vencordInternal" in result && result.$$vencordInternal() == null)) throw new Error("Not found");
+    } catch (e) {
+        let logMessage: string = searchType;
+        if (method === "find" || method === "proxyLazyWebpack" || method === "LazyComponentWebpack") logMessage += `(${args[0].toString().slice(0, 147)}...)`;
+        else if (method === "extractAndLoadChunks") logMessage += `([${args[0].map(arg => `"${arg}"`).join(", ")}], ${args[1].toString()})`;
+        else logMessage += `(${args.map(arg => `"${arg}"`).join(", ")})`;
+
+        report.badWebpackFinds.push(logMessage);
+    }
+}
+
+printReport();
+
+// Some Discord modules start timers while being evaluated, which would otherwise keep the process alive
+process.exit(report.badPatches.length || report.badWebpackFinds.length ? 1 : 0);
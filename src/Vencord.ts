@@ -33,9 +33,8 @@ import { get as dsGet } from "./api/DataStore";
 import { showNotification } from "./api/Notifications";
 import { PlainSettings, Settings } from "./api/Settings";
 import { patches, PMLogger, startAllPlugins } from "./plugins";
-import { localStorage } from "./utils/localStorage";
 import { relaunch } from "./utils/native";
-import { getCloudSettings, putCloudSettings } from "./utils/settingsSync";
+import { syncCloudSettings } from "./utils/settingsSync";
 import { checkForUpdates, update, UpdateLogger } from "./utils/updater";
 import { onceReady } from "./webpack";
 import { SettingsRouter } from "./webpack/common";
@@ -49,6 +48,7 @@ async function syncSettings() {
         // show a notification letting them know and tell them how to fix it
         showNotification({
             title: "Cloud Integrations",
+            source: "Cloud",
             body: "We've noticed you have cloud integrations enabled in another client! Due to limitations, you will " +
                 "need to re-authenticate to continue using them. Click here to go to the settings page to do so!",
             color: "var(--yellow-360)",
@@ -61,16 +61,14 @@ async function syncSettings() {
         Settings.cloud.settingsSync && // if it's enabled
         Settings.cloud.authenticated // if cloud integrations are enabled
     ) {
-        if (localStorage.Vencord_settingsDirty) {
-            await putCloudSettings();
-            delete localStorage.Vencord_settingsDirty;
-        } else if (await getCloudSettings(false)) { // if we synchronized something (false means no sync)
-            // we show a notification here instead of allowing getCloudSettings() to show one to declutter the amount of
-            // potential notifications that might occur. getCloudSettings() will always send a notification regardless if
-            // there was an error to notify the user, but besides that we only want to show one notification instead of all
-            // of the possible ones it has (such as when your settings are newer).
+        if (await syncCloudSettings()) { // if local settings changed (false means no sync or only an upload)
+            // we show a notification here instead of allowing syncCloudSettings() to show one to declutter the amount of
+            // potential notifications that might occur. syncCloudSettings() will always send a notification regardless if
+            // there was an error or a conflict to notify the user, but besides that we only want to show one notification
+            // instead of all of the possible ones it has (such as when your settings are newer).
             showNotification({
                 title: "Cloud Settings",
+                source: "Cloud",
                 body: "Your settings have been updated! Click here to restart to fully apply changes!",
                 color: "var(--green-360)",
                 onClick: relaunch
@@ -95,6 +93,7 @@ async function init() {
                 if (Settings.autoUpdateNotification)
                     setTimeout(() => showNotification({
                         title: "Vencord has been updated!",
+                        source: "Updater",
                         body: "Click here to restart",
                         permanent: true,
                         noPersist: true,
@@ -106,6 +105,7 @@ async function init() {
             if (Settings.notifyAboutUpdates)
                 setTimeout(() => showNotification({
                     title: "A Vencord update is available!",
+                    source: "Updater",
                     body: "Click here to view the update",
                     permanent: true,
                     noPersist: true,
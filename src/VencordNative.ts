@@ -4,9 +4,12 @@
  * SPDX-License-Identifier: GPL-3.0-or-later
  */
 
+import type { Snippet } from "@main/ipcMain";
 import { PluginIpcMappings } from "@main/ipcPlugins";
+import type { OnlineTheme } from "@main/onlineThemes";
 import type { UserThemeHeader } from "@main/themes";
 import { IpcEvents } from "@shared/IpcEvents";
+import type { CssDiagnostic } from "@utils/cssLint";
 import { IpcRes } from "@utils/types";
 import type { Settings } from "api/Settings";
 import { ipcRenderer } from "electron";
@@ -37,6 +40,19 @@ export default {
         getThemesList: () => invoke<Array<UserThemeHeader>>(IpcEvents.GET_THEMES_LIST),
         getThemeData: (fileName: string) => invoke<string | undefined>(IpcEvents.GET_THEME_DATA, fileName),
         getSystemValues: () => invoke<Record<string, string>>(IpcEvents.GET_THEME_SYSTEM_VALUES),
+        getOnlineThemes: () => invoke<Record<string, OnlineTheme>>(IpcEvents.GET_ONLINE_THEMES),
+        /** @returns The saved copy of an online theme, or undefined if it hasn't been saved yet */
+        getOnlineThemeData: (link: string) => invoke<string | undefined>(IpcEvents.GET_ONLINE_THEME_DATA, link),
+        checkOnlineThemes: () => invoke<Record<string, OnlineTheme>>(IpcEvents.CHECK_ONLINE_THEMES),
+
+        /** @returns A function to remove the listener */
+        addOnlineThemesChangeListener(cb: () => void) {
+            const listener = () => cb();
+            ipcRenderer.on(IpcEvents.ONLINE_THEMES_UPDATE, listener);
+            return () => {
+                ipcRenderer.off(IpcEvents.ONLINE_THEMES_UPDATE, listener);
+            };
+        },
     },
 
     updater: {
@@ -64,6 +80,28 @@ export default {
             ipcRenderer.on(IpcEvents.THEME_UPDATE, () => cb());
         },
 
+        getSnippets: () => invoke<Snippet[]>(IpcEvents.GET_SNIPPETS),
+        setSnippet: (name: string, css: string) => invoke<void>(IpcEvents.SET_SNIPPET, name, css),
+        deleteSnippet: (name: string) => invoke<void>(IpcEvents.DELETE_SNIPPET, name),
+        renameSnippet: (name: string, newName: string) => invoke<void>(IpcEvents.RENAME_SNIPPET, name, newName),
+
+        /** @returns A function to remove the listener */
+        addSnippetsChangeListener(cb: (snippets: Snippet[]) => void) {
+            const listener = (_: unknown, snippets: Snippet[]) => cb(snippets);
+            ipcRenderer.on(IpcEvents.SNIPPETS_UPDATE, listener);
+            return () => {
+                ipcRenderer.off(IpcEvents.SNIPPETS_UPDATE, listener);
+            };
+        },
+
+        /** Diagnostics of the main QuickCSS file and each snippet. The main file has an empty name */
+        getDiagnostics: () => invoke<Record<string, CssDiagnostic[]>>(IpcEvents.GET_QUICK_CSS_DIAGNOSTICS),
+        setDiagnostics: (diagnostics: Record<string, CssDiagnostic[]>) => invoke<void>(IpcEvents.SET_QUICK_CSS_DIAGNOSTICS, diagnostics),
+
+        addDiagnosticsListener(cb: (diagnostics: Record<string, CssDiagnostic[]>) => void) {
+            ipcRenderer.on(IpcEvents.QUICK_CSS_DIAGNOSTICS_UPDATE, (_, diagnostics) => cb(diagnostics));
+        },
+
         openFile: () => invoke<void>(IpcEvents.OPEN_QUICKCSS),
         openEditor: () => invoke<void>(IpcEvents.OPEN_MONACO_EDITOR),
     },
@@ -16,10 +16,13 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { Logger } from "@utils/Logger";
 import { makeCodeblock } from "@utils/text";
+import { ChannelStore, FluxDispatcher, GuildStore } from "@webpack/common";
+import { Promisable } from "type-fest";
 
 import { sendBotMessage } from "./commandHelpers";
-import { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType, Argument, Command, CommandContext, Option } from "./types";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, ApplicationCommandType, Argument, ChoicesOption, Command, CommandContext, CommandReturnValue, Option } from "./types";
 
 export * from "./commandHelpers";
 export * from "./types";
@@ -54,12 +57,68 @@ export const _init = function (cmds: Command[]) {
     return cmds;
 } as never;
 
-export const _handleCommand = function (cmd: Command, args: Argument[], ctx: CommandContext) {
+type SubCommand = Command & {
+    subCommandPath: Array<Pick<Option, "name" | "type" | "displayName">>;
+    rootCommand: Command;
+};
+
+const isSubCommand = (o?: Option) => o?.type === ApplicationCommandOptionType.SUB_COMMAND || o?.type === ApplicationCommandOptionType.SUB_COMMAND_GROUP;
+
+function validateOption(option: Option, value: unknown) {
+    switch (option.type) {
+        case ApplicationCommandOptionType.INTEGER:
+        case ApplicationCommandOptionType.NUMBER: {
+            const num = Number(value);
+            if (option.minValue != null && num < option.minValue) return `must be at least ${option.minValue}`;
+            if (option.maxValue != null && num > option.maxValue) return `must be at most ${option.maxValue}`;
+            break;
+        }
+        case ApplicationCommandOptionType.STRING: {
+            const str = String(value);
+            if (option.minLength != null && str.length < option.minLength) return `must be at least ${option.minLength} characters long`;
+            if (option.maxLength != null && str.length > option.maxLength) return `must be at most ${option.maxLength} characters long`;
+            if (option.pattern && !option.pattern.test(str)) return `must be ${option.patternDescription ?? `of the format ${option.pattern}`}`;
+            break;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Check arguments against the options they were passed for, including those of sub-commands
+ * @returns An error message, or null if all arguments are valid
+ */
+function validateArguments(options: Option[] | undefined, args: Argument[]): string | null {
+    for (const arg of args) {
+        const option = options?.find(o => o.name === arg.name);
+        if (!option) continue;
+
+        if (isSubCommand(option)) {
+            const error = validateArguments(option.options, arg.options ?? []);
+            if (error) return error;
+        } else {
+            const error = validateOption(option, arg.value);
+            if (error) return `\`${option.name}\` ${error}`;
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Execute a command like Discord does when it is used, including validation and error handling for Vencord commands
+ * @param args The arguments as Discord passes them. For sub-commands, these are nested in the sub-command's arguments
+ * @returns The message to send, or nothing if there is none
+ */
+export function executeCommand(cmd: Command, args: Argument[], ctx: CommandContext): Promisable<void | CommandReturnValue> {
     if (!cmd.isVencordCommand)
         return cmd.execute(args, ctx);
 
+    // Returning nothing makes Discord not send a message for BUILT_IN_TEXT commands
+    const handleResult = (res: void | CommandReturnValue) => res?.cancel ? undefined : res;
+
     const handleError = (err: any) => {
-        // TODO: cancel send if cmd.inputType === BUILT_IN_TEXT
         const msg = `An Error occurred while executing command "${cmd.name}"`;
         const reason = err instanceof Error ? err.stack || err.message : String(err);
 
@@ -72,14 +131,96 @@ export const _handleCommand = function (cmd: Command, args: Argument[], ctx: Com
         });
     };
 
+    // Sub-commands are registered separately, but receive the arguments of the whole command
+    const error = validateArguments((cmd as SubCommand).rootCommand?.options ?? cmd.options, args);
+    if (error) {
+        sendBotMessage(ctx.channel.id, {
+            content: `Invalid arguments for command "${cmd.name}": ${error}`,
+            author: {
+                username: "Vencord"
+            }
+        });
+        return;
+    }
+
     try {
         const res = cmd.execute(args, ctx);
-        return res instanceof Promise ? res.catch(handleError) : res;
+        return res instanceof Promise ? res.then(handleResult, handleError) : handleResult(res as void | CommandReturnValue);
     } catch (err) {
         return handleError(err);
     }
-} as never;
+}
 
+export const _handleCommand = executeCommand as never;
+
+/**
+ * Find any registered command by its full name, including Discord's built-in ones and sub-commands like `tags create`
+ */
+export function findCommand(name: string): Command | undefined {
+    return BUILT_IN?.find(c => c.name === name);
+}
+
+/**
+ * Get the options a command accepts itself. For sub-commands, these are the options of that sub-command
+ */
+export function getCommandOptions(cmd: Command) {
+    return cmd.options?.filter(o => !isSubCommand(o)) ?? [];
+}
+
+/**
+ * Run a command with arguments for {@link getCommandOptions its own options}, nesting them for sub-commands
+ */
+export function runCommand(cmd: Command, args: Argument[], ctx: CommandContext) {
+    const path = (cmd as SubCommand).subCommandPath ?? [];
+    const nestedArgs = path.reduceRight<Argument[]>((options, { name, type }) => [{ name, type, value: "", focused: undefined, options }], args);
+    return executeCommand(cmd, nestedArgs, ctx);
+}
+
+// Discord shows at most this many autocomplete results
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+const activeCommands = new Map<string, Command>();
+
+export const _setActiveCommand = (channelId: string, command: Command | null) =>
+    command ? activeCommands.set(channelId, command) : activeCommands.delete(channelId);
+
+interface AutocompleteRequest {
+    nonce: string;
+    channelId: string;
+    query: string;
+    /** The name of the option that is autocompleted */
+    name: string;
+}
+
+/**
+ * Answer an autocomplete request of Discord for the command that is being typed, if it is a Vencord command
+ * @returns Whether the command is a Vencord command, which Discord's API doesn't know about
+ */
+export function _handleAutocomplete({ nonce, channelId, query, name }: AutocompleteRequest) {
+    const cmd = activeCommands.get(channelId);
+    if (!cmd?.isVencordCommand) return false;
+
+    const option = getCommandOptions(cmd).find(o => o.name === name);
+    const channel = ChannelStore.getChannel(channelId);
+    const ctx: CommandContext = { channel, guild: GuildStore.getGuild(channel?.guild_id) };
+
+    // Discord is still dispatching the request, so the response is dispatched asynchronously
+    (async () => option?.autocomplete?.(query, ctx) ?? [])()
+        .catch(err => {
+            new Logger("CommandsAPI").error(`Failed to autocomplete option "${name}" of command "${cmd.name}"`, err);
+            return [];
+        })
+        .then(choices => FluxDispatcher.dispatch({
+            type: "APPLICATION_COMMAND_AUTOCOMPLETE_RESPONSE",
+            nonce,
+            choices: choices.slice(0, MAX_AUTOCOMPLETE_CHOICES).map<ChoicesOption>(c => typeof c === "string"
+                ? { name: c, displayName: c, label: c, value: c }
+                : { ...c, displayName: c.displayName || c.name }
+            )
+        }));
+
+    return true;
+}
 
 /**
  * Prepare a Command Option for Discord by filling missing fields
@@ -93,34 +234,38 @@ export function prepareOption<O extends Option | Command>(opt: O): O {
         if (opt === OptPlaceholder) opts[i] = OptionalMessageOption;
         else if (opt === ReqPlaceholder) opts[i] = RequiredMessageOption;
         opt.choices?.forEach(x => x.displayName ||= x.name);
-
         prepareOption(opts[i]);
     });
     return opt;
 }
 
-// Yes, Discord registers individual commands for each subcommand
-// TODO: This probably doesn't support nested subcommands. If that is ever needed,
-// investigate
-function registerSubCommands(cmd: Command, plugin: string) {
-    cmd.options?.forEach(o => {
-        if (o.type !== ApplicationCommandOptionType.SUB_COMMAND)
+// Yes, Discord registers individual commands for each subcommand.
+// Sub-commands in groups are registered the same way, with the group in their path
+function registerSubCommands(cmd: Command, plugin: string, options = cmd.options, path = [] as SubCommand["subCommandPath"]) {
+    options?.forEach(o => {
+        if (!isSubCommand(o))
             throw new Error("When specifying sub-command options, all options must be sub-commands.");
-        const subCmd = {
+
+        const subCommandPath = [...path, { name: o.name, type: o.type, displayName: o.name }];
+
+        if (o.type === ApplicationCommandOptionType.SUB_COMMAND_GROUP) {
+            if (o.options?.some(sub => sub.type !== ApplicationCommandOptionType.SUB_COMMAND))
+                throw new Error("Sub-command groups may only contain sub-commands.");
+            return registerSubCommands(cmd, plugin, o.options, subCommandPath);
+        }
+
+        const fullName = [cmd.name, ...subCommandPath.map(p => p.name)].join(" ");
+        const subCmd: SubCommand = {
             ...cmd,
             ...o,
             type: ApplicationCommandType.CHAT_INPUT,
-            name: `${cmd.name} ${o.name}`,
-            id: `${o.name}-${cmd.id}`,
-            displayName: `${cmd.name} ${o.name}`,
-            subCommandPath: [{
-                name: o.name,
-                type: o.type,
-                displayName: o.name
-            }],
+            name: fullName,
+            id: `${subCommandPath.map(p => p.name).join("-")}-${cmd.id}`,
+            displayName: fullName,
+            subCommandPath,
             rootCommand: cmd
         };
-        registerCommand(subCmd as any, plugin);
+        registerCommand(subCmd, plugin);
     });
 }
 
@@ -146,7 +291,7 @@ export function registerCommand<C extends Command>(command: C, plugin: string) {
 
     prepareOption(command);
 
-    if (command.options?.[0]?.type === ApplicationCommandOptionType.SUB_COMMAND) {
+    if (isSubCommand(command.options?.[0])) {
         registerSubCommands(command, plugin);
         return;
     }
@@ -55,6 +55,22 @@ export interface Option {
     required?: boolean;
     options?: Option[];
     choices?: Array<ChoicesOption>;
+    /**
+     * Suggest values while the user types, like the names of existing tags. Filtering them by the query is up to you.
+     * Unlike {@link choices}, other values are still accepted
+     */
+    autocomplete?(query: string, ctx: CommandContext): Promisable<Array<string | ChoicesOption>>;
+
+    /** For INTEGER and NUMBER options. Discord shows an inline error for values out of range */
+    minValue?: number;
+    maxValue?: number;
+    /** For STRING options. Discord shows an inline error for values that are too short or long */
+    minLength?: number;
+    maxLength?: number;
+    /** For STRING options. Checked before the command is executed, which is cancelled if it doesn't match */
+    pattern?: RegExp;
+    /** Shown instead of the pattern if a value doesn't match it */
+    patternDescription?: string;
 }
 
 export interface ChoicesOption {
@@ -72,7 +88,7 @@ export const enum ApplicationCommandType {
 
 export interface CommandReturnValue {
     content: string;
-    /** TODO: implement */
+    /** Don't send the message after all. Only applies to BUILT_IN_TEXT commands, others never send one */
     cancel?: boolean;
 }
 
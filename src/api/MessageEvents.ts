@@ -16,6 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { Settings, withSettingsKey } from "@api/Settings";
 import { Logger } from "@utils/Logger";
 import { MessageStore } from "@webpack/common";
 import { CustomEmoji } from "@webpack/types";
@@ -71,38 +72,139 @@ export interface MessageExtra {
     channel: Channel;
     type?: any;
     openWarningPopout: (props: any) => any;
+    /** What the listeners before the current one did to the message, in order */
+    transforms: MessageTransform[];
 }
 
 export type SendListener = (channelId: string, messageObj: MessageObject, extra: MessageExtra) => Promisable<void | { cancel: boolean; }>;
 export type EditListener = (channelId: string, messageId: string, messageObj: MessageObject) => Promisable<void | { cancel: boolean; }>;
 
-const sendListeners = new Set<SendListener>();
-const editListeners = new Set<EditListener>();
+/**
+ * Listeners with a higher priority run first. Listeners with the same priority run in the order they were added
+ */
+export const enum MessageEventPriority {
+    /** For changes every other listener should see, like removing tracking parameters from links */
+    First = 100,
+    Early = 50,
+    Normal = 0,
+    Late = -50,
+    /** For changes no other listener should touch anymore, like replacing emojis with links */
+    Last = -100
+}
+
+export interface ListenerOptions {
+    /** Shown in the debug view and used for per-channel opt-outs. Usually the name of the plugin */
+    name?: string;
+    priority?: MessageEventPriority | number;
+}
+
+interface ListenerEntry<L> {
+    listener: L;
+    name: string;
+    priority: number;
+}
+
+/**
+ * What one pre-send listener did to a message
+ */
+export interface MessageTransform {
+    name: string;
+    priority: number;
+    before: string;
+    after: string;
+    cancelled: boolean;
+    /** Set if the listener skipped this message because of a per-channel opt-out */
+    skipped: boolean;
+    error?: unknown;
+}
+
+export interface MessageSendTrace {
+    channelId: string;
+    timestamp: number;
+    transforms: MessageTransform[];
+}
+
+const sendListeners = [] as ListenerEntry<SendListener>[];
+const editListeners = [] as ListenerEntry<EditListener>[];
+
+let lastSendTrace: MessageSendTrace | null = null;
+export const getLastSendTrace = () => lastSendTrace;
+
+function addListener<L extends (...args: any[]) => any>(entries: ListenerEntry<L>[], listener: L, { name, priority = MessageEventPriority.Normal }: ListenerOptions) {
+    entries.push({ listener, name: name || listener.name || "Anonymous", priority });
+    // Array.prototype.sort is stable, so registration order is kept within a priority
+    entries.sort((a, b) => b.priority - a.priority);
+    return listener;
+}
+
+function removeListener<L>(entries: ListenerEntry<L>[], listener: L) {
+    const idx = entries.findIndex(e => e.listener === listener);
+    if (idx === -1) return false;
+
+    entries.splice(idx, 1);
+    return true;
+}
+
+export function isListenerDisabled(channelId: string, name: string) {
+    return Settings.messageEvents.disabledListeners[channelId]?.includes(name) ?? false;
+}
+
+export function setListenerDisabled(channelId: string, name: string, disabled: boolean) {
+    const { disabledListeners } = Settings.messageEvents;
+    const names = (disabledListeners[channelId] ?? []).filter(n => n !== name);
+    if (disabled) names.push(name);
+
+    Settings.messageEvents.disabledListeners = withSettingsKey(disabledListeners, channelId, names.length ? names : undefined);
+}
+
+/**
+ * Get the names and priorities of all pre-send listeners, in the order they run
+ */
+export function getPreSendListeners() {
+    return sendListeners.map(({ name, priority }) => ({ name, priority }));
+}
 
 export async function _handlePreSend(channelId: string, messageObj: MessageObject, extra: MessageExtra, replyOptions: MessageReplyOptions) {
     extra.replyOptions = replyOptions;
-    for (const listener of sendListeners) {
+    extra.transforms = [];
+    lastSendTrace = { channelId, timestamp: Date.now(), transforms: extra.transforms };
+
+    // Copy, so listeners removing themselves don't skip the next one
+    for (const { listener, name, priority } of [...sendListeners]) {
+        const transform: MessageTransform = { name, priority, before: messageObj.content, after: messageObj.content, cancelled: false, skipped: false };
+
+        if (isListenerDisabled(channelId, name)) {
+            transform.skipped = true;
+            extra.transforms.push(transform);
+            continue;
+        }
+
         try {
             const result = await listener(channelId, messageObj, extra);
-            if (result?.cancel) {
-                return true;
-            }
+            transform.cancelled = !!result?.cancel;
         } catch (e) {
-            MessageEventsLogger.error("MessageSendHandler: Listener encountered an unknown error\n", e);
+            transform.error = e;
+            MessageEventsLogger.error(`MessageSendHandler: Listener ${name} encountered an unknown error\n`, e);
         }
+
+        transform.after = messageObj.content;
+        extra.transforms.push(transform);
+        if (transform.cancelled) return true;
     }
     return false;
 }
 
 export async function _handlePreEdit(channelId: string, messageId: string, messageObj: MessageObject) {
-    for (const listener of editListeners) {
+    for (const { listener, name } of [...editListeners]) {
+        if (isListenerDisabled(channelId, name)) continue;
+
         try {
             const result = await listener(channelId, messageId, messageObj);
             if (result?.cancel) {
                 return true;
             }
         } catch (e) {
-            MessageEventsLogger.error("MessageEditHandler: Listener encountered an unknown error\n", e);
+            MessageEventsLogger.error(`MessageEditHandler: Listener ${name} encountered an unknown error\n`, e);
         }
     }
     return false;
@@ -110,23 +212,22 @@ export async function _handlePreEdit(channelId: string, messageId: string, messa
 
 /**
  * Note: This event fires off before a message is sent, allowing you to edit the message.
+ * Pass a name and priority so your listener runs at the right point, see {@link MessageEventPriority}
  */
-export function addPreSendListener(listener: SendListener) {
-    sendListeners.add(listener);
-    return listener;
+export function addPreSendListener(listener: SendListener, options: ListenerOptions = {}) {
+    return addListener(sendListeners, listener, options);
 }
 /**
  * Note: This event fires off before a message's edit is applied, allowing you to further edit the message.
  */
-export function addPreEditListener(listener: EditListener) {
-    editListeners.add(listener);
-    return listener;
+export function addPreEditListener(listener: EditListener, options: ListenerOptions = {}) {
+    return addListener(editListeners, listener, options);
 }
 export function removePreSendListener(listener: SendListener) {
-    return sendListeners.delete(listener);
+    return removeListener(sendListeners, listener);
 }
 export function removePreEditListener(listener: EditListener) {
-    return editListeners.delete(listener);
+    return removeListener(editListeners, listener);
 }
 
 
@@ -21,7 +21,7 @@ import "./styles.css";
 import { useSettings } from "@api/Settings";
 import ErrorBoundary from "@components/ErrorBoundary";
 import { classes } from "@utils/misc";
-import { React, useEffect, useMemo, useState, useStateFromStores, WindowStore } from "@webpack/common";
+import { Button, React, useEffect, useMemo, useState, useStateFromStores, WindowStore } from "@webpack/common";
 
 import { NotificationData } from "./Notifications";
 
@@ -36,15 +36,18 @@ export default ErrorBoundary.wrap(function NotificationComponent({
     image,
     permanent,
     className,
-    dismissOnClick
-}: NotificationData & { className?: string; }) {
-    const { timeout, position } = useSettings(["notifications.timeout", "notifications.position"]).notifications;
+    dismissOnClick,
+    actions,
+    count = 1
+}: NotificationData & { className?: string; count?: number; }) {
+    const { timeout } = useSettings(["notifications.timeout"]).notifications;
     const hasFocus = useStateFromStores([WindowStore], () => WindowStore.isFocused());
 
     const [isHover, setIsHover] = useState(false);
     const [elapsed, setElapsed] = useState(0);
 
-    const start = useMemo(() => Date.now(), [timeout, isHover, hasFocus]);
+    // A new notification of the same group restarts the timeout
+    const start = useMemo(() => Date.now(), [timeout, isHover, hasFocus, count]);
 
     useEffect(() => {
         if (isHover || !hasFocus || timeout === 0 || permanent) return void setElapsed(0);
@@ -58,14 +61,13 @@ export default ErrorBoundary.wrap(function NotificationComponent({
         }, 10);
 
         return () => clearInterval(intervalId);
-    }, [timeout, isHover, hasFocus]);
+    }, [timeout, isHover, hasFocus, count]);
 
     const timeoutProgress = elapsed / timeout;
 
     return (
         <button
             className={classes("vc-notification-root", className)}
-            style={position === "bottom-right" ? { bottom: "1rem" } : { top: "3rem" }}
             onClick={() => {
                 onClick?.();
                 if (dismissOnClick !== false)
@@ -83,7 +85,10 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                 {icon && <img className="vc-notification-icon" src={icon} alt="" />}
                 <div className="vc-notification-content">
                     <div className="vc-notification-header">
-                        <h2 className="vc-notification-title">{title}</h2>
+                        <h2 className="vc-notification-title">
+                            {title}
+                            {count > 1 && <span className="vc-notification-count">{count}</span>}
+                        </h2>
                         <button
                             className="vc-notification-close-btn"
                             onClick={e => {
@@ -107,6 +112,26 @@ export default ErrorBoundary.wrap(function NotificationComponent({
                     <div>
                         {richBody ?? <p className="vc-notification-p">{body}</p>}
                     </div>
+                    {actions && (
+                        <div className="vc-notification-actions">
+                            {actions.map(({ label, onClick, dismissOnClick }) => (
+                                <Button
+                                    key={label}
+                                    size={Button.Sizes.SMALL}
+                                    color={Button.Colors.PRIMARY}
+                                    onClick={e => {
+                                        e.preventDefault();
+                                        e.stopPropagation();
+                                        onClick();
+                                        if (dismissOnClick !== false)
+                                            onClose!();
+                                    }}
+                                >
+                                    {label}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </div>
             {image && <img className="vc-notification-img" src={image} alt="" />}
@@ -16,16 +16,14 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { Settings } from "@api/Settings";
-import { Queue } from "@utils/Queue";
+import { Settings, useSettings } from "@api/Settings";
 import { ReactDOM } from "@webpack/common";
 import type { ReactNode } from "react";
 import type { Root } from "react-dom/client";
 
 import NotificationComponent from "./NotificationComponent";
 import { persistNotification } from "./notificationLog";
-
-const NotificationQueue = new Queue();
+import { getNotificationRuleAction, NotificationRuleAction } from "./rules";
 
 let reactRoot: Root;
 let id = 42;
@@ -40,6 +38,15 @@ function getRoot() {
     return reactRoot;
 }
 
+export interface NotificationAction {
+    label: string;
+    onClick(): void;
+    /** Whether clicking this action dismisses the notification (defaults to true) */
+    dismissOnClick?: boolean;
+}
+
+export type NotificationPriority = "low" | "normal" | "high";
+
 export interface NotificationData {
     title: string;
     body: string;
@@ -61,23 +68,98 @@ export interface NotificationData {
     noPersist?: boolean;
     /** Whether this notification should be dismissed when clicked (defaults to true) */
     dismissOnClick?: boolean;
+    /** Buttons shown below the body. Not supported on desktop notifications */
+    actions?: NotificationAction[];
+    /**
+     * Notifications with the same group key are collapsed into one, which shows the newest of them
+     * and how many there were. Useful for plugins that may show many notifications at once
+     */
+    groupKey?: string;
+    /**
+     * High priority notifications skip ahead of others waiting to be shown and are never suppressed by rules.
+     * Defaults to normal
+     */
+    priority?: NotificationPriority;
+    /**
+     * Who shows this notification: the plugin name, or `Updater` and `Cloud` for Vencord's own notifications.
+     * Notification rules match against this. Defaults to the title
+     */
+    source?: string;
+}
+
+interface ActiveNotification {
+    id: number;
+    data: NotificationData;
+    /** How many notifications of the same group this one stands for */
+    count: number;
+}
+
+const PriorityOrder: Record<NotificationPriority, number> = {
+    low: 0,
+    normal: 1,
+    high: 2
+};
+
+let visible = [] as ActiveNotification[];
+// Sorted by priority, then by age
+const pending = [] as ActiveNotification[];
+
+function NotificationStack({ notifications }: { notifications: ActiveNotification[]; }) {
+    const { position } = useSettings(["notifications.position"]).notifications;
+
+    return (
+        <div className={`vc-notification-stack vc-notification-stack-${position}`}>
+            {notifications.map(({ id, data, count }) => (
+                <NotificationComponent key={id} {...data} count={count} onClose={() => closeNotification(id)} />
+            ))}
+        </div>
+    );
+}
+
+function renderNotifications() {
+    getRoot().render(<NotificationStack notifications={[...visible]} />);
 }
 
-function _showNotification(notification: NotificationData, id: number) {
-    const root = getRoot();
-    return new Promise<void>(resolve => {
-        root.render(
-            <NotificationComponent key={id} {...notification} onClose={() => {
-                notification.onClose?.();
-                root.render(null);
-                resolve();
-            }} />,
-        );
-    });
+function closeNotification(id: number) {
+    const notification = visible.find(n => n.id === id);
+    if (!notification) return;
+
+    visible = visible.filter(n => n !== notification);
+    notification.data.onClose?.();
+
+    while (pending.length && visible.length < Settings.notifications.maxVisible)
+        visible.push(pending.shift()!);
+
+    renderNotifications();
 }
 
-function shouldBeNative() {
+function showInAppNotification(data: NotificationData) {
+    if (data.groupKey) {
+        const group = [...visible, ...pending].find(n => n.data.groupKey === data.groupKey);
+        if (group) {
+            // The newer notification takes the place of the older one, which is closed that way
+            group.data.onClose?.();
+            group.data = data;
+            group.count++;
+            return renderNotifications();
+        }
+    }
+
+    const notification = { id: id++, data, count: 1 };
+
+    if (visible.length < Settings.notifications.maxVisible) {
+        visible.push(notification);
+    } else {
+        const priority = PriorityOrder[data.priority ?? "normal"];
+        const index = pending.findIndex(n => PriorityOrder[n.data.priority ?? "normal"] < priority);
+        pending.splice(index === -1 ? pending.length : index, 0, notification);
+    }
+
+    renderNotifications();
+}
+function shouldBeNative(ruleAction: NotificationRuleAction | null) {
     if (typeof Notification === "undefined") return false;
+    if (ruleAction) return ruleAction === "desktop";
 
     const { useNative } = Settings.notifications;
     if (useNative === "always") return true;
@@ -95,16 +177,21 @@ export async function requestPermission() {
 export async function showNotification(data: NotificationData) {
     persistNotification(data);
 
-    if (shouldBeNative() && await requestPermission()) {
-        const { title, body, icon, image, onClick = null, onClose = null } = data;
+    const ruleAction = getNotificationRuleAction(data);
+    if (ruleAction === "suppress") return;
+
+    if (shouldBeNative(ruleAction) && await requestPermission()) {
+        const { title, body, icon, image, groupKey, onClick = null, onClose = null } = data;
         const n = new Notification(title, {
             body,
             icon,
-            image
+            image,
+            // Replaces the previous notification of the group
+            tag: groupKey
         });
         n.onclick = onClick;
         n.onclose = onClose;
     } else {
-        NotificationQueue.push(() => _showNotification(data, id++));
+        showInAppNotification(data);
     }
 }
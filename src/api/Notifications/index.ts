@@ -17,3 +17,4 @@
 */
 
 export * from "./Notifications";
+export * from "./rules";
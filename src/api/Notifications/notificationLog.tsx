@@ -21,16 +21,30 @@ import { Settings } from "@api/Settings";
 import { classNameFactory } from "@api/Styles";
 import { closeModal, ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
 import { useAwaiter } from "@utils/react";
-import { Alerts, Button, Forms, React, Text, Timestamp, useEffect, useReducer, useState } from "@webpack/common";
+import { saveFile } from "@utils/web";
+import { Alerts, Button, Forms, React, Select, Switch, Text, TextInput, Timestamp, useEffect, useMemo, useReducer, useState } from "@webpack/common";
 import { nanoid } from "nanoid";
 import type { DispatchWithoutAction } from "react";
 
 import NotificationComponent from "./NotificationComponent";
 import type { NotificationData } from "./Notifications";
+import { getNotificationSource } from "./rules";
 
-interface PersistentNotificationData extends Pick<NotificationData, "title" | "body" | "image" | "icon" | "color"> {
+interface PersistentNotificationData extends Pick<NotificationData, "title" | "body" | "image" | "icon" | "color" | "groupKey" | "priority"> {
     timestamp: number;
     id: string;
+    /** See {@link getNotificationSource}. Missing on entries logged before sources were recorded */
+    source?: string;
+    /** Pinned entries are never removed because of the log limit */
+    pinned?: boolean;
+}
+
+interface LogFilter {
+    query: string;
+    source: string | null;
+    /** Only entries newer than this many days. null for all of them */
+    days: number | null;
+    pinnedOnly: boolean;
 }
 
 const KEY = "notification-log";
@@ -54,20 +68,22 @@ export async function persistNotification(notification: NotificationData) {
 
         // Omit stuff we don't need
         const {
-            onClick, onClose, richBody, permanent, noPersist, dismissOnClick,
+            onClick, onClose, richBody, permanent, noPersist, dismissOnClick, actions,
             ...pureNotification
         } = notification;
 
         log.unshift({
             ...pureNotification,
+            source: getNotificationSource(notification),
             timestamp: Date.now(),
             id: nanoid()
         });
 
-        if (log.length > limit && limit !== 200)
-            log.length = limit;
+        if (limit === 200) return log;
 
-        return log;
+        // Pinned entries don't count towards the limit
+        let unpinned = 0;
+        return log.filter(n => n.pinned || ++unpinned <= limit);
     });
 
     signals.forEach(x => x());
@@ -83,6 +99,52 @@ export async function deleteNotification(timestamp: number) {
     signals.forEach(x => x());
 }
 
+export async function deleteNotifications(ids: string[]) {
+    const toDelete = new Set(ids);
+    await DataStore.update(KEY, (log: PersistentNotificationData[] | undefined) => (log ?? []).filter(n => !toDelete.has(n.id)));
+    signals.forEach(x => x());
+}
+
+export async function setNotificationPinned(id: string, pinned: boolean) {
+    await DataStore.update(KEY, (log: PersistentNotificationData[] | undefined) =>
+        (log ?? []).map(n => n.id === id ? { ...n, pinned } : n)
+    );
+    signals.forEach(x => x());
+}
+
+function matchesFilter(n: PersistentNotificationData, { query, source, days, pinnedOnly }: LogFilter) {
+    if (pinnedOnly && !n.pinned) return false;
+    if (source && n.source !== source) return false;
+    if (days != null && n.timestamp < Date.now() - days * 24 * 60 * 60 * 1000) return false;
+    if (!query) return true;
+
+    const q = query.toLowerCase();
+    return [n.title, n.body, n.source].some(s => s?.toLowerCase().includes(q));
+}
+
+function escapeCsv(value: unknown) {
+    const str = String(value ?? "");
+    return /[",\n\r]/.test(str) ? `"${str.replaceAll('"', '""')}"` : str;
+}
+
+export function exportNotificationLog(log: PersistentNotificationData[], format: "json" | "csv") {
+    const content = format === "json"
+        ? JSON.stringify(log, null, 4)
+        : [
+            "timestamp,source,title,body,pinned",
+            ...log.map(n => [new Date(n.timestamp).toISOString(), n.source, n.title, n.body, !!n.pinned].map(escapeCsv).join(","))
+        ].join("\n");
+
+    const filename = `vencord-notifications-${new Date().toISOString().split("T")[0]}.${format}`;
+    const data = new TextEncoder().encode(content);
+
+    if (IS_DISCORD_DESKTOP) {
+        DiscordNative.fileManager.saveWithDialog(data, filename);
+    } else {
+        saveFile(new File([data], filename, { type: format === "json" ? "application/json" : "text/csv" }));
+    }
+}
+
 export function useLogs() {
     const [signal, setSignal] = useReducer(x => x + 1, 0);
 
@@ -129,7 +191,21 @@ function NotificationEntry({ data }: { data: PersistentNotificationData; }) {
                 richBody={
                     <div className={cl("body")}>
                         {data.body}
-                        <Timestamp timestamp={new Date(data.timestamp)} className={cl("timestamp")} />
+                        <div className={cl("meta")}>
+                            <Button
+                                size={Button.Sizes.MIN}
+                                look={Button.Looks.LINK}
+                                color={data.pinned ? Button.Colors.BRAND : Button.Colors.PRIMARY}
+                                onClick={(e: React.MouseEvent) => {
+                                    e.stopPropagation();
+                                    setNotificationPinned(data.id, !data.pinned);
+                                }}
+                            >
+                                {data.pinned ? "Unpin" : "Pin"}
+                            </Button>
+                            {data.source && <span className={cl("source")}>{data.source}</span>}
+                            <Timestamp timestamp={new Date(data.timestamp)} className={cl("timestamp")} />
+                        </div>
                     </div>
                 }
             />
@@ -137,13 +213,13 @@ function NotificationEntry({ data }: { data: PersistentNotificationData; }) {
     );
 }
 
-export function NotificationLog({ log, pending }: { log: PersistentNotificationData[], pending: boolean; }) {
+export function NotificationLog({ log, pending, filtered }: { log: PersistentNotificationData[], pending: boolean; filtered?: boolean; }) {
     if (!log.length && !pending)
         return (
             <div className={cl("container")}>
                 <div className={cl("empty")} />
                 <Forms.FormText style={{ textAlign: "center" }}>
-                    No notifications yet
+                    {filtered ? "No notifications match your filters" : "No notifications yet"}
                 </Forms.FormText>
             </div>
         );
@@ -155,8 +231,52 @@ export function NotificationLog({ log, pending }: { log: PersistentNotificationD
     );
 }
 
+const DateFilterOptions = [
+    { label: "Any time", value: null },
+    { label: "Last 24 hours", value: 1 },
+    { label: "Last 7 days", value: 7 },
+    { label: "Last 30 days", value: 30 }
+];
+
+function LogFilters({ log, filter, setFilter }: { log: PersistentNotificationData[]; filter: LogFilter; setFilter(filter: LogFilter): void; }) {
+    const sources = useMemo(() => [...new Set(log.map(n => n.source).filter(Boolean) as string[])].sort(), [log]);
+
+    return (
+        <div className={cl("filters")}>
+            <TextInput
+                placeholder="Search notifications..."
+                value={filter.query}
+                onChange={query => setFilter({ ...filter, query })}
+            />
+            <Select
+                options={[{ label: "All sources", value: null }, ...sources.map(s => ({ label: s, value: s }))]}
+                select={source => setFilter({ ...filter, source })}
+                isSelected={v => v === filter.source}
+                serialize={String}
+            />
+            <Select
+                options={DateFilterOptions}
+                select={days => setFilter({ ...filter, days })}
+                isSelected={v => v === filter.days}
+                serialize={String}
+            />
+            <Switch
+                value={filter.pinnedOnly}
+                onChange={pinnedOnly => setFilter({ ...filter, pinnedOnly })}
+                hideBorder
+            >
+                Pinned only
+            </Switch>
+        </div>
+    );
+}
+
 function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void; }) {
     const [log, pending] = useLogs();
+    const [filter, setFilter] = useState<LogFilter>({ query: "", source: null, days: null, pinnedOnly: false });
+
+    const isFiltered = !!(filter.query || filter.source || filter.days != null || filter.pinnedOnly);
+    const shown = isFiltered ? log.filter(n => matchesFilter(n, filter)) : log;
 
     return (
         <ModalRoot {...modalProps} size={ModalSize.LARGE}>
@@ -166,27 +286,31 @@ function LogModal({ modalProps, close }: { modalProps: ModalProps; close(): void
             </ModalHeader>
 
             <ModalContent>
-                <NotificationLog log={log} pending={pending} />
+                <LogFilters log={log} filter={filter} setFilter={setFilter} />
+                <NotificationLog log={shown} pending={pending} filtered={isFiltered} />
             </ModalContent>
 
-            <ModalFooter>
+            <ModalFooter className={cl("footer")}>
                 <Button
-                    disabled={log.length === 0}
+                    disabled={shown.length === 0}
                     onClick={() => {
                         Alerts.show({
                             title: "Are you sure?",
-                            body: `This will permanently remove ${log.length} notification${log.length === 1 ? "" : "s"}. This action cannot be undone.`,
-                            async onConfirm() {
-                                await DataStore.set(KEY, []);
-                                signals.forEach(x => x());
-                            },
+                            body: `This will permanently remove ${shown.length} ${isFiltered ? "shown " : ""}notification${shown.length === 1 ? "" : "s"}. This action cannot be undone.`,
+                            onConfirm: () => deleteNotifications(shown.map(n => n.id)),
                             confirmText: "Do it!",
                             confirmColor: "vc-notification-log-danger-btn",
                             cancelText: "Nevermind"
                         });
                     }}
                 >
-                    Clear Notification Log
+                    {isFiltered ? "Delete Shown Notifications" : "Clear Notification Log"}
+                </Button>
+                <Button color={Button.Colors.PRIMARY} disabled={shown.length === 0} onClick={() => exportNotificationLog(shown, "json")}>
+                    Export JSON
+                </Button>
+                <Button color={Button.Colors.PRIMARY} disabled={shown.length === 0} onClick={() => exportNotificationLog(shown, "csv")}>
+                    Export CSV
                 </Button>
             </ModalFooter>
         </ModalRoot>
@@ -0,0 +1,53 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings } from "@api/Settings";
+import { PresenceStore, SelectedChannelStore, UserStore } from "@webpack/common";
+
+import type { NotificationData } from "./Notifications";
+
+export type NotificationRuleCondition = "always" | "dnd" | "call";
+export type NotificationRuleAction = "suppress" | "in-app" | "desktop";
+
+export interface NotificationRule {
+    /** The source of the notifications this rule applies to, see {@link NotificationData.source}. `*` matches all of them */
+    source: string;
+    condition: NotificationRuleCondition;
+    action: NotificationRuleAction;
+}
+
+export const getNotificationSource = (data: NotificationData) => data.source ?? data.title;
+
+function isConditionMet(condition: NotificationRuleCondition) {
+    switch (condition) {
+        case "always":
+            return true;
+        case "dnd": {
+            const id = UserStore.getCurrentUser()?.id;
+            return id != null && PresenceStore.getStatus(id) === "dnd";
+        }
+        case "call":
+            return SelectedChannelStore.getVoiceChannelId() != null;
+    }
+}
+
+/**
+ * Find the first rule that applies to a notification right now. Rules are checked in the order they were added
+ * @returns The action of that rule, or null if no rule applies
+ */
+export function getNotificationRuleAction(data: NotificationData): NotificationRuleAction | null {
+    const source = getNotificationSource(data);
+
+    for (const rule of Settings.notifications.rules) {
+        if ((rule.source === "*" || rule.source === source) && isConditionMet(rule.condition)) {
+            // High priority notifications can be routed elsewhere, but never suppressed
+            if (rule.action === "suppress" && data.priority === "high") continue;
+            return rule.action;
+        }
+    }
+
+    return null;
+}
@@ -16,13 +16,17 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import * as DataStore from "@api/DataStore";
+import type { NotificationRule } from "@api/Notifications";
+import { SettingsProfile } from "@api/SettingsProfiles";
 import { debounce } from "@shared/debounce";
 import { SettingsStore as SettingsStoreClass } from "@shared/SettingsStore";
 import { localStorage } from "@utils/localStorage";
 import { Logger } from "@utils/Logger";
 import { mergeDefaults } from "@utils/misc";
-import { putCloudSettings } from "@utils/settingsSync";
-import { DefinedSettings, OptionType, SettingsChecks, SettingsDefinition } from "@utils/types";
+import { syncCloudSettings } from "@utils/settingsSync";
+import type { ThemeRule } from "@utils/themeRules";
+import { DefinedSettings, OptionType, SettingsChecks, SettingsDefinition, SettingsSchema } from "@utils/types";
 import { React } from "@webpack/common";
 
 import plugins from "~plugins";
@@ -33,9 +37,19 @@ export interface Settings {
     autoUpdate: boolean;
     autoUpdateNotification: boolean,
     useQuickCss: boolean;
+    /** Names of QuickCSS snippets that are turned off */
+    disabledSnippets: string[];
     enableReactDevtools: boolean;
     themeLinks: string[];
     enabledThemes: string[];
+    /** Values for the variables themes declare with `@var`, by theme file name and variable name */
+    themeVariables: Record<string, Record<string, string>>;
+    /** Local theme file names and online theme links in the order they're loaded. Others load after them */
+    themeOrder: string[];
+    /** When enabled themes are loaded, by theme file name or link */
+    themeRules: Record<string, ThemeRule>;
+    /** Load QuickCSS before themes instead of after them, so themes can override it */
+    themesOverrideQuickCss: boolean;
     frameless: boolean;
     transparent: boolean;
     winCtrlQ: boolean;
@@ -61,12 +75,25 @@ export interface Settings {
             [setting: string]: any;
         };
     };
+    /** Saved snapshots of plugin, theme and QuickCSS settings, see {@link SettingsProfile} */
+    profiles: Record<string, SettingsProfile>;
+    /** The name of the profile that was last switched to or saved */
+    activeProfile: string | undefined;
 
     notifications: {
         timeout: number;
         position: "top-right" | "bottom-right";
         useNative: "always" | "never" | "not-focused";
         logLimit: number;
+        /** How many Vencord notifications are shown at once. Others wait until one of them is closed */
+        maxVisible: number;
+        /** Checked in order, the first matching rule decides what happens to a notification */
+        rules: NotificationRule[];
+    };
+
+    messageEvents: {
+        /** Names of message listeners that don't run in a channel, by channel id */
+        disabledListeners: Record<string, string[]>;
     };
 
     cloud: {
@@ -74,16 +101,23 @@ export interface Settings {
         url: string;
         settingsSync: boolean;
         settingsSyncVersion: number;
+        /** DataStore keys that are only included in backups, but not synced to the cloud */
+        excludedDataStoreKeys: string[];
     };
 }
 
-const DefaultSettings: Settings = {
+export const DefaultSettings: Settings = {
     notifyAboutUpdates: true,
     autoUpdate: false,
     autoUpdateNotification: true,
     useQuickCss: true,
+    disabledSnippets: [],
     themeLinks: [],
     enabledThemes: [],
+    themeVariables: {},
+    themeOrder: [],
+    themeRules: {},
+    themesOverrideQuickCss: false,
     enableReactDevtools: false,
     frameless: false,
     transparent: false,
@@ -92,19 +126,28 @@ const DefaultSettings: Settings = {
     disableMinSize: false,
     winNativeTitleBar: false,
     plugins: {},
+    profiles: {},
+    activeProfile: undefined,
 
     notifications: {
         timeout: 5000,
         position: "bottom-right",
         useNative: "not-focused",
-        logLimit: 50
+        logLimit: 50,
+        maxVisible: 3,
+        rules: []
+    },
+
+    messageEvents: {
+        disabledListeners: {}
     },
 
     cloud: {
         authenticated: false,
         url: "https://api.vencord.dev/",
         settingsSync: false,
-        settingsSyncVersion: 0
+        settingsSyncVersion: 0,
+        excludedDataStoreKeys: []
     }
 };
 
@@ -112,10 +155,8 @@ const settings = VencordNative.settings.get();
 mergeDefaults(settings, DefaultSettings);
 
 const saveSettingsOnFrequentAction = debounce(async () => {
-    if (Settings.cloud.settingsSync && Settings.cloud.authenticated) {
-        await putCloudSettings();
-        delete localStorage.Vencord_settingsDirty;
-    }
+    if (Settings.cloud.settingsSync && Settings.cloud.authenticated)
+        await syncCloudSettings();
 }, 60_000);
 
 
@@ -205,6 +246,15 @@ export function useSettings(paths?: UseSettings<Settings>[]) {
     return SettingsStore.store;
 }
 
+/**
+ * Copy a record stored in the settings with a key set, or removed if the value is undefined.
+ * Deleting keys of the settings isn't saved, so records are replaced with such a copy instead
+ */
+export function withSettingsKey<T>(record: Record<string, T>, key: string, value: T | undefined): Record<string, T> {
+    const { [key]: _, ...others } = record;
+    return value === undefined ? others : { ...others, [key]: value };
+}
+
 export function migratePluginSettings(name: string, ...oldNames: string[]) {
     const { plugins } = SettingsStore.plain;
     if (name in plugins) return;
@@ -220,11 +270,109 @@ export function migratePluginSettings(name: string, ...oldNames: string[]) {
     }
 }
 
+/**
+ * Plugins whose settings or DataStore migrations failed, mapped to the error
+ */
+export const settingsMigrationErrors = {} as Record<string, string>;
+
+const DATASTORE_VERSIONS_KEY = "Vencord_dataStoreSchemaVersions";
+
+function recordMigrationError(pluginName: string, version: number, err: unknown) {
+    logger.error(`Failed to migrate settings of ${pluginName} to version ${version}\n`, err);
+    settingsMigrationErrors[pluginName] = `Migration to version ${version} failed: ${err}`;
+}
+
+/**
+ * Migrate plugin settings to the latest version of a schema. Every migration works on a copy,
+ * so the passed settings are never modified. Stops at the first failing migration
+ */
+export function migrateSettings<T extends Record<string, any>>(schema: SettingsSchema, stored: T) {
+    const migrations = [...schema.migrations ?? []].sort((a, b) => a.version - b.version);
+
+    // Settings that only consist of the enabled state belong to a plugin that was never configured,
+    // so they are up to date already
+    const isFresh = Object.keys(stored).every(k => k === "enabled");
+    const oldVersion: number = stored.settingsVersion ?? (isFresh ? schema.version : 0);
+
+    let version = oldVersion;
+    let settings = stored;
+    for (const migration of migrations) {
+        if (migration.version <= version) continue;
+
+        if (migration.settings) {
+            const copy: T = JSON.parse(JSON.stringify(settings));
+            try {
+                migration.settings(copy);
+            } catch (error) {
+                return { settings, oldVersion, version, failed: { version: migration.version, error } };
+            }
+            settings = copy;
+        }
+
+        version = migration.version;
+    }
+
+    return { settings, oldVersion, version: Math.max(version, schema.version), failed: null };
+}
+
+/**
+ * Run all settings migrations of a plugin that haven't been applied yet. DataStore migrations are started,
+ * but not awaited. Their progress is available as {@link DefinedSettings.migrated}, which plugins with
+ * DataStore migrations must await in `start`
+ */
+export function runSettingsMigrations(pluginName: string, definedSettings: DefinedSettings) {
+    const { schema } = definedSettings;
+    if (!schema) return;
+
+    const { plugins } = SettingsStore.plain;
+    const stored = plugins[pluginName] ?? {};
+
+    const { settings, oldVersion, version, failed } = migrateSettings(schema, stored);
+    if (failed) recordMigrationError(pluginName, failed.version, failed.error);
+
+    if (version !== oldVersion || settings !== stored) {
+        settings.settingsVersion = version;
+        plugins[pluginName] = settings;
+        SettingsStore.markAsChanged();
+        logger.info(`Migrated settings of ${pluginName} from version ${oldVersion} to ${version}`);
+    }
+
+    if (schema.migrations?.some(m => m.dataStore))
+        definedSettings.migrated = runDataStoreMigrations(pluginName, schema);
+}
+
+async function runDataStoreMigrations(pluginName: string, schema: SettingsSchema) {
+    const versions = await DataStore.get<Record<string, number>>(DATASTORE_VERSIONS_KEY) ?? {};
+    const oldVersion = versions[pluginName] ?? 0;
+    let version = oldVersion;
+    let failed = false;
+
+    for (const migration of [...schema.migrations!].sort((a, b) => a.version - b.version)) {
+        if (migration.version <= version) continue;
+
+        try {
+            await migration.dataStore?.();
+        } catch (err) {
+            recordMigrationError(pluginName, migration.version, err);
+            failed = true;
+            break;
+        }
+
+        version = migration.version;
+    }
+    if (!failed) version = Math.max(version, schema.version);
+
+    if (version !== oldVersion) {
+        await DataStore.update<Record<string, number>>(DATASTORE_VERSIONS_KEY, v => ({ ...v, [pluginName]: version }));
+        logger.info(`Migrated DataStore of ${pluginName} from version ${oldVersion} to ${version}`);
+    }
+}
+
 export function definePluginSettings<
     Def extends SettingsDefinition,
     Checks extends SettingsChecks<Def>,
     PrivateSettings extends object = {}
->(def: Def, checks?: Checks) {
+>(def: Def, checks?: Checks, schema?: SettingsSchema) {
     const definedSettings: DefinedSettings<Def, Checks, PrivateSettings> = {
         get store() {
             if (!definedSettings.pluginName) throw new Error("Cannot access settings before plugin is initialized");
@@ -236,6 +384,8 @@ export function definePluginSettings<
         def,
         checks: checks ?? {} as any,
         pluginName: "",
+        schema,
+        migrated: Promise.resolve(),
 
         withPrivateSettings<T extends object>() {
             return this as DefinedSettings<Def, Checks, T>;
@@ -251,8 +401,9 @@ type ResolveUseSettings<T extends object> = {
     [Key in keyof T]:
     Key extends string
     ? T[Key] extends Record<string, unknown>
+    // Objects can be listened to as a whole too, for when they are replaced
     // @ts-ignore "Type instantiation is excessively deep and possibly infinite"
-    ? UseSettings<T[Key]> extends string ? `${Key}.${UseSettings<T[Key]>}` : never
+    ? Key | (UseSettings<T[Key]> extends string ? `${Key}.${UseSettings<T[Key]>}` : never)
     : Key
     : never;
 };
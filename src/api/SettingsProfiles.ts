@@ -0,0 +1,260 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PlainSettings, Settings, withSettingsKey } from "@api/Settings";
+import { Logger } from "@utils/Logger";
+import { OptionType } from "@utils/types";
+
+const logger = new Logger("SettingsProfiles");
+
+export interface SettingsProfile {
+    /** The enabled state and option values of every plugin, keyed by plugin name */
+    plugins: Record<string, { enabled: boolean; [option: string]: any; }>;
+    enabledThemes: string[];
+    useQuickCss: boolean;
+    /** When this profile was last saved */
+    updatedAt: number;
+}
+
+export const enum ProfileChangeType {
+    PLUGIN = "plugin",
+    OPTION = "option",
+    THEME = "theme",
+    QUICK_CSS = "quickCss"
+}
+
+export interface ProfileChange {
+    type: ProfileChangeType;
+    /** The plugin this change belongs to. Only set for plugin and option changes */
+    plugin?: string;
+    /** The option or theme that changed */
+    key?: string;
+    oldValue: any;
+    newValue: any;
+}
+
+export interface ProfileSwitchResult {
+    changes: ProfileChange[];
+    /** Plugins whose changes only take effect after restarting */
+    restartNeeded: string[];
+    /** Plugins that failed to start or stop */
+    failures: string[];
+}
+
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+}
+
+function isEqual(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Take a snapshot of the current plugin, theme and QuickCSS settings
+ */
+export function createSnapshot(): SettingsProfile {
+    const plugins = {} as SettingsProfile["plugins"];
+
+    for (const p of Object.values(Vencord.Plugins.plugins)) {
+        if (p.required) continue;
+
+        // Accessed through the proxy so options that were never changed resolve to their default value
+        const settings = Settings.plugins[p.name];
+        const snapshot: SettingsProfile["plugins"][string] = { enabled: !!settings.enabled };
+
+        for (const [key, option] of Object.entries(p.options ?? {})) {
+            if (option.type === OptionType.COMPONENT || settings[key] === undefined) continue;
+            snapshot[key] = clone(settings[key]);
+        }
+
+        plugins[p.name] = snapshot;
+    }
+
+    return {
+        plugins,
+        enabledThemes: [...Settings.enabledThemes],
+        useQuickCss: Settings.useQuickCss,
+        updatedAt: Date.now()
+    };
+}
+
+/**
+ * Get the changes needed to go from one profile to another. Plugins and options that are missing
+ * from the target profile, for example because they were added after it was saved, are left as they are
+ */
+export function diffProfiles(from: SettingsProfile, to: SettingsProfile) {
+    const changes = [] as ProfileChange[];
+    const { plugins } = Vencord.Plugins;
+
+    for (const [name, target] of Object.entries(to.plugins)) {
+        const plugin = plugins[name];
+        if (!plugin || plugin.required) continue;
+
+        const current = from.plugins[name] ?? { enabled: false };
+        if (!!current.enabled !== !!target.enabled)
+            changes.push({ type: ProfileChangeType.PLUGIN, plugin: name, oldValue: !!current.enabled, newValue: !!target.enabled });
+
+        for (const [key, value] of Object.entries(target)) {
+            if (key === "enabled" || !plugin.options?.[key]) continue;
+            if (!isEqual(current[key], value))
+                changes.push({ type: ProfileChangeType.OPTION, plugin: name, key, oldValue: current[key], newValue: value });
+        }
+    }
+
+    for (const theme of new Set([...from.enabledThemes, ...to.enabledThemes])) {
+        const wasEnabled = from.enabledThemes.includes(theme);
+        if (wasEnabled !== to.enabledThemes.includes(theme))
+            changes.push({ type: ProfileChangeType.THEME, key: theme, oldValue: wasEnabled, newValue: !wasEnabled });
+    }
+
+    if (from.useQuickCss !== to.useQuickCss)
+        changes.push({ type: ProfileChangeType.QUICK_CSS, oldValue: from.useQuickCss, newValue: to.useQuickCss });
+
+    return changes;
+}
+
+export function getProfileNames() {
+    return Object.keys(PlainSettings.profiles).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Save the current settings as a profile, overwriting it if it already exists
+ */
+export function saveProfile(name: string) {
+    name = name.trim();
+    if (!name) throw new Error("Profile name can't be empty");
+
+    setProfiles({ ...PlainSettings.profiles, [name]: createSnapshot() });
+    Settings.activeProfile = name;
+}
+
+// The settings proxy only notices assignments, so profiles are always replaced as a whole
+function setProfiles(profiles: Record<string, SettingsProfile>) {
+    Settings.profiles = profiles;
+}
+
+export function deleteProfile(name: string) {
+    setProfiles(withSettingsKey(PlainSettings.profiles, name, undefined));
+    if (Settings.activeProfile === name) Settings.activeProfile = undefined;
+}
+
+export function renameProfile(oldName: string, newName: string) {
+    newName = newName.trim();
+    if (!newName) throw new Error("Profile name can't be empty");
+    if (newName in PlainSettings.profiles) throw new Error(`A profile named ${newName} already exists`);
+
+    const { [oldName]: profile, ...profiles } = PlainSettings.profiles;
+    setProfiles({ ...profiles, [newName]: profile });
+    if (Settings.activeProfile === oldName) Settings.activeProfile = newName;
+}
+
+/**
+ * Add a profile that was exported with {@link exportProfile}
+ */
+export function importProfile(name: string, profile: SettingsProfile) {
+    if (typeof profile?.plugins !== "object" || !Array.isArray(profile.enabledThemes))
+        throw new Error("Invalid profile");
+
+    setProfiles({
+        ...PlainSettings.profiles,
+        [name]: {
+            plugins: profile.plugins,
+            enabledThemes: profile.enabledThemes,
+            useQuickCss: !!profile.useQuickCss,
+            updatedAt: profile.updatedAt ?? Date.now()
+        }
+    });
+}
+
+export function exportProfile(name: string) {
+    const profile = PlainSettings.profiles[name];
+    if (!profile) throw new Error(`No profile named ${name}`);
+
+    return JSON.stringify({ profileName: name, profile }, null, 4);
+}
+
+/**
+ * Switch to a profile. Plugins are started and stopped right away where possible,
+ * everything else is reported as needing a restart
+ */
+export function switchProfile(name: string): ProfileSwitchResult {
+    const profile = PlainSettings.profiles[name];
+    if (!profile) throw new Error(`No profile named ${name}`);
+
+    const {
+        plugins, pluginLoadOrder, pluginDependencyErrors, isPluginEnabled, updateDependencyFlags,
+        applyPluginPatches, revertPluginPatches, startPlugin, stopPlugin
+    } = Vencord.Plugins;
+
+    const changes = diffProfiles(createSnapshot(), profile);
+    const restartNeeded = new Set<string>();
+    const failures = [] as string[];
+
+    const wasEnabled = {} as Record<string, boolean>;
+    for (const pluginName of pluginLoadOrder) wasEnabled[pluginName] = isPluginEnabled(pluginName);
+
+    let enabledThemes = [...Settings.enabledThemes];
+
+    for (const { type, plugin, key, newValue } of changes) {
+        switch (type) {
+            case ProfileChangeType.PLUGIN:
+                Settings.plugins[plugin!].enabled = newValue;
+                break;
+            case ProfileChangeType.OPTION:
+                Settings.plugins[plugin!][key!] = clone(newValue);
+                if (plugins[plugin!].options?.[key!]?.restartNeeded && wasEnabled[plugin!]) restartNeeded.add(plugin!);
+                break;
+            case ProfileChangeType.THEME:
+                enabledThemes = newValue ? [...enabledThemes, key!] : enabledThemes.filter(t => t !== key);
+                break;
+            case ProfileChangeType.QUICK_CSS:
+                Settings.useQuickCss = newValue;
+                break;
+        }
+    }
+
+    if (changes.some(c => c.type === ProfileChangeType.THEME))
+        Settings.enabledThemes = enabledThemes;
+
+    // Enabling or disabling a plugin can also change which dependencies are needed
+    updateDependencyFlags();
+
+    // Start plugins after their dependencies and stop them before
+    for (const pluginName of pluginLoadOrder) {
+        if (wasEnabled[pluginName] || !isPluginEnabled(pluginName) || pluginName in pluginDependencyErrors) continue;
+
+        const p = plugins[pluginName];
+        if (applyPluginPatches(p)) {
+            restartNeeded.add(pluginName);
+            continue;
+        }
+
+        // Still running because it was disabled while waiting for a restart
+        if (p.started) continue;
+        if (!startPlugin(p)) failures.push(pluginName);
+    }
+
+    for (const pluginName of [...pluginLoadOrder].reverse()) {
+        if (!wasEnabled[pluginName] || isPluginEnabled(pluginName)) continue;
+
+        const p = plugins[pluginName];
+        if (revertPluginPatches(p)) {
+            restartNeeded.add(pluginName);
+            continue;
+        }
+
+        // Never started, so there is nothing to stop
+        if (p.start && !p.started) continue;
+        if (!stopPlugin(p)) failures.push(pluginName);
+    }
+
+    Settings.activeProfile = name;
+
+    if (failures.length) logger.error(`Failed to start or stop the following plugins while switching to profile ${name}:`, failures.join(", "));
+    logger.info(`Switched to profile ${name} with ${changes.length} changes`);
+
+    return { changes, restartNeeded: [...restartNeeded], failures };
+}
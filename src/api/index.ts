@@ -30,6 +30,7 @@ import * as $Notices from "./Notices";
 import * as $Notifications from "./Notifications";
 import * as $ServerList from "./ServerList";
 import * as $Settings from "./Settings";
+import * as $SettingsProfiles from "./SettingsProfiles";
 import * as $Styles from "./Styles";
 
 /**
@@ -91,6 +92,10 @@ export const MemberListDecorators = $MemberListDecorators;
  * An API allowing you to persist data
  */
 export const Settings = $Settings;
+/**
+ * An API allowing you to save and switch between named snapshots of plugin, theme and QuickCSS settings
+ */
+export const SettingsProfiles = $SettingsProfiles;
 /**
  * An API allowing you to dynamically load styles
  * a
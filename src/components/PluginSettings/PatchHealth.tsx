@@ -0,0 +1,139 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { Badge } from "@components/Badge";
+import { Margins } from "@utils/margins";
+import { ConflictType, describeConflict, getPatchConflicts, getPatchDiagnostics, getPatchStatus, getPluginPatchHealth, PatchConflict, PatchDiagnostic, PatchStatus, ReplacementStatus } from "@utils/patchDiagnostics";
+import { Card, Forms, React, Text } from "@webpack/common";
+
+const cl = classNameFactory("vc-plugins-patch-health-");
+
+const StatusColors: Record<PatchStatus, string> = {
+    [PatchStatus.OK]: "var(--status-positive)",
+    [PatchStatus.PENDING]: "var(--status-warning)",
+    [PatchStatus.PARTIAL]: "var(--status-warning)",
+    [PatchStatus.FAILED]: "var(--status-danger)"
+};
+
+/**
+ * Shows whether any patches of a plugin are broken. Renders nothing if they're all fine
+ */
+export function PatchHealthBadge({ plugin }: { plugin: string; }) {
+    const health = getPluginPatchHealth(plugin);
+
+    if (health[PatchStatus.FAILED])
+        return <Badge text="BROKEN" color={StatusColors[PatchStatus.FAILED]} />;
+    if (health[PatchStatus.PARTIAL])
+        return <Badge text="PARTIAL" color={StatusColors[PatchStatus.PARTIAL]} />;
+
+    return null;
+}
+
+function PatchEntry({ diagnostic }: { diagnostic: PatchDiagnostic; }) {
+    const status = getPatchStatus(diagnostic);
+
+    return (
+        <div className={cl("patch")}>
+            <Text variant="text-sm/semibold" style={{ color: StatusColors[status] }}>
+                {diagnostic.plugin}: {diagnostic.find}
+            </Text>
+            {status === PatchStatus.PENDING
+                ? <Forms.FormText>No module matching this patch has been loaded yet</Forms.FormText>
+                : diagnostic.modules.map(({ id, replacements, undone }) => (
+                    <div key={id}>
+                        <Forms.FormText>
+                            Module {id}{undone && " (patch group was undone)"}
+                        </Forms.FormText>
+                        {replacements.filter(r => r.status === ReplacementStatus.ERRORED || r.status === ReplacementStatus.NO_EFFECT).map((r, i) => (
+                            <Forms.FormText key={i} className={cl("replacement")}>
+                                <code>{r.match}</code> {r.status === ReplacementStatus.ERRORED ? `errored: ${r.error}` : "had no effect"}
+                            </Forms.FormText>
+                        ))}
+                    </div>
+                ))
+            }
+        </div>
+    );
+}
+
+function ConflictEntry({ conflict }: { conflict: PatchConflict; }) {
+    const color = conflict.type === ConflictType.PREVENTED ? StatusColors[PatchStatus.FAILED] : StatusColors[PatchStatus.PARTIAL];
+
+    return (
+        <div className={cl("patch")}>
+            <Text variant="text-sm/semibold" style={{ color }}>
+                {describeConflict(conflict)}
+            </Text>
+            <Forms.FormText className={cl("replacement")}>
+                {conflict.plugin}: <code>{conflict.find}</code>
+            </Forms.FormText>
+            <Forms.FormText className={cl("replacement")}>
+                {conflict.affectedPlugin}: <code>{conflict.match ?? conflict.affectedFind}</code>
+            </Forms.FormText>
+        </div>
+    );
+}
+
+export function PatchHealthSection() {
+    const diagnostics = getPatchDiagnostics();
+    const conflicts = getPatchConflicts();
+    const counts = {
+        [PatchStatus.PENDING]: 0,
+        [PatchStatus.OK]: 0,
+        [PatchStatus.PARTIAL]: 0,
+        [PatchStatus.FAILED]: 0
+    };
+    const problems = [] as PatchDiagnostic[];
+    const pending = [] as PatchDiagnostic[];
+
+    for (const diagnostic of diagnostics) {
+        const status = getPatchStatus(diagnostic);
+        counts[status]++;
+
+        if (status === PatchStatus.FAILED || status === PatchStatus.PARTIAL) problems.push(diagnostic);
+        else if (status === PatchStatus.PENDING) pending.push(diagnostic);
+    }
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top20}>Patch Health</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                {counts[PatchStatus.OK]} patches applied, {counts[PatchStatus.PARTIAL]} partially applied, {counts[PatchStatus.FAILED]} failed
+                and {counts[PatchStatus.PENDING]} waiting for their module to be loaded.
+            </Forms.FormText>
+
+            {problems.length > 0 && (
+                <Card className={cl("card")}>
+                    {problems.map((d, i) => <PatchEntry key={i} diagnostic={d} />)}
+                </Card>
+            )}
+
+            {conflicts.length > 0 && (
+                <>
+                    <Forms.FormTitle tag="h5" className={Margins.top16}>Conflicts</Forms.FormTitle>
+                    <Forms.FormText className={Margins.bottom8}>
+                        These plugins patch the same code. If one of them doesn't work properly, try disabling the other.
+                    </Forms.FormText>
+                    <Card className={cl("card")}>
+                        {conflicts.map((c, i) => <ConflictEntry key={i} conflict={c} />)}
+                    </Card>
+                </>
+            )}
+
+            {pending.length > 0 && (
+                <details className={Margins.top8}>
+                    <summary>
+                        <Text variant="text-sm/normal" tag="span">Show pending patches</Text>
+                    </summary>
+                    <Card className={cl("card")}>
+                        {pending.map((d, i) => <PatchEntry key={i} diagnostic={d} />)}
+                    </Card>
+                </details>
+            )}
+        </>
+    );
+}
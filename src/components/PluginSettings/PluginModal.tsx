@@ -33,7 +33,12 @@ import { Constructor } from "type-fest";
 import {
     ISettingElementProps,
     SettingBooleanComponent,
+    SettingColorComponent,
     SettingCustomComponent,
+    SettingEntityComponent,
+    SettingKeybindComponent,
+    SettingListComponent,
+    SettingMapComponent,
     SettingNumericComponent,
     SettingSelectComponent,
     SettingSliderComponent,
@@ -65,14 +70,22 @@ function makeDummyUser(user: { username: string; id?: string; avatar?: string; }
     return newUser;
 }
 
-const Components: Record<OptionType, React.ComponentType<ISettingElementProps<any>>> = {
+export const SettingComponents: Record<OptionType, React.ComponentType<ISettingElementProps<any>>> = {
     [OptionType.STRING]: SettingTextComponent,
     [OptionType.NUMBER]: SettingNumericComponent,
     [OptionType.BIGINT]: SettingNumericComponent,
     [OptionType.BOOLEAN]: SettingBooleanComponent,
     [OptionType.SELECT]: SettingSelectComponent,
     [OptionType.SLIDER]: SettingSliderComponent,
-    [OptionType.COMPONENT]: SettingCustomComponent
+    [OptionType.COMPONENT]: SettingCustomComponent,
+    [OptionType.LIST]: SettingListComponent,
+    [OptionType.MAP]: SettingMapComponent,
+    [OptionType.COLOR]: SettingColorComponent,
+    [OptionType.KEYBIND]: SettingKeybindComponent,
+    [OptionType.USER]: SettingEntityComponent,
+    [OptionType.CHANNEL]: SettingEntityComponent,
+    [OptionType.GUILD]: SettingEntityComponent,
+    [OptionType.ROLE]: SettingEntityComponent
 };
 
 export default function PluginModal({ plugin, onRestartNeeded, onClose, transitionState }: PluginModalProps) {
@@ -142,7 +155,7 @@ export default function PluginModal({ plugin, onRestartNeeded, onClose, transiti
                     setErrors(e => ({ ...e, [key]: hasError }));
                 }
 
-                const Component = Components[setting.type];
+                const Component = SettingComponents[setting.type];
                 return (
                     <Component
                         id={key}
@@ -0,0 +1,204 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import PluginModal, { SettingComponents } from "@components/PluginSettings/PluginModal";
+import { CoreSwitch, getVencordSwitches, NotificationOptions, UpdaterSwitches } from "@components/VencordSettings/coreSettings";
+import { Margins } from "@utils/margins";
+import { openModalLazy } from "@utils/modal";
+import { OptionType, Plugin, PluginOptionsItem } from "@utils/types";
+import { Button, Card, Forms, React, Text } from "@webpack/common";
+
+import Plugins from "~plugins";
+
+const cl = classNameFactory("vc-plugins-search-");
+
+const MAX_RESULTS = 25;
+
+export interface SettingsSearchEntry {
+    /** The plugin this option belongs to. Not set for core settings */
+    plugin?: Plugin;
+    /** The name shown above the option, the plugin name or the settings section */
+    section: string;
+    key: string;
+    option: PluginOptionsItem;
+    /** The object the value of this option is stored in */
+    store: Record<string, any>;
+}
+
+function switchToEntry({ key, title, note }: CoreSwitch): Omit<SettingsSearchEntry, "store" | "section"> {
+    return { key, option: { type: OptionType.BOOLEAN, description: `${title.replace(/\.$/, "")}. ${note}` } };
+}
+
+/**
+ * Build the list of every searchable option, core settings first and then plugin options sorted by plugin name
+ */
+export function buildSettingsIndex() {
+    const entries = [] as SettingsSearchEntry[];
+
+    for (const s of getVencordSwitches())
+        entries.push({ ...switchToEntry(s), section: "Vencord", store: Settings });
+
+    for (const s of Object.values(UpdaterSwitches))
+        entries.push({ ...switchToEntry(s), section: "Updater", store: Settings });
+
+    if (typeof Notification !== "undefined") {
+        for (const [key, option] of Object.entries(NotificationOptions))
+            entries.push({ key, option, section: "Notifications", store: Settings.notifications });
+    }
+
+    const plugins = Object.values(Plugins).sort((a, b) => a.name.localeCompare(b.name));
+    for (const plugin of plugins) {
+        for (const [key, option] of Object.entries(plugin.options ?? {})) {
+            // Custom components may expect to be rendered inside the plugin modal
+            if (option.hidden || option.type === OptionType.COMPONENT) continue;
+
+            entries.push({ plugin, section: plugin.name, key, option, store: Settings.plugins[plugin.name] });
+        }
+    }
+
+    return entries;
+}
+
+function stringifyValue({ option, store, key }: SettingsSearchEntry) {
+    const value = store[key];
+
+    if (option.type === OptionType.SELECT)
+        return option.options.find(o => o.value === value)?.label ?? String(value);
+
+    return typeof value === "string" ? value : JSON.stringify(value) ?? "";
+}
+
+/**
+ * Check whether an option matches a search query by its key, description or current value
+ */
+export function matchesSettingsQuery(entry: SettingsSearchEntry, query: string) {
+    query = query.toLowerCase();
+
+    return (
+        entry.key.toLowerCase().includes(query) ||
+        entry.option.description.toLowerCase().includes(query) ||
+        stringifyValue(entry).toLowerCase().includes(query)
+    );
+}
+
+function openPluginModal(plugin: Plugin, onRestartNeeded: (name: string) => void) {
+    openModalLazy(async () => {
+        return modalProps => <PluginModal {...modalProps} plugin={plugin} onRestartNeeded={() => onRestartNeeded(plugin.name)} />;
+    });
+}
+
+interface ResultProps {
+    entry: SettingsSearchEntry;
+    onRestartNeeded(name: string): void;
+}
+
+function SettingsSearchResult({ entry, onRestartNeeded }: ResultProps) {
+    const { plugin, section, key, option, store } = entry;
+
+    const [pendingValue, setPendingValue] = React.useState<{ value: any; } | null>(null);
+    const [hasError, setHasError] = React.useState(false);
+    const [saveError, setSaveError] = React.useState<string | null>(null);
+
+    async function save() {
+        if (!pendingValue) return;
+        const { value } = pendingValue;
+
+        if (plugin?.beforeSave) {
+            const result = await Promise.resolve(plugin.beforeSave({ [key]: value }));
+            if (result !== true) {
+                setSaveError(result);
+                return;
+            }
+        }
+
+        store[key] = value;
+        option.onChange?.(value);
+        if (plugin && option.restartNeeded) onRestartNeeded(plugin.name);
+
+        setPendingValue(null);
+        setSaveError(null);
+    }
+
+    const Component = SettingComponents[option.type];
+
+    return (
+        <Card className={cl("result")}>
+            <Flex className={cl("result-header")}>
+                <Text variant="text-sm/semibold" color="header-secondary" className={cl("result-section")}>
+                    {section} › {key}
+                </Text>
+                {plugin && (
+                    <Button
+                        size={Button.Sizes.MIN}
+                        look={Button.Looks.LINK}
+                        color={Button.Colors.LINK}
+                        onClick={() => openPluginModal(plugin, onRestartNeeded)}
+                    >
+                        Open Plugin
+                    </Button>
+                )}
+            </Flex>
+            <Component
+                id={key}
+                option={option}
+                onChange={value => setPendingValue({ value })}
+                onError={setHasError}
+                pluginSettings={store}
+                definedSettings={plugin?.settings}
+            />
+            {pendingValue && (
+                <Flex className={cl("result-footer")}>
+                    {saveError && <Text variant="text-sm/normal" color="text-danger">Error while saving: {saveError}</Text>}
+                    <Button size={Button.Sizes.SMALL} disabled={hasError} onClick={save}>
+                        Save
+                    </Button>
+                </Flex>
+            )}
+        </Card>
+    );
+}
+
+interface SettingsSearchResultsProps {
+    query: string;
+    /** Whether options of a plugin should be shown, used to apply the status filter */
+    pluginFilter(plugin: Plugin): boolean;
+    /** Whether core settings should be shown */
+    showCore: boolean;
+    onRestartNeeded(name: string): void;
+}
+
+export function SettingsSearchResults({ query, pluginFilter, showCore, onRestartNeeded }: SettingsSearchResultsProps) {
+    const index = React.useMemo(buildSettingsIndex, []);
+
+    const results = index.filter(entry =>
+        (entry.plugin ? pluginFilter(entry.plugin) : showCore) && matchesSettingsQuery(entry, query)
+    );
+
+    if (!results.length) return null;
+
+    return (
+        <>
+            <Forms.FormTitle className={Margins.top20}>Settings</Forms.FormTitle>
+            <div className={cl("results")}>
+                {results.slice(0, MAX_RESULTS).map(entry => (
+                    <SettingsSearchResult
+                        key={`${entry.section}.${entry.key}`}
+                        entry={entry}
+                        onRestartNeeded={onRestartNeeded}
+                    />
+                ))}
+            </div>
+            {results.length > MAX_RESULTS && (
+                <Forms.FormText className={Margins.top8}>
+                    {results.length - MAX_RESULTS} more settings match. Try a more specific search.
+                </Forms.FormText>
+            )}
+        </>
+    );
+}
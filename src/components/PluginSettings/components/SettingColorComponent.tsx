@@ -0,0 +1,63 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { PluginOptionColor } from "@utils/types";
+import { Forms, React, TextInput } from "@webpack/common";
+
+import { ISettingElementProps } from ".";
+
+const cl = classNameFactory("vc-plugins-setting-");
+
+const HEX_COLOR = /^#[\da-f]{6}$/i;
+
+export function SettingColorComponent({ option, pluginSettings, definedSettings, id, onChange, onError }: ISettingElementProps<PluginOptionColor>) {
+    const [state, setState] = React.useState<string>(pluginSettings[id] ?? option.default ?? "");
+    const [error, setError] = React.useState<string | null>(null);
+
+    const disabled = option.disabled?.call(definedSettings) ?? false;
+
+    React.useEffect(() => {
+        onError(error !== null);
+    }, [error]);
+
+    function handleChange(newValue: string) {
+        setState(newValue);
+
+        if (!HEX_COLOR.test(newValue)) return setError("Enter a hex color like #5865f2.");
+
+        const isValid = option.isValid?.call(definedSettings, newValue) ?? true;
+        if (typeof isValid === "string") setError(isValid);
+        else if (!isValid) setError("Invalid input provided.");
+        else setError(null);
+
+        onChange(newValue.toLowerCase());
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle>{option.description}</Forms.FormTitle>
+            <div className={cl("row")}>
+                <input
+                    type="color"
+                    className={cl("color-swatch")}
+                    value={HEX_COLOR.test(state) ? state : "#000000"}
+                    onChange={e => handleChange(e.currentTarget.value)}
+                    disabled={disabled}
+                />
+                <TextInput
+                    className={cl("row-value")}
+                    value={state}
+                    onChange={handleChange}
+                    placeholder={option.placeholder ?? "#000000"}
+                    disabled={disabled}
+                    {...option.componentProps}
+                />
+            </div>
+            {error && <Forms.FormText style={{ color: "var(--text-danger)" }}>{error}</Forms.FormText>}
+        </Forms.FormSection>
+    );
+}
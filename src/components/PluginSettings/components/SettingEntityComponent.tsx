@@ -0,0 +1,157 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { getUniqueUsername } from "@utils/discord";
+import { EntityOptionType, OptionType, PluginOptionEntity } from "@utils/types";
+import { Button, ChannelStore, Clickable, Forms, GuildStore, React, Text, TextInput, UserStore } from "@webpack/common";
+
+import { ISettingElementProps } from ".";
+
+const cl = classNameFactory("vc-plugins-setting-");
+
+const SNOWFLAKE = /^\d{17,20}$/;
+const MAX_RESULTS = 8;
+
+interface Entity {
+    id: string;
+    name: string;
+    /** Extra context, like the guild a channel or role belongs to */
+    detail?: string;
+}
+
+const EntityNames: Record<EntityOptionType, string> = {
+    [OptionType.USER]: "user",
+    [OptionType.CHANNEL]: "channel",
+    [OptionType.GUILD]: "server",
+    [OptionType.ROLE]: "role"
+};
+
+function getAllEntities(type: EntityOptionType): Entity[] {
+    switch (type) {
+        case OptionType.USER:
+            return Object.values(UserStore.getUsers()).map(u => ({ id: u.id, name: getUniqueUsername(u) }));
+        case OptionType.CHANNEL:
+            return [
+                ...ChannelStore.getSortedPrivateChannels(),
+                ...Object.values(ChannelStore.getMutableGuildChannels())
+            ].map(c => ({
+                id: c.id,
+                name: c.name || c.rawRecipients?.map(r => r.username).join(", ") || c.id,
+                detail: c.guild_id ? GuildStore.getGuild(c.guild_id)?.name : "Direct Messages"
+            }));
+        case OptionType.GUILD:
+            return Object.values(GuildStore.getGuilds()).map(g => ({ id: g.id, name: g.name }));
+        case OptionType.ROLE:
+            return Object.entries(GuildStore.getAllGuildRoles()).flatMap(([guildId, roles]) =>
+                Object.values(roles).map(r => ({ id: r.id, name: r.name, detail: GuildStore.getGuild(guildId)?.name }))
+            );
+    }
+}
+
+function findEntity(type: EntityOptionType, id: string): Entity {
+    return getAllEntities(type).find(e => e.id === id) ?? { id, name: id, detail: `Unknown ${EntityNames[type]}` };
+}
+
+function searchEntities(type: EntityOptionType, query: string, exclude: string[]) {
+    query = query.trim().toLowerCase();
+    if (!query) return [];
+
+    const results = getAllEntities(type)
+        .filter(e => !exclude.includes(e.id) && (e.id === query || e.name.toLowerCase().includes(query)))
+        .slice(0, MAX_RESULTS);
+
+    // Allow picking entities that aren't cached by their ID
+    if (SNOWFLAKE.test(query) && !results.some(e => e.id === query) && !exclude.includes(query))
+        results.unshift({ id: query, name: query, detail: `Use this ${EntityNames[type]} ID` });
+
+    return results;
+}
+
+function EntityRow({ entity, children }: React.PropsWithChildren<{ entity: Entity; }>) {
+    return (
+        <div className={cl("row")}>
+            <div className={cl("row-value")}>
+                <Text variant="text-md/normal">{entity.name}</Text>
+                {entity.detail && <Text variant="text-xs/normal" color="text-muted">{entity.detail}</Text>}
+            </div>
+            {children}
+        </div>
+    );
+}
+
+export function SettingEntityComponent({ option, pluginSettings, definedSettings, id, onChange, onError }: ISettingElementProps<PluginOptionEntity>) {
+    const initial = pluginSettings[id] ?? option.default;
+    const [ids, setIds] = React.useState<string[]>(Array.isArray(initial) ? initial : initial ? [initial] : []);
+    const [query, setQuery] = React.useState("");
+    const [error, setError] = React.useState<string | null>(null);
+
+    const disabled = option.disabled?.call(definedSettings) ?? false;
+    const results = React.useMemo(() => searchEntities(option.type, query, ids), [query, ids]);
+
+    React.useEffect(() => {
+        onError(error !== null);
+    }, [error]);
+
+    function handleChange(newIds: string[]) {
+        setIds(newIds);
+
+        if (newIds.some(i => !SNOWFLAKE.test(i))) return setError("Invalid ID.");
+
+        const newValue = option.multiple ? newIds : newIds[0];
+        const isValid = option.isValid?.call(definedSettings, newValue) ?? true;
+        if (typeof isValid === "string") setError(isValid);
+        else if (!isValid) setError("Invalid input provided.");
+        else setError(null);
+
+        onChange(newValue);
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle>{option.description}</Forms.FormTitle>
+            {ids.map(entityId => (
+                <EntityRow key={entityId} entity={findEntity(option.type, entityId)}>
+                    <Button
+                        size={Button.Sizes.MIN}
+                        look={Button.Looks.LINK}
+                        color={Button.Colors.RED}
+                        disabled={disabled}
+                        onClick={() => handleChange(ids.filter(i => i !== entityId))}
+                    >
+                        Remove
+                    </Button>
+                </EntityRow>
+            ))}
+            {(option.multiple || !ids.length) && (
+                <TextInput
+                    value={query}
+                    onChange={setQuery}
+                    placeholder={option.placeholder ?? `Search for a ${EntityNames[option.type]} by name or ID`}
+                    disabled={disabled}
+                    {...option.componentProps}
+                />
+            )}
+            {results.length > 0 && (
+                <div className={cl("entity-results")}>
+                    {results.map(entity => (
+                        <Clickable
+                            key={entity.id}
+                            className={cl("entity-result")}
+                            onClick={() => {
+                                setQuery("");
+                                handleChange(option.multiple ? [...ids, entity.id] : [entity.id]);
+                            }}
+                        >
+                            <EntityRow entity={entity} />
+                        </Clickable>
+                    ))}
+                </div>
+            )}
+            {error && <Forms.FormText style={{ color: "var(--text-danger)" }}>{error}</Forms.FormText>}
+        </Forms.FormSection>
+    );
+}
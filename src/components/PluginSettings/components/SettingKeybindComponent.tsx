@@ -0,0 +1,94 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { formatKeybind, keybindFromEvent } from "@utils/keybinds";
+import { PluginOptionKeybind } from "@utils/types";
+import { Button, Forms, React, Text } from "@webpack/common";
+
+import { ISettingElementProps } from ".";
+
+const cl = classNameFactory("vc-plugins-setting-");
+
+export function SettingKeybindComponent({ option, pluginSettings, definedSettings, id, onChange, onError }: ISettingElementProps<PluginOptionKeybind>) {
+    const [state, setState] = React.useState<string[]>(pluginSettings[id] ?? option.default ?? []);
+    const [recording, setRecording] = React.useState(false);
+    const [error, setError] = React.useState<string | null>(null);
+    const displayRef = React.useRef<HTMLDivElement>(null);
+
+    const disabled = option.disabled?.call(definedSettings) ?? false;
+
+    React.useEffect(() => {
+        onError(error !== null);
+    }, [error]);
+
+    function handleChange(newValue: string[]) {
+        const isValid = option.isValid?.call(definedSettings, newValue) ?? true;
+        if (typeof isValid === "string") setError(isValid);
+        else if (!isValid) setError("Invalid input provided.");
+        else setError(null);
+
+        setState(newValue);
+        onChange(newValue);
+    }
+
+    function onKeyDown(e: React.KeyboardEvent) {
+        if (!recording) return;
+
+        e.preventDefault();
+        e.stopPropagation();
+
+        if (e.key === "Escape") return setRecording(false);
+
+        const keys = keybindFromEvent(e);
+        // Only modifiers are held so far, wait for the actual key
+        if (!keys) return;
+
+        setRecording(false);
+        handleChange(keys);
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle>{option.description}</Forms.FormTitle>
+            <div className={cl("row")}>
+                <div
+                    ref={displayRef}
+                    className={cl("row-value", "keybind", { "keybind-recording": recording })}
+                    tabIndex={0}
+                    onKeyDown={onKeyDown}
+                    onBlur={() => setRecording(false)}
+                >
+                    <Text variant="text-md/normal">
+                        {recording
+                            ? "Press a key combination... (Escape to cancel)"
+                            : state.length ? formatKeybind(state) : "No keybind"}
+                    </Text>
+                </div>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    disabled={disabled}
+                    onClick={() => {
+                        setRecording(true);
+                        // Focus the keybind display so it receives the key presses
+                        displayRef.current?.focus();
+                    }}
+                >
+                    {state.length ? "Change" : "Record"}
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.RED}
+                    disabled={disabled || !state.length}
+                    onClick={() => handleChange([])}
+                >
+                    Clear
+                </Button>
+            </div>
+            {error && <Forms.FormText style={{ color: "var(--text-danger)" }}>{error}</Forms.FormText>}
+        </Forms.FormSection>
+    );
+}
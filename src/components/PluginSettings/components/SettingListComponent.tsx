@@ -0,0 +1,88 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { PluginOptionList } from "@utils/types";
+import { Button, Forms, React, Text, TextInput } from "@webpack/common";
+
+import { ISettingElementProps } from ".";
+
+const cl = classNameFactory("vc-plugins-setting-");
+
+export function SettingListComponent({ option, pluginSettings, definedSettings, id, onChange, onError }: ISettingElementProps<PluginOptionList>) {
+    const [items, setItems] = React.useState<string[]>(pluginSettings[id] ?? option.default ?? []);
+    const [newItem, setNewItem] = React.useState("");
+    const [error, setError] = React.useState<string | null>(null);
+    const [itemError, setItemError] = React.useState<string | null>(null);
+
+    const disabled = option.disabled?.call(definedSettings) ?? false;
+    const isFull = option.maxItems != null && items.length >= option.maxItems;
+
+    React.useEffect(() => {
+        onError(error !== null);
+    }, [error]);
+
+    function handleChange(newItems: string[]) {
+        const isValid = option.isValid?.call(definedSettings, newItems) ?? true;
+        if (typeof isValid === "string") setError(isValid);
+        else if (!isValid) setError("Invalid input provided.");
+        else setError(null);
+
+        setItems(newItems);
+        onChange(newItems);
+    }
+
+    function addItem() {
+        const item = newItem.trim();
+        if (!item || isFull) return;
+
+        const isValid = option.isValidItem?.(item) ?? true;
+        if (isValid !== true) {
+            setItemError(typeof isValid === "string" ? isValid : "Invalid item.");
+            return;
+        }
+
+        setItemError(null);
+        setNewItem("");
+        handleChange([...items, item]);
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle>{option.description}</Forms.FormTitle>
+            {items.map((item, i) => (
+                <div key={i} className={cl("row")}>
+                    <Text variant="text-md/normal" className={cl("row-value")}>{item}</Text>
+                    <Button
+                        size={Button.Sizes.MIN}
+                        look={Button.Looks.LINK}
+                        color={Button.Colors.RED}
+                        disabled={disabled}
+                        onClick={() => handleChange(items.filter((_, j) => j !== i))}
+                    >
+                        Remove
+                    </Button>
+                </div>
+            ))}
+            <div className={cl("row")}>
+                <TextInput
+                    className={cl("row-value")}
+                    value={newItem}
+                    onChange={setNewItem}
+                    onKeyDown={e => e.key === "Enter" && addItem()}
+                    placeholder={option.placeholder ?? "Add an item"}
+                    disabled={disabled || isFull}
+                    {...option.componentProps}
+                />
+                <Button size={Button.Sizes.SMALL} disabled={disabled || isFull || !newItem.trim()} onClick={addItem}>
+                    Add
+                </Button>
+            </div>
+            {itemError && <Forms.FormText style={{ color: "var(--text-danger)" }}>{itemError}</Forms.FormText>}
+            {error && <Forms.FormText style={{ color: "var(--text-danger)" }}>{error}</Forms.FormText>}
+        </Forms.FormSection>
+    );
+}
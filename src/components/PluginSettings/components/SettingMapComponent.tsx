@@ -0,0 +1,86 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { PluginOptionMap } from "@utils/types";
+import { Button, Forms, React, TextInput } from "@webpack/common";
+
+import { ISettingElementProps } from ".";
+
+const cl = classNameFactory("vc-plugins-setting-");
+
+export function SettingMapComponent({ option, pluginSettings, definedSettings, id, onChange, onError }: ISettingElementProps<PluginOptionMap>) {
+    // Edited as a list of entries, so keys can be renamed and temporarily empty or duplicated while typing
+    const [entries, setEntries] = React.useState<Array<[string, string]>>(() => Object.entries(pluginSettings[id] ?? option.default ?? {}));
+    const [error, setError] = React.useState<string | null>(null);
+
+    const disabled = option.disabled?.call(definedSettings) ?? false;
+
+    React.useEffect(() => {
+        onError(error !== null);
+    }, [error]);
+
+    function handleChange(newEntries: Array<[string, string]>) {
+        setEntries(newEntries);
+
+        const keys = newEntries.map(([k]) => k.trim());
+        if (keys.some(k => !k)) return setError("Keys can't be empty.");
+        if (new Set(keys).size !== keys.length) return setError("Keys must be unique.");
+
+        const map = Object.fromEntries(newEntries.map(([k, v]) => [k.trim(), v]));
+        const isValid = option.isValid?.call(definedSettings, map) ?? true;
+        if (typeof isValid === "string") setError(isValid);
+        else if (!isValid) setError("Invalid input provided.");
+        else setError(null);
+
+        onChange(map);
+    }
+
+    function updateEntry(index: number, entry: [string, string]) {
+        handleChange(entries.map((e, i) => i === index ? entry : e));
+    }
+
+    return (
+        <Forms.FormSection>
+            <Forms.FormTitle>{option.description}</Forms.FormTitle>
+            {entries.map(([key, value], i) => (
+                <div key={i} className={cl("row")}>
+                    <TextInput
+                        className={cl("row-value")}
+                        value={key}
+                        onChange={v => updateEntry(i, [v, value])}
+                        placeholder={option.keyPlaceholder ?? "Key"}
+                        disabled={disabled}
+                    />
+                    <TextInput
+                        className={cl("row-value")}
+                        value={value}
+                        onChange={v => updateEntry(i, [key, v])}
+                        placeholder={option.valuePlaceholder ?? "Value"}
+                        disabled={disabled}
+                    />
+                    <Button
+                        size={Button.Sizes.MIN}
+                        look={Button.Looks.LINK}
+                        color={Button.Colors.RED}
+                        disabled={disabled}
+                        onClick={() => handleChange(entries.filter((_, j) => j !== i))}
+                    >
+                        Remove
+                    </Button>
+                </div>
+            ))}
+            <Button
+                size={Button.Sizes.SMALL}
+                disabled={disabled}
+                onClick={() => handleChange([...entries, ["", ""]])}
+            >
+                Add Entry
+            </Button>
+            {error && <Forms.FormText style={{ color: "var(--text-danger)" }}>{error}</Forms.FormText>}
+        </Forms.FormSection>
+    );
+}
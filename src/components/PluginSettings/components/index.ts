@@ -21,10 +21,8 @@ import { DefinedSettings, PluginOptionBase } from "@utils/types";
 export interface ISettingElementProps<T extends PluginOptionBase> {
     option: T;
     onChange(newValue: any): void;
-    pluginSettings: {
-        [setting: string]: any;
-        enabled: boolean;
-    };
+    /** The settings of the plugin, or the section of the core settings the option belongs to */
+    pluginSettings: Record<string, any>;
     id: string;
     onError(hasError: boolean): void;
     definedSettings?: DefinedSettings;
@@ -32,7 +30,12 @@ export interface ISettingElementProps<T extends PluginOptionBase> {
 
 export * from "../../Badge";
 export * from "./SettingBooleanComponent";
+export * from "./SettingColorComponent";
 export * from "./SettingCustomComponent";
+export * from "./SettingEntityComponent";
+export * from "./SettingKeybindComponent";
+export * from "./SettingListComponent";
+export * from "./SettingMapComponent";
 export * from "./SettingNumericComponent";
 export * from "./SettingSelectComponent";
 export * from "./SettingSliderComponent";
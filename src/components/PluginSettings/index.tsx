@@ -20,10 +20,13 @@ import "./styles.css";
 
 import * as DataStore from "@api/DataStore";
 import { showNotice } from "@api/Notices";
-import { Settings, useSettings } from "@api/Settings";
+import { Settings, settingsMigrationErrors, useSettings } from "@api/Settings";
 import { classNameFactory } from "@api/Styles";
+import { ErrorCard } from "@components/ErrorCard";
 import { CogWheel, InfoIcon } from "@components/Icons";
+import { PatchHealthBadge, PatchHealthSection } from "@components/PluginSettings/PatchHealth";
 import PluginModal from "@components/PluginSettings/PluginModal";
+import { SettingsSearchResults } from "@components/PluginSettings/SettingsSearch";
 import { AddonCard } from "@components/VencordSettings/AddonCard";
 import { SettingsTab } from "@components/VencordSettings/shared";
 import { ChangeList } from "@utils/ChangeList";
@@ -35,10 +38,11 @@ import { useAwaiter } from "@utils/react";
 import { Plugin } from "@utils/types";
 import { findByPropsLazy } from "@webpack";
 import { Alerts, Button, Card, Forms, lodash, Parser, React, Select, Text, TextInput, Toasts, Tooltip } from "@webpack/common";
+import { hasActivePatches } from "@webpack/patcher";
 
 import Plugins from "~plugins";
 
-import { startDependenciesRecursive, startPlugin, stopPlugin } from "../../plugins";
+import { applyPluginPatches, isPluginEnabled, pluginDependencyErrors, revertPluginPatches, startDependenciesRecursive, startPlugin, stopDependenciesRecursive, stopPlugin } from "../../plugins";
 
 
 const cl = classNameFactory("vc-plugins-");
@@ -47,6 +51,9 @@ const logger = new Logger("PluginSettings", "#a6d189");
 const InputStyles = findByPropsLazy("inputDefault", "inputWrapper");
 const ButtonClasses = findByPropsLazy("button", "disabled", "enabled");
 
+// Searching settings for single characters matches almost everything
+const MIN_SETTINGS_QUERY_LENGTH = 2;
+
 
 function showErrorToast(message: string) {
     Toasts.show({
@@ -93,7 +100,9 @@ interface PluginCardProps extends React.HTMLProps<HTMLDivElement> {
 export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, onMouseLeave, isNew }: PluginCardProps) {
     const settings = Settings.plugins[plugin.name];
 
-    const isEnabled = () => settings.enabled ?? false;
+    const isEnabled = () => isPluginEnabled(plugin.name);
+    const dependencyError = pluginDependencyErrors[plugin.name];
+    const migrationError = settingsMigrationErrors[plugin.name];
 
     function openModal() {
         openModalLazy(async () => {
@@ -103,9 +112,24 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
         });
     }
 
+    // Stops dependencies no other enabled plugin needs anymore. Must be called after the plugin was disabled
+    function stopUnneededDependencies() {
+        const { restartNeeded, failures } = stopDependenciesRecursive(plugin);
+        if (failures.length) {
+            logger.error(`Failed to stop dependencies of ${plugin.name}: ${failures.join(", ")}`);
+            showErrorToast("Failed to stop dependencies: " + failures.join(", "));
+        }
+        return restartNeeded;
+    }
+
     function toggleEnabled() {
         const wasEnabled = isEnabled();
 
+        if (!wasEnabled && dependencyError) {
+            showErrorToast(`Cannot enable ${plugin.name}. ${dependencyError}`);
+            return;
+        }
+
         // If we're enabling a plugin, make sure all deps are enabled recursively.
         if (!wasEnabled) {
             const { restartNeeded, failures } = startDependenciesRecursive(plugin);
@@ -121,16 +145,22 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
             }
         }
 
-        // if the plugin has patches, dont use stopPlugin/startPlugin. Wait for restart to apply changes.
+        // if the plugin has patches that can't be applied or reverted right now, dont use stopPlugin/startPlugin.
+        // Wait for restart to apply changes. This is also the case when undoing a change that is still waiting for a restart
         if (plugin.patches?.length) {
-            settings.enabled = !wasEnabled;
-            onRestartNeeded(plugin.name);
-            return;
+            const restartPending = hasActivePatches(plugin.name) !== wasEnabled;
+            if (restartPending || (wasEnabled ? revertPluginPatches(plugin) : applyPluginPatches(plugin))) {
+                settings.enabled = !wasEnabled;
+                if (wasEnabled) stopUnneededDependencies();
+                onRestartNeeded(plugin.name);
+                return;
+            }
         }
 
         // If the plugin is enabled, but hasn't been started, then we can just toggle it off.
         if (wasEnabled && !plugin.started) {
             settings.enabled = !wasEnabled;
+            if (stopUnneededDependencies()) onRestartNeeded(plugin.name);
             return;
         }
 
@@ -146,11 +176,12 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
         }
 
         settings.enabled = !wasEnabled;
+        if (wasEnabled && stopUnneededDependencies()) onRestartNeeded(plugin.name);
     }
 
     return (
         <AddonCard
-            name={plugin.name}
+            name={<>{plugin.name}<PatchHealthBadge plugin={plugin.name} /></>}
             description={plugin.description}
             isNew={isNew}
             enabled={isEnabled()}
@@ -165,6 +196,9 @@ export function PluginCard({ plugin, disabled, onRestartNeeded, onMouseEnter, on
                         : <InfoIcon />}
                 </button>
             }
+            footer={(dependencyError || migrationError) && (
+                <Forms.FormText className={cl("dep-error")}>{dependencyError || migrationError}</Forms.FormText>
+            )}
         />
     );
 }
@@ -222,11 +256,16 @@ export default function PluginSettings() {
     const onSearch = (query: string) => setSearchValue(prev => ({ ...prev, value: query }));
     const onStatusChange = (status: SearchStatus) => setSearchValue(prev => ({ ...prev, status }));
 
-    const pluginFilter = (plugin: typeof Plugins[keyof typeof Plugins]) => {
+    const statusFilter = (plugin: typeof Plugins[keyof typeof Plugins]) => {
         const enabled = settings.plugins[plugin.name]?.enabled;
         if (enabled && searchValue.status === SearchStatus.DISABLED) return false;
         if (!enabled && searchValue.status === SearchStatus.ENABLED) return false;
         if (searchValue.status === SearchStatus.NEW && !newPlugins?.includes(plugin.name)) return false;
+        return true;
+    };
+
+    const pluginFilter = (plugin: typeof Plugins[keyof typeof Plugins]) => {
+        if (!statusFilter(plugin)) return false;
         if (!searchValue.value.length) return true;
 
         const v = searchValue.value.toLowerCase();
@@ -266,12 +305,12 @@ export default function PluginSettings() {
 
             if (!pluginFilter(p)) continue;
 
-            const isRequired = p.required || depMap[p.name]?.some(d => settings.plugins[d].enabled);
+            const isRequired = p.required || depMap[p.name]?.some(d => isPluginEnabled(d));
 
             if (isRequired) {
                 const tooltipText = p.required
                     ? "This plugin is required for Vencord to function."
-                    : makeDependencyList(depMap[p.name]?.filter(d => settings.plugins[d].enabled));
+                    : makeDependencyList(depMap[p.name]?.filter(d => isPluginEnabled(d)));
 
                 requiredPlugins.push(
                     <Tooltip text={tooltipText} key={p.name}>
@@ -307,12 +346,35 @@ export default function PluginSettings() {
         <SettingsTab title="Plugins">
             <ReloadRequiredCard required={changes.hasChanges} />
 
+            {!isObjectEmpty(pluginDependencyErrors) && (
+                <ErrorCard className={classes(cl("dep-errors-card"), Margins.top16)}>
+                    <Forms.FormTitle tag="h5">Some plugins could not be loaded</Forms.FormTitle>
+                    {Object.entries(pluginDependencyErrors).map(([name, error]) => (
+                        <Forms.FormText key={name}>
+                            <strong>{name}</strong>: {error}
+                        </Forms.FormText>
+                    ))}
+                </ErrorCard>
+            )}
+
+            {!isObjectEmpty(settingsMigrationErrors) && (
+                <ErrorCard className={classes(cl("dep-errors-card"), Margins.top16)}>
+                    <Forms.FormTitle tag="h5">Some plugin settings could not be migrated</Forms.FormTitle>
+                    <Forms.FormText>These plugins keep using their old settings, which might cause issues.</Forms.FormText>
+                    {Object.entries(settingsMigrationErrors).map(([name, error]) => (
+                        <Forms.FormText key={name}>
+                            <strong>{name}</strong>: {error}
+                        </Forms.FormText>
+                    ))}
+                </ErrorCard>
+            )}
+
             <Forms.FormTitle tag="h5" className={classes(Margins.top20, Margins.bottom8)}>
                 Filters
             </Forms.FormTitle>
 
             <div className={cl("filter-controls")}>
-                <TextInput autoFocus value={searchValue.value} placeholder="Search for a plugin..." onChange={onSearch} className={Margins.bottom20} />
+                <TextInput autoFocus value={searchValue.value} placeholder="Search for a plugin or setting..." onChange={onSearch} className={Margins.bottom20} />
                 <div className={InputStyles.inputWrapper}>
                     <Select
                         options={[
@@ -329,6 +391,15 @@ export default function PluginSettings() {
                 </div>
             </div>
 
+            {searchValue.value.trim().length >= MIN_SETTINGS_QUERY_LENGTH && (
+                <SettingsSearchResults
+                    query={searchValue.value.trim()}
+                    pluginFilter={statusFilter}
+                    showCore={searchValue.status === SearchStatus.ALL}
+                    onRestartNeeded={name => changes.handleChange(name)}
+                />
+            )}
+
             <Forms.FormTitle className={Margins.top20}>Plugins</Forms.FormTitle>
 
             <div className={cl("grid")}>
@@ -343,6 +414,10 @@ export default function PluginSettings() {
             <div className={cl("grid")}>
                 {requiredPlugins}
             </div>
+
+            <Forms.FormDivider className={Margins.top20} />
+
+            <PatchHealthSection />
         </SettingsTab >
     );
 }
@@ -37,11 +37,13 @@ interface Props {
     onMouseLeave?: MouseEventHandler<HTMLDivElement>;
 
     infoButton?: ReactNode;
+    /** Shown below the description, like problems with the addon */
+    warning?: ReactNode;
     footer?: ReactNode;
     author?: ReactNode;
 }
 
-export function AddonCard({ disabled, isNew, name, infoButton, footer, author, enabled, setEnabled, description, onMouseEnter, onMouseLeave }: Props) {
+export function AddonCard({ disabled, isNew, name, infoButton, warning, footer, author, enabled, setEnabled, description, onMouseEnter, onMouseLeave }: Props) {
     return (
         <div
             className={cl("card", { "card-disabled": disabled })}
@@ -71,6 +73,7 @@ export function AddonCard({ disabled, isNew, name, infoButton, footer, author, e
 
             <Text className={cl("note")} variant="text-sm/normal">{description}</Text>
 
+            {warning}
             {footer}
         </div>
     );
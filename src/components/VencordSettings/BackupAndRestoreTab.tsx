@@ -17,20 +17,48 @@
 */
 
 import { Flex } from "@components/Flex";
+import { Logger } from "@utils/Logger";
 import { Margins } from "@utils/margins";
 import { classes } from "@utils/misc";
-import { downloadSettingsBackup, uploadSettingsBackup } from "@utils/settingsSync";
-import { Button, Card, Text } from "@webpack/common";
+import { downloadSettingsBackup, previewSettingsImport, readSettingsBackup } from "@utils/settingsSync";
+import { Button, Card, Text, Toasts } from "@webpack/common";
 
+import { openImportSettingsModal } from "./ImportSettingsModal";
 import { SettingsTab, wrapTab } from "./shared";
 
+async function importSettingsBackup() {
+    const data = await readSettingsBackup();
+    if (data == null) return;
+
+    try {
+        const settingsImport = await previewSettingsImport(data);
+        if (settingsImport) {
+            openImportSettingsModal(settingsImport);
+            return;
+        }
+
+        Toasts.show({
+            message: "Profile successfully imported",
+            type: Toasts.Type.SUCCESS,
+            id: Toasts.genId()
+        });
+    } catch (err) {
+        new Logger("SettingsSync").error(err);
+        Toasts.show({
+            message: `Failed to import settings: ${err}`,
+            type: Toasts.Type.FAILURE,
+            id: Toasts.genId()
+        });
+    }
+}
+
 function BackupRestoreTab() {
     return (
         <SettingsTab title="Backup & Restore">
             <Card className={classes("vc-settings-card", "vc-backup-restore-card")}>
                 <Flex flexDirection="column">
                     <strong>Warning</strong>
-                    <span>Importing a settings file will overwrite your current settings.</span>
+                    <span>Importing a settings file will overwrite the parts of your settings you choose to import.</span>
                 </Flex>
             </Card>
             <Text variant="text-md/normal" className={Margins.bottom8}>
@@ -44,11 +72,16 @@ function BackupRestoreTab() {
                     <li>&mdash; Custom QuickCSS</li>
                     <li>&mdash; Theme Links</li>
                     <li>&mdash; Plugin Settings</li>
+                    <li>&mdash; Plugin Data, like Message Tags and Pinned DMs</li>
                 </ul>
             </Text>
+            <Text variant="text-md/normal" className={Margins.bottom8}>
+                Before importing, you will see what changes and can choose which parts to restore.
+                Unknown or invalid settings are never imported.
+            </Text>
             <Flex>
                 <Button
-                    onClick={() => uploadSettingsBackup()}
+                    onClick={importSettingsBackup}
                     size={Button.Sizes.SMALL}
                 >
                     Import Settings
@@ -21,10 +21,14 @@ import { Settings, useSettings } from "@api/Settings";
 import { CheckedTextInput } from "@components/CheckedTextInput";
 import { Link } from "@components/Link";
 import { authorizeCloud, cloudLogger, deauthorizeCloud, getCloudAuth, getCloudUrl } from "@utils/cloud";
+import { getSyncedDataStoreKeys, MAX_KEY_SIZE, MAX_TOTAL_SIZE } from "@utils/dataStoreSync";
 import { Margins } from "@utils/margins";
-import { deleteCloudSettings, getCloudSettings, putCloudSettings } from "@utils/settingsSync";
-import { Alerts, Button, Forms, Switch, Tooltip } from "@webpack/common";
+import { useAwaiter, useForceUpdater } from "@utils/react";
+import { isEncryptionEnabled } from "@utils/settingsCrypto";
+import { deleteCloudSettings, disableCloudEncryption, getCloudSettings, getSyncHistory, previewSettingsImport, putCloudSettings, setCloudPassphrase, syncCloudSettings, SyncHistoryEntry, SyncHistoryType } from "@utils/settingsSync";
+import { Alerts, Button, Card, Forms, Switch, Text, TextInput, Toasts, Tooltip, useState } from "@webpack/common";
 
+import { openImportSettingsModal } from "./ImportSettingsModal";
 import { SettingsTab, wrapTab } from "./shared";
 
 function validateUrl(url: string) {
@@ -46,6 +50,7 @@ async function eraseAllData() {
         cloudLogger.error(`Failed to erase data, API returned ${res.status}`);
         showNotification({
             title: "Cloud Integrations",
+            source: "Cloud",
             body: `Could not erase all data (API returned ${res.status}), please contact support.`,
             color: "var(--red-360)"
         });
@@ -57,6 +62,7 @@ async function eraseAllData() {
 
     showNotification({
         title: "Cloud Integrations",
+        source: "Cloud",
         body: "Successfully erased all data.",
         color: "var(--green-360)"
     });
@@ -81,11 +87,28 @@ function SettingsSyncSection() {
                 Settings Sync
             </Switch>
             <div className="vc-cloud-settings-sync-grid">
-                <Button
-                    size={Button.Sizes.SMALL}
-                    disabled={!sectionEnabled}
-                    onClick={() => putCloudSettings(true)}
-                >Sync to Cloud</Button>
+                <Tooltip text="Merges changes made on this device and in the cloud. You choose what to keep if a setting was changed on both">
+                    {({ onMouseLeave, onMouseEnter }) => (
+                        <Button
+                            onMouseLeave={onMouseLeave}
+                            onMouseEnter={onMouseEnter}
+                            size={Button.Sizes.SMALL}
+                            disabled={!sectionEnabled}
+                            onClick={() => syncCloudSettings(true)}
+                        >Sync Now</Button>
+                    )}
+                </Tooltip>
+                <Tooltip text="This will overwrite the settings on the cloud with your local ones.">
+                    {({ onMouseLeave, onMouseEnter }) => (
+                        <Button
+                            onMouseLeave={onMouseLeave}
+                            onMouseEnter={onMouseEnter}
+                            size={Button.Sizes.SMALL}
+                            disabled={!sectionEnabled}
+                            onClick={() => putCloudSettings(true)}
+                        >Sync to Cloud</Button>
+                    )}
+                </Tooltip>
                 <Tooltip text="This will overwrite your local settings with the ones on the cloud. Use wisely!">
                     {({ onMouseLeave, onMouseEnter }) => (
                         <Button
@@ -105,10 +128,182 @@ function SettingsSyncSection() {
                     onClick={() => deleteCloudSettings()}
                 >Delete Cloud Settings</Button>
             </div>
+            <EncryptionSection disabled={!sectionEnabled} />
+            <PluginDataSection disabled={!sectionEnabled} />
+            <SyncHistorySection />
         </Forms.FormSection>
     );
 }
 
+function EncryptionSection({ disabled }: { disabled: boolean; }) {
+    const [signal, refresh] = useForceUpdater(true);
+    const [enabled] = useAwaiter(isEncryptionEnabled, { fallbackValue: false, deps: [signal] });
+    const [passphrase, setPassphrase] = useState("");
+    const [confirmation, setConfirmation] = useState("");
+    const [busy, setBusy] = useState(false);
+
+    const mismatch = confirmation && passphrase !== confirmation;
+
+    async function savePassphrase() {
+        setBusy(true);
+        try {
+            const unlocked = await setCloudPassphrase(passphrase);
+            Toasts.show({
+                message: unlocked
+                    ? "Passphrase accepted, your encrypted settings can now be synced!"
+                    : "Your cloud settings are now encrypted with this passphrase.",
+                type: Toasts.Type.SUCCESS,
+                id: Toasts.genId()
+            });
+            setPassphrase("");
+            setConfirmation("");
+            refresh();
+        } catch (e: any) {
+            cloudLogger.error("Failed to set passphrase", e);
+            Toasts.show({
+                message: e.message,
+                type: Toasts.Type.FAILURE,
+                id: Toasts.genId()
+            });
+        } finally {
+            setBusy(false);
+        }
+    }
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16}>Encryption</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Encrypt your settings with a passphrase before they are uploaded, so the server can't read things like
+                API keys and passwords saved by plugins. Every device needs the same passphrase to sync.
+                There is no way to recover it if you forget it, but you can always upload your local settings again.
+            </Forms.FormText>
+            <Forms.FormText className={Margins.bottom8}>
+                {enabled
+                    ? "Encryption is set up on this device. Enter a passphrase below to change it, or to enter the new one after changing it on another device."
+                    : "Encryption is off. If you already set it up on another device, enter the same passphrase."
+                }
+            </Forms.FormText>
+            <div className="vc-cloud-encryption-inputs">
+                <TextInput
+                    type="password"
+                    placeholder="Passphrase"
+                    value={passphrase}
+                    onChange={setPassphrase}
+                    disabled={disabled || busy}
+                />
+                <TextInput
+                    type="password"
+                    placeholder="Confirm passphrase"
+                    value={confirmation}
+                    onChange={setConfirmation}
+                    disabled={disabled || busy}
+                    error={mismatch ? "Passphrases don't match" : undefined}
+                />
+            </div>
+            <div className="vc-cloud-settings-sync-grid">
+                <Button
+                    size={Button.Sizes.SMALL}
+                    disabled={disabled || busy || !passphrase || passphrase !== confirmation}
+                    onClick={savePassphrase}
+                >{enabled ? "Change Passphrase" : "Set Passphrase"}</Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.RED}
+                    disabled={disabled || busy || !enabled}
+                    onClick={() => Alerts.show({
+                        title: "Disable encryption?",
+                        body: "Your settings will be uploaded unencrypted, overwriting the encrypted ones.",
+                        confirmText: "Disable",
+                        cancelText: "Nevermind",
+                        onConfirm: () => disableCloudEncryption().then(refresh)
+                    })}
+                >Disable Encryption</Button>
+            </div>
+        </>
+    );
+}
+
+function formatSize(size: number) {
+    return size < 1024 ? `${size} B` : `${(size / 1024).toFixed(1)} KiB`;
+}
+
+function PluginDataSection({ disabled }: { disabled: boolean; }) {
+    const { cloud } = useSettings(["cloud.excludedDataStoreKeys"]);
+    const [keys] = useAwaiter(getSyncedDataStoreKeys, { fallbackValue: [], deps: [cloud.excludedDataStoreKeys] });
+
+    function setSynced(key: string, synced: boolean) {
+        // Reassign the whole array, mutating it doesn't save
+        cloud.excludedDataStoreKeys = synced
+            ? cloud.excludedDataStoreKeys.filter(k => k !== key)
+            : [...cloud.excludedDataStoreKeys, key];
+    }
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16}>Plugin Data</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Data saved by plugins, like your message tags, is synced along with your settings.
+                Turn off anything that should stay on this device. It is still included in backups.
+            </Forms.FormText>
+            {keys.length
+                ? keys.map(({ key, owner, size, excluded, tooLarge }) => (
+                    <Switch
+                        key={key}
+                        disabled={disabled}
+                        value={!excluded}
+                        onChange={v => setSynced(key, v)}
+                        note={tooLarge
+                            ? `${formatSize(size)}. Too large to sync, limits are ${formatSize(MAX_KEY_SIZE)} per key and ${formatSize(MAX_TOTAL_SIZE)} in total`
+                            : formatSize(size)
+                        }
+                    >
+                        {owner}: {key}
+                    </Switch>
+                ))
+                : <Forms.FormText>No plugin has saved any data that can be synced.</Forms.FormText>
+            }
+        </>
+    );
+}
+
+const SyncHistoryLabels: Record<SyncHistoryType, string> = {
+    [SyncHistoryType.UPLOAD]: "Uploaded to the cloud",
+    [SyncHistoryType.DOWNLOAD]: "Before downloading from the cloud",
+    [SyncHistoryType.MERGE]: "Before merging with the cloud"
+};
+
+async function restoreSyncHistoryEntry(entry: SyncHistoryEntry) {
+    const settingsImport = await previewSettingsImport(entry.data);
+    if (settingsImport) openImportSettingsModal(settingsImport);
+}
+
+function SyncHistorySection() {
+    const [history] = useAwaiter(getSyncHistory, { fallbackValue: [] });
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16}>Sync History</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Your settings at recent syncs. Restoring one lets you choose which parts of it to bring back.
+            </Forms.FormText>
+            {history.length
+                ? history.map(entry => (
+                    <Card key={entry.timestamp} className="vc-cloud-sync-history-entry">
+                        <Text variant="text-md/normal" style={{ flexGrow: 1 }}>
+                            {SyncHistoryLabels[entry.type]}, {new Date(entry.timestamp).toLocaleString()}
+                        </Text>
+                        <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => restoreSyncHistoryEntry(entry)}>
+                            Restore
+                        </Button>
+                    </Card>
+                ))
+                : <Forms.FormText>Nothing synced yet.</Forms.FormText>
+            }
+        </>
+    );
+}
+
 function CloudTab() {
     const settings = useSettings(["cloud.authenticated", "cloud.url"]);
 
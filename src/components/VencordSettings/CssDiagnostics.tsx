@@ -0,0 +1,96 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import type { UserThemeHeader } from "@main/themes";
+import { CssDiagnostic, CssDiagnosticSeverity, lintCss } from "@utils/cssLint";
+import { Margins } from "@utils/margins";
+import { ModalCloseButton, ModalContent, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useAwaiter } from "@utils/react";
+import { Clickable, Forms, Text } from "@webpack/common";
+
+const cl = classNameFactory("vc-css-diagnostics-");
+
+const SeverityLabels = {
+    [CssDiagnosticSeverity.ERROR]: "Error",
+    [CssDiagnosticSeverity.WARNING]: "Warning",
+    [CssDiagnosticSeverity.INFO]: "Info"
+};
+
+function pluralise(count: number, word: string) {
+    return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+function CssDiagnosticsModal({ modalProps, title, diagnostics }: { modalProps: ModalProps; title: string; diagnostics: CssDiagnostic[]; }) {
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>{title}</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Forms.FormText className={Margins.top16}>
+                    Variables are checked against what Discord currently shows, so some of these may be fine.
+                </Forms.FormText>
+                {diagnostics.map((d, i) => (
+                    <div key={i} className={cl("diagnostic")}>
+                        <Text variant="text-sm/semibold" className={cl(d.severity)}>{SeverityLabels[d.severity]}</Text>
+                        <Text variant="code" className={cl("position")}>{d.line}:{d.column}</Text>
+                        <Forms.FormText>{d.message}</Forms.FormText>
+                    </div>
+                ))}
+            </ModalContent>
+        </ModalRoot>
+    );
+}
+
+export function openCssDiagnosticsModal(title: string, diagnostics: CssDiagnostic[]) {
+    openModal(modalProps => <CssDiagnosticsModal modalProps={modalProps} title={title} diagnostics={diagnostics} />);
+}
+
+// Linting blocks the page, so themes are linted one at a time while it's idle and only again once they change
+const themeLintCache = new Map<string, { css: string; diagnostics: CssDiagnostic[]; }>();
+let themeLintQueue = Promise.resolve();
+
+function lintTheme(fileName: string, css: string) {
+    const cached = themeLintCache.get(fileName);
+    if (cached?.css === css) return Promise.resolve(cached.diagnostics);
+
+    const result = themeLintQueue.then(() => new Promise<CssDiagnostic[]>(resolve =>
+        // Themes are linted while the settings are open, so checking which selectors match would be pointless
+        requestIdleCallback(() => resolve(lintCss(css, { matchSelectors: false })))
+    ));
+    themeLintQueue = result.then(diagnostics => void themeLintCache.set(fileName, { css, diagnostics }), () => { });
+
+    return result;
+}
+
+/**
+ * Summary of the problems in a local theme, which opens the full list when clicked
+ */
+export function ThemeDiagnostics({ theme }: { theme: UserThemeHeader; }) {
+    const [diagnostics] = useAwaiter(
+        () => VencordNative.themes.getThemeData(theme.fileName).then(css => css ? lintTheme(theme.fileName, css) : []),
+        { fallbackValue: [], deps: [theme] }
+    );
+
+    const errors = diagnostics.filter(d => d.severity === CssDiagnosticSeverity.ERROR).length;
+    const warnings = diagnostics.filter(d => d.severity === CssDiagnosticSeverity.WARNING).length;
+    if (!errors && !warnings) return null;
+
+    const summary = [errors && pluralise(errors, "error"), warnings && pluralise(warnings, "warning")]
+        .filter(Boolean)
+        .join(" and ");
+
+    return (
+        <Clickable onClick={() => openCssDiagnosticsModal(`Problems in ${theme.name}`, diagnostics)}>
+            <Text variant="text-sm/medium" className={cl("summary", { "summary-error": errors > 0 })}>
+                ⚠ {summary}
+            </Text>
+        </Clickable>
+    );
+}
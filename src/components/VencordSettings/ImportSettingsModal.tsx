@@ -0,0 +1,173 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { ErrorCard } from "@components/ErrorCard";
+import { Flex } from "@components/Flex";
+import { Margins } from "@utils/margins";
+import { closeModal, ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { applySettingsImport, ImportChange, ImportSection, ImportSectionType, SettingsImport } from "@utils/settingsImport";
+import { Button, Forms, React, Switch, Text, Toasts, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-settings-import-");
+
+const MAX_CHANGES_SHOWN = 10;
+
+function formatValue(value: unknown) {
+    if (typeof value === "boolean") return value ? "on" : "off";
+    const str = JSON.stringify(value) ?? "unset";
+    return str.length > 50 ? str.slice(0, 47) + "..." : str;
+}
+
+function countLines(css: string) {
+    return css ? css.split("\n").length : 0;
+}
+
+function describeChange(type: ImportSectionType, { key, oldValue, newValue }: ImportChange) {
+    switch (type) {
+        case ImportSectionType.QUICK_CSS:
+            return `${countLines(oldValue)} lines → ${countLines(newValue)} lines`;
+        case ImportSectionType.SNIPPET:
+            if (oldValue === undefined) return `New snippet with ${countLines(newValue)} lines`;
+            if (newValue === undefined) return "Deletes the snippet";
+            return `${countLines(oldValue)} lines → ${countLines(newValue)} lines`;
+        case ImportSectionType.DATA_STORE:
+            return oldValue === undefined ? "New data" : "Replaces the current data";
+        default:
+            return `${key}: ${formatValue(oldValue)} → ${formatValue(newValue)}`;
+    }
+}
+
+function getSectionTitle({ type, name }: ImportSection) {
+    switch (type) {
+        case ImportSectionType.PLUGIN:
+            return `Plugin: ${name}`;
+        case ImportSectionType.SNIPPET:
+            return `Snippet: ${name}`;
+        case ImportSectionType.DATA_STORE:
+            return `Plugin Data: ${name}`;
+        default:
+            return name;
+    }
+}
+
+function SectionEntry({ section, checked, onChange }: { section: ImportSection; checked: boolean; onChange(checked: boolean): void; }) {
+    const { type, changes } = section;
+
+    return (
+        <div className={cl("section")}>
+            <Switch value={checked} onChange={onChange} hideBorder>
+                {getSectionTitle(section)}
+            </Switch>
+            {changes.slice(0, MAX_CHANGES_SHOWN).map(c => (
+                <Forms.FormText key={c.key} className={cl("change")}>{describeChange(type, c)}</Forms.FormText>
+            ))}
+            {changes.length > MAX_CHANGES_SHOWN && (
+                <Forms.FormText className={cl("change")}>...and {changes.length - MAX_CHANGES_SHOWN} more</Forms.FormText>
+            )}
+        </div>
+    );
+}
+
+function ImportSettingsModal({ modalProps, close, settingsImport }: { modalProps: ModalProps; close(): void; settingsImport: SettingsImport; }) {
+    const { sections, issues } = settingsImport;
+
+    const [selected, setSelected] = useState(() => new Set(sections.map(s => s.id)));
+    const [importing, setImporting] = useState(false);
+
+    function toggle(id: string, checked: boolean) {
+        const newSelected = new Set(selected);
+        if (checked) newSelected.add(id);
+        else newSelected.delete(id);
+        setSelected(newSelected);
+    }
+
+    async function doImport() {
+        setImporting(true);
+        try {
+            await applySettingsImport(settingsImport, [...selected]);
+            Toasts.show({
+                message: "Settings successfully imported. Restart to apply changes!",
+                type: Toasts.Type.SUCCESS,
+                id: Toasts.genId()
+            });
+            close();
+        } catch (err) {
+            Toasts.show({
+                message: `Failed to import settings: ${err}`,
+                type: Toasts.Type.FAILURE,
+                id: Toasts.genId()
+            });
+            setImporting(false);
+        }
+    }
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Import Settings</Text>
+                <ModalCloseButton onClick={close} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                {issues.length > 0 && (
+                    <ErrorCard className={cl("issues")}>
+                        <Forms.FormTitle tag="h5">Skipped {issues.length} unknown or invalid settings</Forms.FormTitle>
+                        {issues.map(({ section, key, message }) => (
+                            <Forms.FormText key={`${section}.${key}`}>
+                                <strong>{section} › {key}</strong>: {message}
+                            </Forms.FormText>
+                        ))}
+                    </ErrorCard>
+                )}
+
+                {sections.length ? (
+                    <>
+                        <Flex className={Margins.top16}>
+                            <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => setSelected(new Set(sections.map(s => s.id)))}>
+                                Select All
+                            </Button>
+                            <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => setSelected(new Set())}>
+                                Select None
+                            </Button>
+                        </Flex>
+                        {sections.map(section => (
+                            <SectionEntry
+                                key={section.id}
+                                section={section}
+                                checked={selected.has(section.id)}
+                                onChange={checked => toggle(section.id, checked)}
+                            />
+                        ))}
+                    </>
+                ) : (
+                    <Forms.FormText className={Margins.top16}>This file doesn't change any of your settings.</Forms.FormText>
+                )}
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex style={{ marginLeft: "auto" }}>
+                    <Button color={Button.Colors.PRIMARY} look={Button.Looks.LINK} onClick={close}>
+                        Cancel
+                    </Button>
+                    <Button disabled={!selected.size || importing} onClick={doImport}>
+                        Import Selected
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openImportSettingsModal(settingsImport: SettingsImport) {
+    const key = openModal(modalProps => (
+        <ImportSettingsModal
+            modalProps={modalProps}
+            close={() => closeModal(key)}
+            settingsImport={settingsImport}
+        />
+    ));
+}
@@ -0,0 +1,131 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { getLastSendTrace, getPreSendListeners, isListenerDisabled, MessageTransform, setListenerDisabled } from "@api/MessageEvents";
+import { Settings, useSettings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { Margins } from "@utils/margins";
+import { ModalCloseButton, ModalContent, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { Button, ChannelStore, Forms, SelectedChannelStore, Switch, Text } from "@webpack/common";
+
+const cl = classNameFactory("vc-message-pipeline-");
+
+function getChannelName(channelId: string) {
+    const channel = ChannelStore.getChannel(channelId);
+    return channel?.name ? `#${channel.name}` : channelId;
+}
+
+function getStatus(t: MessageTransform) {
+    if (t.skipped) return "Skipped in this channel";
+    if (t.error) return `Failed: ${t.error}`;
+    if (t.cancelled) return "Cancelled sending";
+    return t.before === t.after ? "No changes" : "Changed the message";
+}
+
+function TransformEntry({ transform }: { transform: MessageTransform; }) {
+    const changed = transform.before !== transform.after;
+
+    return (
+        <div className={cl("transform")}>
+            <Forms.FormTitle tag="h5" className={Margins.bottom8}>
+                {transform.name} <span className={cl("priority")}>priority {transform.priority}</span>
+            </Forms.FormTitle>
+            <Forms.FormText className={transform.error || transform.cancelled ? cl("error") : undefined}>
+                {getStatus(transform)}
+            </Forms.FormText>
+            {changed && (
+                <div className={cl("diff")}>
+                    <code className={cl("before")}>{transform.before}</code>
+                    <code className={cl("after")}>{transform.after}</code>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function ChannelOptOuts({ channelId }: { channelId: string; }) {
+    // Plugins may add several listeners with the same name, they're turned off together
+    const listeners = [...new Map(getPreSendListeners().map(l => [l.name, l])).values()];
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top20}>Listeners in {getChannelName(channelId)}</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Turn off listeners that shouldn't change your messages in this channel.
+            </Forms.FormText>
+            {listeners.map(({ name, priority }) => (
+                <Switch
+                    key={name}
+                    value={!isListenerDisabled(channelId, name)}
+                    onChange={v => setListenerDisabled(channelId, name, !v)}
+                    note={`Priority ${priority}`}
+                    hideBorder
+                >
+                    {name}
+                </Switch>
+            ))}
+        </>
+    );
+}
+
+function OtherOptOuts({ currentChannelId }: { currentChannelId?: string; }) {
+    const entries = Object.entries(Settings.messageEvents.disabledListeners).filter(([id]) => id !== currentChannelId);
+    if (!entries.length) return null;
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top20}>Other Channels</Forms.FormTitle>
+            {entries.flatMap(([channelId, names]) => names.map(name => (
+                <div key={`${channelId}-${name}`} className={cl("opt-out")}>
+                    <Forms.FormText>{name} is off in {getChannelName(channelId)}</Forms.FormText>
+                    <Button size={Button.Sizes.SMALL} onClick={() => setListenerDisabled(channelId, name, false)}>
+                        Turn On
+                    </Button>
+                </div>
+            )))}
+        </>
+    );
+}
+
+function MessagePipelineModal({ modalProps }: { modalProps: ModalProps; }) {
+    // Re-render when opt-outs change. They're replaced as a whole, so listening to the object itself is enough
+    useSettings(["messageEvents.disabledListeners"]);
+
+    const trace = getLastSendTrace();
+    const channelId = SelectedChannelStore.getChannelId();
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Message Send Pipeline</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                <Forms.FormTitle tag="h5" className={Margins.top16}>Last Sent Message</Forms.FormTitle>
+                {trace
+                    ? (
+                        <>
+                            <Forms.FormText className={Margins.bottom8}>
+                                Sent in {getChannelName(trace.channelId)} at {new Date(trace.timestamp).toLocaleTimeString()}.
+                                Listeners ran from top to bottom.
+                            </Forms.FormText>
+                            {trace.transforms.map((t, i) => <TransformEntry key={i} transform={t} />)}
+                        </>
+                    )
+                    : <Forms.FormText>You haven't sent a message since starting Discord.</Forms.FormText>
+                }
+
+                {channelId && <ChannelOptOuts channelId={channelId} />}
+                <OtherOptOuts currentChannelId={channelId} />
+            </ModalContent>
+        </ModalRoot>
+    );
+}
+
+export function openMessagePipelineModal() {
+    openModal(modalProps => <MessagePipelineModal modalProps={modalProps} />);
+}
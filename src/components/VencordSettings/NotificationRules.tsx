@@ -0,0 +1,83 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { NotificationRule, NotificationRuleAction, NotificationRuleCondition } from "@api/Notifications";
+import { useSettings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { Margins } from "@utils/margins";
+import { identity } from "@utils/misc";
+import { Button, Forms, React, Select, TextInput } from "@webpack/common";
+
+const cl = classNameFactory("vc-notification-rules-");
+
+const ConditionOptions: Array<{ label: string; value: NotificationRuleCondition; }> = [
+    { label: "Always", value: "always" },
+    { label: "While on Do Not Disturb", value: "dnd" },
+    { label: "While in a voice call", value: "call" }
+];
+
+const ActionOptions: Array<{ label: string; value: NotificationRuleAction; }> = [
+    { label: "Don't show (still logged)", value: "suppress" },
+    { label: "Show as Vencord notification", value: "in-app" },
+    { label: "Show as Desktop notification", value: "desktop" }
+];
+
+export function NotificationRulesSection() {
+    const { notifications } = useSettings(["notifications.rules"]);
+    const { rules } = notifications;
+
+    // The rules array is replaced as a whole, changes to its items wouldn't be saved
+    function updateRule(index: number, patch: Partial<NotificationRule>) {
+        notifications.rules = rules.map((r, i) => i === index ? { ...r, ...patch } : r);
+    }
+
+    return (
+        <>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Notification Rules</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Decide what happens to notifications of certain plugins, for example while you are on Do Not Disturb.
+                Rules match the plugin name, <code>Updater</code> or <code>Cloud</code> for Vencord's own notifications,
+                the notification title, or <code>*</code> for every notification.
+                The first matching rule wins. Important notifications are never hidden.
+            </Forms.FormText>
+            {rules.map((rule, i) => (
+                <div key={i} className={cl("rule")}>
+                    <TextInput
+                        placeholder="Plugin name or *"
+                        value={rule.source}
+                        onChange={source => updateRule(i, { source })}
+                    />
+                    <Select
+                        options={ConditionOptions}
+                        select={condition => updateRule(i, { condition })}
+                        isSelected={v => v === rule.condition}
+                        serialize={identity}
+                    />
+                    <Select
+                        options={ActionOptions}
+                        select={action => updateRule(i, { action })}
+                        isSelected={v => v === rule.action}
+                        serialize={identity}
+                    />
+                    <Button
+                        size={Button.Sizes.SMALL}
+                        color={Button.Colors.RED}
+                        onClick={() => notifications.rules = rules.filter((_, j) => j !== i)}
+                    >
+                        Remove
+                    </Button>
+                </div>
+            ))}
+            <Button
+                size={Button.Sizes.SMALL}
+                className={Margins.bottom16}
+                onClick={() => notifications.rules = [...rules, { source: "*", condition: "dnd", action: "suppress" }]}
+            >
+                Add Rule
+            </Button>
+        </>
+    );
+}
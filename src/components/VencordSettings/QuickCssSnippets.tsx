@@ -0,0 +1,139 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings, useSettings } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { DeleteIcon } from "@components/Icons";
+import { Switch } from "@components/Switch";
+import type { Snippet } from "@main/ipcMain";
+import { SNIPPET_NAME_REGEX } from "@shared/snippets";
+import { Margins } from "@utils/margins";
+import { Button, Card, Forms, showToast, TextInput, Toasts, useEffect, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-snippets-");
+
+function setSnippetEnabled(name: string, enabled: boolean) {
+    const others = Settings.disabledSnippets.filter(n => n !== name);
+    Settings.disabledSnippets = enabled ? others : [...others, name];
+}
+
+function validateName(name: string, snippets: Snippet[]) {
+    if (!SNIPPET_NAME_REGEX.test(name)) return "Names can only contain letters, numbers, spaces, - and _";
+    if (snippets.some(s => s.name === name)) return "A snippet with this name already exists";
+    return null;
+}
+
+async function renameSnippet(name: string, newName: string) {
+    try {
+        await VencordNative.quickCss.renameSnippet(name, newName);
+    } catch (err) {
+        showToast(`Failed to rename snippet: ${err}`, Toasts.Type.FAILURE);
+        return;
+    }
+
+    if (Settings.disabledSnippets.includes(name))
+        Settings.disabledSnippets = Settings.disabledSnippets.map(n => n === name ? newName : n);
+}
+
+async function deleteSnippet(name: string) {
+    await VencordNative.quickCss.deleteSnippet(name);
+    // A new snippet with the same name shouldn't start out disabled
+    setSnippetEnabled(name, true);
+}
+
+function SnippetEntry({ snippet, snippets, enabled }: { snippet: Snippet; snippets: Snippet[]; enabled: boolean; }) {
+    const [name, setName] = useState(snippet.name);
+    const error = name === snippet.name ? null : validateName(name.trim(), snippets);
+
+    function onBlur() {
+        if (name === snippet.name) return;
+        if (error) setName(snippet.name);
+        else renameSnippet(snippet.name, name.trim());
+    }
+
+    return (
+        <div className={cl("snippet")}>
+            <Switch checked={enabled} onChange={v => setSnippetEnabled(snippet.name, v)} />
+            <TextInput
+                className={cl("name")}
+                value={name}
+                onChange={setName}
+                onBlur={onBlur}
+                error={error ?? undefined}
+                spellCheck={false}
+            />
+            <Forms.FormText className={cl("lines")}>{snippet.css.split("\n").length} lines</Forms.FormText>
+            <Button
+                size={Button.Sizes.MIN}
+                look={Button.Looks.BLANK}
+                className={cl("delete")}
+                onClick={() => deleteSnippet(snippet.name)}
+            >
+                <DeleteIcon />
+            </Button>
+        </div>
+    );
+}
+
+export function QuickCssSnippets() {
+    const { disabledSnippets } = useSettings(["disabledSnippets"]);
+    const [snippets, setSnippets] = useState<Snippet[]>([]);
+    const [newName, setNewName] = useState("");
+
+    useEffect(() => {
+        VencordNative.quickCss.getSnippets().then(setSnippets);
+        return VencordNative.quickCss.addSnippetsChangeListener(setSnippets);
+    }, []);
+
+    const newNameError = newName ? validateName(newName.trim(), snippets) : null;
+
+    async function createSnippet() {
+        await VencordNative.quickCss.setSnippet(newName.trim(), "");
+        setNewName("");
+        VencordNative.quickCss.openEditor();
+    }
+
+    return (
+        <>
+            <Card className="vc-settings-card">
+                <Forms.FormText>
+                    Snippets are named parts of your QuickCSS you can turn off on their own, which is handy for collections of
+                    small tweaks. They're edited in the QuickCSS editor and load before your main QuickCSS, so it can override them.
+                </Forms.FormText>
+            </Card>
+
+            <Forms.FormSection title="New Snippet">
+                <div className={cl("new")}>
+                    <TextInput
+                        placeholder="Snippet name"
+                        value={newName}
+                        onChange={setNewName}
+                        error={newNameError ?? undefined}
+                        spellCheck={false}
+                    />
+                    <Button disabled={!newName.trim() || !!newNameError} onClick={createSnippet}>
+                        Create
+                    </Button>
+                    <Button color={Button.Colors.PRIMARY} onClick={() => VencordNative.quickCss.openEditor()}>
+                        Edit QuickCSS
+                    </Button>
+                </div>
+            </Forms.FormSection>
+
+            <Forms.FormSection title="Snippets" className={Margins.top20}>
+                {!snippets.length && <Forms.FormText>You don't have any snippets yet.</Forms.FormText>}
+                {snippets.map(snippet => (
+                    <SnippetEntry
+                        key={snippet.name}
+                        snippet={snippet}
+                        snippets={snippets}
+                        enabled={!disabledSnippets.includes(snippet.name)}
+                    />
+                ))}
+            </Forms.FormSection>
+        </>
+    );
+}
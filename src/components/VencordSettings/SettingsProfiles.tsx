@@ -0,0 +1,230 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { PlainSettings, useSettings } from "@api/Settings";
+import { createSnapshot, deleteProfile, diffProfiles, exportProfile, getProfileNames, ProfileChange, ProfileChangeType, saveProfile, switchProfile } from "@api/SettingsProfiles";
+import { classNameFactory } from "@api/Styles";
+import { Badge } from "@components/Badge";
+import { Flex } from "@components/Flex";
+import { Margins } from "@utils/margins";
+import { closeModal, ModalCloseButton, ModalContent, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { saveFile } from "@utils/web";
+import { Alerts, Button, Card, Forms, Parser, React, Select, Text, TextInput, Toasts, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-settings-profiles-");
+
+const CURRENT_SETTINGS = "\0current";
+
+function formatValue(value: unknown) {
+    if (typeof value === "boolean") return value ? "on" : "off";
+    const str = JSON.stringify(value) ?? "unset";
+    return str.length > 50 ? str.slice(0, 47) + "..." : str;
+}
+
+function describeChange({ type, plugin, key, oldValue, newValue }: ProfileChange) {
+    switch (type) {
+        case ProfileChangeType.PLUGIN:
+            return `${newValue ? "Enable" : "Disable"} ${plugin}`;
+        case ProfileChangeType.OPTION:
+            return `${plugin}: ${key} ${formatValue(oldValue)} → ${formatValue(newValue)}`;
+        case ProfileChangeType.THEME:
+            return `${newValue ? "Enable" : "Disable"} theme ${key}`;
+        case ProfileChangeType.QUICK_CSS:
+            return `${newValue ? "Enable" : "Disable"} QuickCSS`;
+    }
+}
+
+/**
+ * Switch to a profile and tell the user what happened, including which plugins need a restart
+ */
+export function switchToProfile(name: string) {
+    try {
+        var { changes, restartNeeded, failures } = switchProfile(name);
+    } catch (err) {
+        Toasts.show({
+            message: `Failed to switch profile: ${err}`,
+            type: Toasts.Type.FAILURE,
+            id: Toasts.genId()
+        });
+        return;
+    }
+
+    Toasts.show({
+        message: failures.length
+            ? `Switched to ${name}, but failed to start or stop ${failures.join(", ")}`
+            : `Switched to ${name} (${changes.length} changes)`,
+        type: failures.length ? Toasts.Type.FAILURE : Toasts.Type.SUCCESS,
+        id: Toasts.genId()
+    });
+
+    if (restartNeeded.length) Alerts.show({
+        title: "Restart required",
+        body: (
+            <>
+                <p>The following plugins require a restart:</p>
+                <div>{restartNeeded.map((s, i) => (
+                    <>
+                        {i > 0 && ", "}
+                        {Parser.parse("`" + s + "`")}
+                    </>
+                ))}</div>
+            </>
+        ),
+        confirmText: "Restart now",
+        cancelText: "Later!",
+        onConfirm: () => location.reload()
+    });
+}
+
+function ProfileDiffModal({ modalProps, close, profile }: { modalProps: ModalProps; close(): void; profile: string; }) {
+    const { profiles } = PlainSettings;
+    const [base, setBase] = useState(CURRENT_SETTINGS);
+
+    const changes = React.useMemo(
+        () => diffProfiles(base === CURRENT_SETTINGS ? createSnapshot() : profiles[base], profiles[profile]),
+        [base, profile]
+    );
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Changes when switching to {profile}</Text>
+                <ModalCloseButton onClick={close} />
+            </ModalHeader>
+
+            <ModalContent className={cl("diff")}>
+                <Forms.FormTitle tag="h5" className={Margins.top16}>Compare with</Forms.FormTitle>
+                <Select
+                    options={[
+                        { label: "Current Settings", value: CURRENT_SETTINGS },
+                        ...getProfileNames().filter(n => n !== profile).map(n => ({ label: n, value: n }))
+                    ]}
+                    isSelected={v => v === base}
+                    select={setBase}
+                    serialize={String}
+                />
+
+                <div className={Margins.top16}>
+                    {changes.length
+                        ? changes.map((c, i) => <Forms.FormText key={i} className={cl("change")}>{describeChange(c)}</Forms.FormText>)
+                        : <Forms.FormText>No differences</Forms.FormText>
+                    }
+                </div>
+            </ModalContent>
+        </ModalRoot>
+    );
+}
+
+export function openProfileDiffModal(profile: string) {
+    const key = openModal(modalProps => (
+        <ProfileDiffModal
+            modalProps={modalProps}
+            close={() => closeModal(key)}
+            profile={profile}
+        />
+    ));
+}
+
+function downloadProfile(name: string) {
+    const filename = `vencord-profile-${name}.json`;
+    const data = new TextEncoder().encode(exportProfile(name));
+
+    if (IS_DISCORD_DESKTOP) {
+        DiscordNative.fileManager.saveWithDialog(data, filename);
+    } else {
+        saveFile(new File([data], filename, { type: "application/json" }));
+    }
+}
+
+function ProfileCard({ name, active }: { name: string; active: boolean; }) {
+    return (
+        <Card className={cl("card")}>
+            <Text variant="text-md/semibold" className={cl("name")}>
+                {name}
+                {active && <Badge text="ACTIVE" color="var(--brand-500)" />}
+            </Text>
+            <Flex className={cl("actions")}>
+                <Button size={Button.Sizes.SMALL} onClick={() => switchToProfile(name)}>
+                    Switch
+                </Button>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => openProfileDiffModal(name)}>
+                    Compare
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.PRIMARY}
+                    onClick={() => Alerts.show({
+                        title: `Overwrite ${name}?`,
+                        body: "This will replace the profile with your current plugin, theme and QuickCSS settings.",
+                        confirmText: "Overwrite",
+                        cancelText: "Cancel",
+                        onConfirm: () => saveProfile(name)
+                    })}
+                >
+                    Update
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.PRIMARY}
+                    onClick={() => downloadProfile(name)}
+                >
+                    Export
+                </Button>
+                <Button
+                    size={Button.Sizes.SMALL}
+                    color={Button.Colors.RED}
+                    onClick={() => Alerts.show({
+                        title: `Delete ${name}?`,
+                        body: "This action cannot be undone.",
+                        confirmText: "Delete",
+                        cancelText: "Cancel",
+                        onConfirm: () => deleteProfile(name)
+                    })}
+                >
+                    Delete
+                </Button>
+            </Flex>
+        </Card>
+    );
+}
+
+export function SettingsProfilesSection() {
+    // Profiles are always replaced as a whole, so listening to every change is needed to rerender when they change
+    const { activeProfile } = useSettings();
+    const [newName, setNewName] = useState("");
+
+    const names = getProfileNames();
+
+    return (
+        <Forms.FormSection className={Margins.top16} title="Profiles" tag="h5">
+            <Forms.FormText className={Margins.bottom8}>
+                Profiles save which plugins are enabled and their settings, as well as your enabled themes and
+                whether QuickCSS is enabled, so you can quickly switch between them. You can also switch profiles from the Vencord Toolbox.
+                Exported profiles can be imported in the Backup & Restore tab.
+            </Forms.FormText>
+
+            {names.map(name => <ProfileCard key={name} name={name} active={name === activeProfile} />)}
+
+            <Flex className={Margins.bottom20}>
+                <TextInput
+                    style={{ flexGrow: 1 }}
+                    placeholder="Profile Name"
+                    value={newName}
+                    onChange={setNewName}
+                />
+                <Button
+                    disabled={!newName.trim()}
+                    onClick={() => {
+                        saveProfile(newName);
+                        setNewName("");
+                    }}
+                >
+                    {names.includes(newName.trim()) ? "Overwrite Profile" : "Save Current Settings"}
+                </Button>
+            </Flex>
+        </Forms.FormSection>
+    );
+}
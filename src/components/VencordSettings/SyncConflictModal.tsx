@@ -0,0 +1,127 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { Margins } from "@utils/margins";
+import { closeModal, ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { ConflictChoice, SyncConflict } from "@utils/settingsMerge";
+import { Button, Card, Forms, React, Text, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-cloud-conflict-");
+
+function formatValue(value: unknown) {
+    if (value === undefined) return "unset";
+    const str = typeof value === "string" ? value : JSON.stringify(value);
+    return str.length > 80 ? str.slice(0, 77) + "..." : str;
+}
+
+function ConflictEntry({ conflict, choice, onChoose }: { conflict: SyncConflict; choice: ConflictChoice; onChoose(choice: ConflictChoice): void; }) {
+    const sides = [
+        [ConflictChoice.LOCAL, "This device", conflict.local],
+        [ConflictChoice.REMOTE, "Cloud", conflict.remote]
+    ] as const;
+
+    return (
+        <Card className={cl("entry")}>
+            <Text variant="text-md/semibold">{conflict.key}</Text>
+            <Forms.FormText className={cl("value")}>Last synced: {formatValue(conflict.base)}</Forms.FormText>
+            <Flex className={Margins.top8}>
+                {sides.map(([side, label, value]) => (
+                    <Button
+                        key={side}
+                        className={cl("choice")}
+                        size={Button.Sizes.SMALL}
+                        color={choice === side ? Button.Colors.BRAND : Button.Colors.PRIMARY}
+                        onClick={() => onChoose(side)}
+                    >
+                        {label}: {formatValue(value)}
+                    </Button>
+                ))}
+            </Flex>
+        </Card>
+    );
+}
+
+interface ConflictModalProps {
+    modalProps: ModalProps;
+    conflicts: SyncConflict[];
+    onResolve(choices: Record<string, ConflictChoice>): void;
+    close(): void;
+}
+
+function SyncConflictModal({ modalProps, conflicts, onResolve, close }: ConflictModalProps) {
+    const chooseAll = (choice: ConflictChoice) => Object.fromEntries(conflicts.map(c => [c.key, choice]));
+    const [choices, setChoices] = useState(() => chooseAll(ConflictChoice.LOCAL));
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Resolve Settings Conflicts</Text>
+                <ModalCloseButton onClick={close} />
+            </ModalHeader>
+
+            <ModalContent>
+                <Forms.FormText className={Margins.top16}>
+                    These settings were changed both on this device and on another one since they were last synced.
+                    Choose which value to keep for each of them.
+                </Forms.FormText>
+                <Flex className={Margins.top8}>
+                    <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => setChoices(chooseAll(ConflictChoice.LOCAL))}>
+                        Keep All Local
+                    </Button>
+                    <Button size={Button.Sizes.SMALL} color={Button.Colors.PRIMARY} onClick={() => setChoices(chooseAll(ConflictChoice.REMOTE))}>
+                        Use All Cloud
+                    </Button>
+                </Flex>
+                <div className={cl("list")}>
+                    {conflicts.map(c => (
+                        <ConflictEntry
+                            key={c.key}
+                            conflict={c}
+                            choice={choices[c.key]}
+                            onChoose={choice => setChoices({ ...choices, [c.key]: choice })}
+                        />
+                    ))}
+                </div>
+            </ModalContent>
+
+            <ModalFooter>
+                <Flex style={{ marginLeft: "auto" }}>
+                    <Button color={Button.Colors.PRIMARY} look={Button.Looks.LINK} onClick={close}>
+                        Cancel
+                    </Button>
+                    <Button onClick={() => onResolve(choices)}>
+                        Sync
+                    </Button>
+                </Flex>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+/**
+ * Let the user pick a side for every conflict
+ * @returns The choices, or null if the user cancelled
+ */
+export function resolveSyncConflicts(conflicts: SyncConflict[]) {
+    return new Promise<Record<string, ConflictChoice> | null>(resolve => {
+        const key = openModal(modalProps => (
+            <SyncConflictModal
+                modalProps={modalProps}
+                conflicts={conflicts}
+                onResolve={choices => {
+                    resolve(choices);
+                    closeModal(key);
+                }}
+                close={() => closeModal(key)}
+            />
+        ), {
+            // Called for every way of closing, resolving twice is a no-op
+            onCloseCallback: () => resolve(null)
+        });
+    });
+}
@@ -0,0 +1,249 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings, useSettings, withSettingsKey } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import { getCssTargets } from "@utils/cssLint";
+import { Margins } from "@utils/margins";
+import { identity } from "@utils/misc";
+import { getOrderedThemes } from "@utils/quickCss";
+import { useAwaiter } from "@utils/react";
+import { isThemeRuleActive, ThemeRule } from "@utils/themeRules";
+import { Card, Forms, GuildStore, React, Select, Switch, TextInput, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-theme-order-");
+
+type RuleType = ThemeRule["type"] | "none";
+
+const RuleTypeOptions: Array<{ label: string; value: RuleType; }> = [
+    { label: "Always", value: "none" },
+    { label: "During a time of day", value: "time" },
+    { label: "With Discord's light or dark theme", value: "appearance" },
+    { label: "While a server is selected", value: "guild" }
+];
+
+const DefaultRules: { [T in ThemeRule["type"]]: Extract<ThemeRule, { type: T; }> } = {
+    time: { type: "time", from: "20:00", to: "07:00" },
+    appearance: { type: "appearance", appearance: "dark" },
+    guild: { type: "guild", guildIds: [] }
+};
+
+function setRule(theme: string, rule: ThemeRule | null) {
+    Settings.themeRules = withSettingsKey(Settings.themeRules, theme, rule ?? undefined);
+}
+
+function moveTheme(theme: string, before: string) {
+    const order = getOrderedThemes().filter(t => t !== theme);
+    order.splice(order.indexOf(before), 0, theme);
+
+    // Keep the position of disabled themes for when they're enabled again
+    Settings.themeOrder = [...order, ...Settings.themeOrder.filter(t => !order.includes(t))];
+}
+
+function getThemeName(theme: string) {
+    return Settings.themeLinks.includes(theme)
+        ? theme.split("/").pop() || theme
+        : theme.replace(/\.css$/i, "");
+}
+
+// Shown per conflict before the rest is summarized
+const MAX_LISTED_TARGETS = 5;
+
+interface CssConflict {
+    /** The theme or QuickCSS that loads later and wins */
+    winner: string;
+    loser: string;
+    selectors: string[];
+    variables: string[];
+}
+
+async function getQuickCss() {
+    const [quickCss, snippets] = await Promise.all([VencordNative.quickCss.get(), VencordNative.quickCss.getSnippets()]);
+    const { disabledSnippets } = Settings;
+
+    return [quickCss, ...snippets.filter(s => !disabledSnippets.includes(s.name)).map(s => s.css)].join("\n");
+}
+
+/**
+ * Find themes, and QuickCSS, that style the same selectors or declare the same variables.
+ * Online themes are only checked once they were saved
+ */
+async function findConflicts(themes: string[]) {
+    const sources = await Promise.all(themes.map(async theme => ({
+        name: getThemeName(theme),
+        css: Settings.themeLinks.includes(theme)
+            ? await VencordNative.themes.getOnlineThemeData(theme)
+            : await VencordNative.themes.getThemeData(theme)
+    })));
+
+    if (Settings.useQuickCss) {
+        const quickCss = { name: "QuickCSS", css: await getQuickCss() };
+        if (Settings.themesOverrideQuickCss) sources.unshift(quickCss);
+        else sources.push(quickCss);
+    }
+
+    const targets = sources.map(s => getCssTargets(s.css ?? ""));
+    const conflicts = [] as CssConflict[];
+
+    for (let later = 1; later < sources.length; later++) {
+        for (let earlier = 0; earlier < later; earlier++) {
+            const selectors = [...targets[later].selectors].filter(s => targets[earlier].selectors.has(s));
+            const variables = [...targets[later].variables].filter(v => targets[earlier].variables.has(v));
+
+            if (selectors.length || variables.length)
+                conflicts.push({ winner: sources[later].name, loser: sources[earlier].name, selectors, variables });
+        }
+    }
+
+    return conflicts;
+}
+
+function TargetList({ title, targets }: { title: string; targets: string[]; }) {
+    if (!targets.length) return null;
+
+    return (
+        <Forms.FormText>
+            {title}: {targets.slice(0, MAX_LISTED_TARGETS).map((t, i) => <React.Fragment key={t}>{i > 0 && ", "}<code>{t}</code></React.Fragment>)}
+            {targets.length > MAX_LISTED_TARGETS && ` and ${targets.length - MAX_LISTED_TARGETS} more`}
+        </Forms.FormText>
+    );
+}
+
+function ThemeConflicts({ themes }: { themes: string[]; }) {
+    const { useQuickCss, themesOverrideQuickCss } = Settings;
+    const [conflicts, , pending] = useAwaiter(() => findConflicts(themes), {
+        fallbackValue: [],
+        deps: [themes.join("\n"), useQuickCss, themesOverrideQuickCss]
+    });
+
+    return (
+        <Forms.FormSection title="Conflicts" className={Margins.top16}>
+            <Forms.FormText className={Margins.bottom8}>
+                Themes that style the same elements or set the same variables. The one loading later wins,
+                so reorder them if the wrong one does.
+            </Forms.FormText>
+
+            {pending
+                ? <Forms.FormText>Checking themes...</Forms.FormText>
+                : !conflicts.length && <Forms.FormText>No conflicts found.</Forms.FormText>}
+
+            {!pending && conflicts.map(({ winner, loser, selectors, variables }) => (
+                <div key={`${winner}\n${loser}`} className={cl("conflict")}>
+                    <Forms.FormTitle tag="h5">{winner} overrides {loser}</Forms.FormTitle>
+                    <TargetList title="Variables" targets={variables} />
+                    <TargetList title="Selectors" targets={selectors} />
+                </div>
+            ))}
+        </Forms.FormSection>
+    );
+}
+
+function RuleEditor({ theme, rule }: { theme: string; rule?: ThemeRule; }) {
+    return (
+        <div className={cl("rule")}>
+            <Select
+                options={RuleTypeOptions}
+                isSelected={v => v === (rule?.type ?? "none")}
+                select={(type: RuleType) => setRule(theme, type === "none" ? null : DefaultRules[type])}
+                serialize={identity}
+            />
+
+            {rule?.type === "time" && (
+                <>
+                    <TextInput type="time" value={rule.from} onChange={from => setRule(theme, { ...rule, from })} />
+                    <TextInput type="time" value={rule.to} onChange={to => setRule(theme, { ...rule, to })} />
+                </>
+            )}
+
+            {rule?.type === "appearance" && (
+                <Select
+                    options={[
+                        { label: "Dark", value: "dark" },
+                        { label: "Light", value: "light" }
+                    ]}
+                    isSelected={v => v === rule.appearance}
+                    select={appearance => setRule(theme, { ...rule, appearance })}
+                    serialize={identity}
+                />
+            )}
+
+            {rule?.type === "guild" && (
+                <Select
+                    placeholder="Select servers"
+                    options={Object.values(GuildStore.getGuilds()).map(g => ({ label: g.name, value: g.id }))}
+                    isSelected={v => rule.guildIds.includes(v)}
+                    select={(id: string) => setRule(theme, {
+                        ...rule,
+                        guildIds: rule.guildIds.includes(id)
+                            ? rule.guildIds.filter(g => g !== id)
+                            : [...rule.guildIds, id]
+                    })}
+                    serialize={identity}
+                    closeOnSelect={false}
+                />
+            )}
+        </div>
+    );
+}
+
+export function ThemeLoadOrder() {
+    const settings = useSettings(["themeLinks", "enabledThemes", "themeOrder", "themeRules", "themesOverrideQuickCss", "useQuickCss"]);
+    const [dragged, setDragged] = useState<string | null>(null);
+
+    const themes = getOrderedThemes();
+
+    return (
+        <>
+            <Card className="vc-settings-card">
+                <Forms.FormText>
+                    Themes load from top to bottom, so later themes override earlier ones. Drag themes to reorder them.
+                    You can also choose when a theme should be used, for example only at night.
+                </Forms.FormText>
+            </Card>
+
+            <Switch
+                value={settings.themesOverrideQuickCss}
+                onChange={v => settings.themesOverrideQuickCss = v}
+                note="By default, your QuickCSS loads after all themes and overrides them"
+            >
+                Let themes override QuickCSS
+            </Switch>
+
+            <Forms.FormSection title="Load Order" className={Margins.top16}>
+                {!themes.length && <Forms.FormText>Enable some themes first.</Forms.FormText>}
+
+                {themes.map(theme => {
+                    const rule = settings.themeRules[theme];
+
+                    return (
+                        <div
+                            key={theme}
+                            className={cl("theme", { "theme-dragged": dragged === theme })}
+                            draggable
+                            onDragStart={() => setDragged(theme)}
+                            onDragOver={e => e.preventDefault()}
+                            onDrop={() => dragged && dragged !== theme && moveTheme(dragged, theme)}
+                            onDragEnd={() => setDragged(null)}
+                        >
+                            <div className={cl("header")}>
+                                <span className={cl("handle")} aria-hidden>⠿</span>
+                                <Forms.FormTitle tag="h5" className={cl("name")}>{getThemeName(theme)}</Forms.FormTitle>
+                                {rule && (
+                                    <Forms.FormText className={cl("status")}>
+                                        {isThemeRuleActive(rule) ? "Active" : "Inactive"}
+                                    </Forms.FormText>
+                                )}
+                            </div>
+                            <RuleEditor theme={theme} rule={rule} />
+                        </div>
+                    );
+                })}
+            </Forms.FormSection>
+
+            <ThemeConflicts themes={themes} />
+        </>
+    );
+}
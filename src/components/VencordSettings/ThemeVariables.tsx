@@ -0,0 +1,145 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Settings, useSettings, withSettingsKey } from "@api/Settings";
+import { classNameFactory } from "@api/Styles";
+import type { ThemeVariable, UserThemeHeader } from "@main/themes";
+import { Margins } from "@utils/margins";
+import { identity, isObjectEmpty } from "@utils/misc";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { Button, Forms, Select, Slider, Text, TextInput, useState } from "@webpack/common";
+
+const cl = classNameFactory("vc-theme-vars-");
+
+/**
+ * Set the value of a theme's variable. Values equal to the default are removed, so changes to the
+ * default in a theme update still apply
+ */
+function setVariable(fileName: string, variable: ThemeVariable, value: string | null) {
+    const { themeVariables } = Settings;
+    const values = withSettingsKey(themeVariables[fileName] ?? {}, variable.name, value === null || value === variable.default ? undefined : value);
+
+    Settings.themeVariables = withSettingsKey(themeVariables, fileName, isObjectEmpty(values) ? undefined : values);
+}
+
+function VariableInput({ variable, value, onChange }: { variable: ThemeVariable; value: string; onChange(value: string): void; }) {
+    switch (variable.type) {
+        case "color":
+            return (
+                <div className={cl("color")}>
+                    {/* The native picker only understands hex colours */}
+                    {/^#[\da-f]{6}$/i.test(value) && (
+                        <input type="color" value={value} onChange={e => onChange(e.currentTarget.value)} />
+                    )}
+                    <TextInput value={value} onChange={onChange} spellCheck={false} />
+                </div>
+            );
+        case "number":
+            return (
+                <TextInput
+                    type="number"
+                    value={String(parseFloat(value) || 0)}
+                    min={variable.min}
+                    max={variable.max}
+                    step={variable.step}
+                    onChange={v => onChange(`${v}${variable.unit}`)}
+                />
+            );
+        case "range": {
+            const min = variable.min ?? 0;
+            const max = variable.max ?? 100;
+            const step = variable.step ?? 1;
+            const format = (v: number) => `${Math.round(v / step) * step}${variable.unit}`;
+            return (
+                <Slider
+                    markers={[min, max]}
+                    minValue={min}
+                    maxValue={max}
+                    initialValue={parseFloat(value) || min}
+                    onValueChange={(v: number) => onChange(format(v))}
+                    onValueRender={format}
+                    stickToMarkers={false}
+                />
+            );
+        }
+        case "select":
+            return (
+                <Select
+                    options={variable.options.map(o => ({ label: o, value: o }))}
+                    isSelected={v => v === value}
+                    select={onChange}
+                    serialize={identity}
+                />
+            );
+        case "text":
+            return <TextInput value={value} onChange={onChange} spellCheck={false} />;
+    }
+}
+
+function ThemeVariablesModal({ modalProps, theme }: { modalProps: ModalProps; theme: UserThemeHeader; }) {
+    const { themeVariables } = useSettings(["themeVariables"]);
+    const values = themeVariables[theme.fileName] ?? {};
+    const isEnabled = Settings.enabledThemes.includes(theme.fileName);
+    // Sliders only read their initial value, so they're recreated on reset
+    const [resets, setResets] = useState(0);
+
+    function reset(vars: ThemeVariable[]) {
+        vars.forEach(v => setVariable(theme.fileName, v, null));
+        setResets(r => r + 1);
+    }
+
+    return (
+        <ModalRoot {...modalProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>{theme.name} Settings</Text>
+                <ModalCloseButton onClick={modalProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("content")}>
+                {!isEnabled && (
+                    <Forms.FormText className={Margins.top16}>Enable this theme to see your changes.</Forms.FormText>
+                )}
+                {theme.vars.map(variable => (
+                    <Forms.FormSection key={variable.name} className={Margins.top16}>
+                        <div className={cl("title")}>
+                            <Forms.FormTitle tag="h5">{variable.label}</Forms.FormTitle>
+                            {values[variable.name] != null && (
+                                <Button
+                                    size={Button.Sizes.MIN}
+                                    look={Button.Looks.LINK}
+                                    color={Button.Colors.LINK}
+                                    onClick={() => reset([variable])}
+                                >
+                                    Reset
+                                </Button>
+                            )}
+                        </div>
+                        <VariableInput
+                            key={resets}
+                            variable={variable}
+                            value={values[variable.name] ?? variable.default}
+                            onChange={v => setVariable(theme.fileName, variable, v)}
+                        />
+                    </Forms.FormSection>
+                ))}
+            </ModalContent>
+
+            <ModalFooter>
+                <Button
+                    color={Button.Colors.RED}
+                    disabled={!Object.keys(values).length}
+                    onClick={() => reset(theme.vars)}
+                >
+                    Reset All
+                </Button>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+export function openThemeVariablesModal(theme: UserThemeHeader) {
+    openModal(modalProps => <ThemeVariablesModal modalProps={modalProps} theme={theme} />);
+}
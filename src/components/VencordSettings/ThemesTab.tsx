@@ -19,9 +19,10 @@
 import { useSettings } from "@api/Settings";
 import { classNameFactory } from "@api/Styles";
 import { Flex } from "@components/Flex";
-import { DeleteIcon } from "@components/Icons";
+import { CogWheel, DeleteIcon } from "@components/Icons";
 import { Link } from "@components/Link";
 import PluginModal from "@components/PluginSettings/PluginModal";
+import type { OnlineTheme } from "@main/onlineThemes";
 import type { UserThemeHeader } from "@main/themes";
 import { openInviteModal } from "@utils/discord";
 import { Margins } from "@utils/margins";
@@ -34,7 +35,11 @@ import { Button, Card, Forms, React, showToast, TabBar, TextArea, useEffect, use
 import type { ComponentType, Ref, SyntheticEvent } from "react";
 
 import { AddonCard } from "./AddonCard";
+import { ThemeDiagnostics } from "./CssDiagnostics";
+import { QuickCssSnippets } from "./QuickCssSnippets";
 import { SettingsTab, wrapTab } from "./shared";
+import { ThemeLoadOrder } from "./ThemeLoadOrder";
+import { openThemeVariablesModal } from "./ThemeVariables";
 
 type FileInput = ComponentType<{
     ref: Ref<HTMLInputElement>;
@@ -97,6 +102,80 @@ function Validators({ themeLinks }: { themeLinks: string[]; }) {
     );
 }
 
+function formatTime(timestamp?: number) {
+    return timestamp ? new Date(timestamp).toLocaleString() : "Never";
+}
+
+function CacheStatus({ theme }: { theme?: OnlineTheme; }) {
+    const pending = !theme || (!theme.cached && !theme.error);
+
+    const text = pending
+        ? "Downloading..."
+        : theme.error
+            ? theme.cached
+                ? `Couldn't check for updates, using the saved copy. Error: ${theme.error}`
+                : `Error: ${theme.error}`
+            : "Saved for offline use";
+
+    return (
+        <>
+            <Forms.FormText style={{
+                color: pending ? "var(--text-muted)" : theme.error ? "var(--text-danger)" : "var(--text-positive)"
+            }}>
+                {text}
+            </Forms.FormText>
+            {theme?.cached && (
+                <Forms.FormText>
+                    Last updated: {formatTime(theme.updatedAt)} • Last fetched: {formatTime(theme.lastFetched)}
+                </Forms.FormText>
+            )}
+        </>
+    );
+}
+
+function CacheStatuses({ themeLinks }: { themeLinks: string[]; }) {
+    const [onlineThemes, setOnlineThemes] = useState<Record<string, OnlineTheme>>({});
+    const [isChecking, setIsChecking] = useState(false);
+
+    useEffect(() => {
+        VencordNative.themes.getOnlineThemes().then(setOnlineThemes);
+        return VencordNative.themes.addOnlineThemesChangeListener(() => {
+            VencordNative.themes.getOnlineThemes().then(setOnlineThemes);
+        });
+    }, []);
+
+    async function checkForUpdates() {
+        setIsChecking(true);
+        try {
+            setOnlineThemes(await VencordNative.themes.checkOnlineThemes());
+        } finally {
+            setIsChecking(false);
+        }
+    }
+
+    if (!themeLinks.length) return null;
+
+    return (
+        <>
+            <Forms.FormTitle className={Margins.top20} tag="h5">Status</Forms.FormTitle>
+            <Forms.FormText>
+                Online themes are saved so they load instantly and keep working offline. They're checked for updates every hour
+            </Forms.FormText>
+            <Button className={Margins.top8} size={Button.Sizes.SMALL} disabled={isChecking} onClick={checkForUpdates}>
+                {isChecking ? "Checking..." : "Check for Updates"}
+            </Button>
+            <div>
+                {themeLinks.map(link => (
+                    <Card className={cl("link-status")} key={link}>
+                        <Forms.FormTitle tag="h5" className={cl("link")}>{link}</Forms.FormTitle>
+                        <CacheStatus theme={onlineThemes[link]} />
+                    </Card>
+                ))}
+            </div>
+        </>
+    );
+}
+
 interface ThemeCardProps {
     theme: UserThemeHeader;
     enabled: boolean;
@@ -112,12 +191,20 @@ function ThemeCard({ theme, enabled, onChange, onDelete }: ThemeCardProps) {
             author={theme.author}
             enabled={enabled}
             setEnabled={onChange}
+            warning={enabled && <ThemeDiagnostics theme={theme} />}
             infoButton={
-                IS_WEB && (
-                    <div style={{ cursor: "pointer", color: "var(--status-danger" }} onClick={onDelete}>
-                        <DeleteIcon />
-                    </div>
-                )
+                <>
+                    {theme.vars.length > 0 && (
+                        <div style={{ cursor: "pointer" }} onClick={() => openThemeVariablesModal(theme)}>
+                            <CogWheel />
+                        </div>
+                    )}
+                    {IS_WEB && (
+                        <div style={{ cursor: "pointer", color: "var(--status-danger" }} onClick={onDelete}>
+                            <DeleteIcon />
+                        </div>
+                    )}
+                </>
             }
             footer={
                 <Flex flexDirection="row" style={{ gap: "0.2em" }}>
@@ -142,7 +229,9 @@ function ThemeCard({ theme, enabled, onChange, onDelete }: ThemeCardProps) {
 
 enum ThemeTab {
     LOCAL,
-    ONLINE
+    ONLINE,
+    ORDER,
+    SNIPPETS
 }
 
 function ThemesTab() {
@@ -318,7 +407,10 @@ function ThemesTab() {
                         onBlur={onBlur}
                         rows={10}
                     />
-                    <Validators themeLinks={settings.themeLinks} />
+                    {IS_WEB
+                        ? <Validators themeLinks={settings.themeLinks} />
+                        : <CacheStatuses themeLinks={settings.themeLinks} />
+                    }
                 </Forms.FormSection>
             </>
         );
@@ -345,10 +437,24 @@ function ThemesTab() {
                 >
                     Online Themes
                 </TabBar.Item>
+                <TabBar.Item
+                    className="vc-settings-tab-bar-item"
+                    id={ThemeTab.ORDER}
+                >
+                    Load Order
+                </TabBar.Item>
+                <TabBar.Item
+                    className="vc-settings-tab-bar-item"
+                    id={ThemeTab.SNIPPETS}
+                >
+                    QuickCSS Snippets
+                </TabBar.Item>
             </TabBar>
 
             {currentTab === ThemeTab.LOCAL && renderLocalThemes()}
             {currentTab === ThemeTab.ONLINE && renderOnlineThemes()}
+            {currentTab === ThemeTab.ORDER && <ThemeLoadOrder />}
+            {currentTab === ThemeTab.SNIPPETS && <QuickCssSnippets />}
         </SettingsTab>
     );
 }
@@ -29,6 +29,7 @@ import { Alerts, Button, Card, Forms, Parser, React, Switch, Toasts } from "@web
 
 import gitHash from "~git-hash";
 
+import { UpdaterSwitches } from "./coreSettings";
 import { SettingsTab, wrapTab } from "./shared";
 
 function withDispatcher(dispatcher: React.Dispatch<React.SetStateAction<boolean>>, action: () => any) {
@@ -206,25 +207,25 @@ function Updater() {
             <Switch
                 value={settings.notifyAboutUpdates}
                 onChange={(v: boolean) => settings.notifyAboutUpdates = v}
-                note="Shows a notification on startup"
+                note={UpdaterSwitches.notifyAboutUpdates.note}
                 disabled={settings.autoUpdate}
             >
-                Get notified about new updates
+                {UpdaterSwitches.notifyAboutUpdates.title}
             </Switch>
             <Switch
                 value={settings.autoUpdate}
                 onChange={(v: boolean) => settings.autoUpdate = v}
-                note="Automatically update Vencord without confirmation prompt"
+                note={UpdaterSwitches.autoUpdate.note}
             >
-                Automatically update
+                {UpdaterSwitches.autoUpdate.title}
             </Switch>
             <Switch
                 value={settings.autoUpdateNotification}
                 onChange={(v: boolean) => settings.autoUpdateNotification = v}
-                note="Shows a notification when Vencord automatically updates"
+                note={UpdaterSwitches.autoUpdateNotification.note}
                 disabled={!settings.autoUpdate}
             >
-                Get notified when an automatic update completes
+                {UpdaterSwitches.autoUpdateNotification.title}
             </Switch>
 
             <Forms.FormTitle tag="h5">Repo</Forms.FormTitle>
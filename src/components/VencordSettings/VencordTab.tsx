@@ -27,6 +27,10 @@ import { relaunch, showItemInFolder } from "@utils/native";
 import { useAwaiter } from "@utils/react";
 import { Button, Card, Forms, React, Select, Slider, Switch } from "@webpack/common";
 
+import { getVencordSwitches, NotificationOptions } from "./coreSettings";
+import { openMessagePipelineModal } from "./MessagePipelineModal";
+import { NotificationRulesSection } from "./NotificationRules";
+import { SettingsProfilesSection } from "./SettingsProfiles";
 import { SettingsTab, wrapTab } from "./shared";
 
 const cl = classNameFactory("vc-settings-");
@@ -34,10 +38,6 @@ const cl = classNameFactory("vc-settings-");
 const DEFAULT_DONATE_IMAGE = "https://cdn.discordapp.com/emojis/1026533090627174460.png";
 const SHIGGY_DONATE_IMAGE = "https://media.discordapp.net/stickers/1039992459209490513.png";
 
-type KeysOfType<Object, Type> = {
-    [K in keyof Object]: Object[K] extends Type ? K : never;
-}[keyof Object];
-
 function VencordSettings() {
     const [settingsDir, , settingsDirPending] = useAwaiter(VencordNative.settings.getSettingsDir, {
         fallbackValue: "Loading..."
@@ -46,52 +46,9 @@ function VencordSettings() {
 
     const donateImage = React.useMemo(() => Math.random() > 0.5 ? DEFAULT_DONATE_IMAGE : SHIGGY_DONATE_IMAGE, []);
 
-    const isWindows = navigator.platform.toLowerCase().startsWith("win");
     const isMac = navigator.platform.toLowerCase().startsWith("mac");
     const needsVibrancySettings = IS_DISCORD_DESKTOP && isMac;
 
-    const Switches: Array<false | {
-        key: KeysOfType<typeof settings, boolean>;
-        title: string;
-        note: string;
-    }> =
-        [
-            {
-                key: "useQuickCss",
-                title: "Enable Custom CSS",
-                note: "Loads your Custom CSS"
-            },
-            !IS_WEB && {
-                key: "enableReactDevtools",
-                title: "Enable React Developer Tools",
-                note: "Requires a full restart"
-            },
-            !IS_WEB && (!IS_DISCORD_DESKTOP || !isWindows ? {
-                key: "frameless",
-                title: "Disable the window frame",
-                note: "Requires a full restart"
-            } : {
-                key: "winNativeTitleBar",
-                title: "Use Windows' native title bar instead of Discord's custom one",
-                note: "Requires a full restart"
-            }),
-            !IS_WEB && {
-                key: "transparent",
-                title: "Enable window transparency.",
-                note: "You need a theme that supports transparency or this will do nothing. Will stop the window from being resizable. Requires a full restart"
-            },
-            !IS_WEB && isWindows && {
-                key: "winCtrlQ",
-                title: "Register Ctrl+Q as shortcut to close Discord (Alternative to Alt+F4)",
-                note: "Requires a full restart"
-            },
-            IS_DISCORD_DESKTOP && {
-                key: "disableMinSize",
-                title: "Disable minimum window size",
-                note: "Requires a full restart"
-            },
-        ];
-
     return (
         <SettingsTab title="Vencord Settings">
             <DonateCard image={donateImage} />
@@ -119,6 +76,11 @@ function VencordSettings() {
                                 Open Settings Folder
                             </Button>
                         )}
+                        <Button
+                            onClick={openMessagePipelineModal}
+                            size={Button.Sizes.SMALL}>
+                            Debug Message Listeners
+                        </Button>
                         <Button
                             onClick={() => VencordNative.native.openExternal("https://github.com/Vendicated/Vencord")}
                             size={Button.Sizes.SMALL}
@@ -131,11 +93,15 @@ function VencordSettings() {
 
             <Forms.FormDivider />
 
+            <SettingsProfilesSection />
+
+            <Forms.FormDivider />
+
             <Forms.FormSection className={Margins.top16} title="Settings" tag="h5">
                 <Forms.FormText className={Margins.bottom20}>
                     Hint: You can change the position of this settings section in the settings of the "Settings" plugin!
                 </Forms.FormText>
-                {Switches.map(s => s && (
+                {getVencordSwitches().map(s => (
                     <Switch
                         key={s.key}
                         value={settings[s.key]}
@@ -220,7 +186,7 @@ function VencordSettings() {
 function NotificationSection({ settings }: { settings: typeof Settings["notifications"]; }) {
     return (
         <>
-            <Forms.FormTitle tag="h5">Notification Style</Forms.FormTitle>
+            <Forms.FormTitle tag="h5">{NotificationOptions.useNative.description}</Forms.FormTitle>
             {settings.useNative !== "never" && Notification?.permission === "denied" && (
                 <ErrorCard style={{ padding: "1em" }} className={Margins.bottom8}>
                     <Forms.FormTitle tag="h5">Desktop Notification Permission denied</Forms.FormTitle>
@@ -235,55 +201,64 @@ function NotificationSection({ settings }: { settings: typeof Settings["notifica
                 </ul>
             </Forms.FormText>
             <Select
-                placeholder="Notification Style"
-                options={[
-                    { label: "Only use Desktop notifications when Discord is not focused", value: "not-focused", default: true },
-                    { label: "Always use Desktop notifications", value: "always" },
-                    { label: "Always use Vencord notifications", value: "never" },
-                ] satisfies Array<{ value: typeof settings["useNative"]; } & Record<string, any>>}
+                placeholder={NotificationOptions.useNative.description}
+                options={NotificationOptions.useNative.options}
                 closeOnSelect={true}
                 select={v => settings.useNative = v}
                 isSelected={v => v === settings.useNative}
                 serialize={identity}
             />
 
-            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Notification Position</Forms.FormTitle>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>{NotificationOptions.position.description}</Forms.FormTitle>
             <Select
                 isDisabled={settings.useNative === "always"}
-                placeholder="Notification Position"
-                options={[
-                    { label: "Bottom Right", value: "bottom-right", default: true },
-                    { label: "Top Right", value: "top-right" },
-                ] satisfies Array<{ value: typeof settings["position"]; } & Record<string, any>>}
+                placeholder={NotificationOptions.position.description}
+                options={NotificationOptions.position.options}
                 select={v => settings.position = v}
                 isSelected={v => v === settings.position}
                 serialize={identity}
             />
 
-            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Notification Timeout</Forms.FormTitle>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>{NotificationOptions.timeout.description}</Forms.FormTitle>
             <Forms.FormText className={Margins.bottom16}>Set to 0s to never automatically time out</Forms.FormText>
             <Slider
                 disabled={settings.useNative === "always"}
-                markers={[0, 1000, 2500, 5000, 10_000, 20_000]}
+                markers={NotificationOptions.timeout.markers}
                 minValue={0}
                 maxValue={20_000}
                 initialValue={settings.timeout}
                 onValueChange={v => settings.timeout = v}
                 onValueRender={v => (v / 1000).toFixed(2) + "s"}
                 onMarkerRender={v => (v / 1000) + "s"}
-                stickToMarkers={false}
+                stickToMarkers={NotificationOptions.timeout.stickToMarkers}
             />
 
-            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>Notification Log Limit</Forms.FormTitle>
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>{NotificationOptions.maxVisible.description}</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom16}>
+                How many Vencord notifications can be stacked on screen at once. The rest wait until one is closed.
+            </Forms.FormText>
+            <Slider
+                disabled={settings.useNative === "always"}
+                markers={NotificationOptions.maxVisible.markers}
+                minValue={1}
+                maxValue={5}
+                stickToMarkers={NotificationOptions.maxVisible.stickToMarkers}
+                initialValue={settings.maxVisible}
+                onValueChange={v => settings.maxVisible = v}
+            />
+
+            <NotificationRulesSection />
+
+            <Forms.FormTitle tag="h5" className={Margins.top16 + " " + Margins.bottom8}>{NotificationOptions.logLimit.description}</Forms.FormTitle>
             <Forms.FormText className={Margins.bottom16}>
                 The amount of notifications to save in the log until old ones are removed.
                 Set to <code>0</code> to disable Notification log and <code>∞</code> to never automatically remove old Notifications
             </Forms.FormText>
             <Slider
-                markers={[0, 25, 50, 75, 100, 200]}
+                markers={NotificationOptions.logLimit.markers}
                 minValue={0}
                 maxValue={200}
-                stickToMarkers={true}
+                stickToMarkers={NotificationOptions.logLimit.stickToMarkers}
                 initialValue={settings.logLimit}
                 onValueChange={v => settings.logLimit = v}
                 onValueRender={v => v === 200 ? "∞" : v}
@@ -0,0 +1,128 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import type { Settings } from "@api/Settings";
+import { OptionType, PluginOptionSelect, PluginOptionSlider } from "@utils/types";
+
+type KeysOfType<Object, Type> = {
+    [K in keyof Object]: Object[K] extends Type ? K : never;
+}[keyof Object];
+
+export interface CoreSwitch {
+    key: KeysOfType<Settings, boolean>;
+    title: string;
+    note: string;
+}
+
+/**
+ * The switches of the Vencord tab that apply to the current platform
+ */
+export function getVencordSwitches() {
+    const isWindows = navigator.platform.toLowerCase().startsWith("win");
+
+    const switches: Array<false | CoreSwitch> = [
+        {
+            key: "useQuickCss",
+            title: "Enable Custom CSS",
+            note: "Loads your Custom CSS"
+        },
+        !IS_WEB && {
+            key: "enableReactDevtools",
+            title: "Enable React Developer Tools",
+            note: "Requires a full restart"
+        },
+        !IS_WEB && (!IS_DISCORD_DESKTOP || !isWindows ? {
+            key: "frameless",
+            title: "Disable the window frame",
+            note: "Requires a full restart"
+        } : {
+            key: "winNativeTitleBar",
+            title: "Use Windows' native title bar instead of Discord's custom one",
+            note: "Requires a full restart"
+        }),
+        !IS_WEB && {
+            key: "transparent",
+            title: "Enable window transparency.",
+            note: "You need a theme that supports transparency or this will do nothing. Will stop the window from being resizable. Requires a full restart"
+        },
+        !IS_WEB && isWindows && {
+            key: "winCtrlQ",
+            title: "Register Ctrl+Q as shortcut to close Discord (Alternative to Alt+F4)",
+            note: "Requires a full restart"
+        },
+        IS_DISCORD_DESKTOP && {
+            key: "disableMinSize",
+            title: "Disable minimum window size",
+            note: "Requires a full restart"
+        },
+    ];
+
+    return switches.filter(s => s !== false) as CoreSwitch[];
+}
+
+export const UpdaterSwitches = {
+    notifyAboutUpdates: {
+        key: "notifyAboutUpdates",
+        title: "Get notified about new updates",
+        note: "Shows a notification on startup"
+    },
+    autoUpdate: {
+        key: "autoUpdate",
+        title: "Automatically update",
+        note: "Automatically update Vencord without confirmation prompt"
+    },
+    autoUpdateNotification: {
+        key: "autoUpdateNotification",
+        title: "Get notified when an automatic update completes",
+        note: "Shows a notification when Vencord automatically updates"
+    }
+} satisfies Record<string, CoreSwitch>;
+
+type NotificationSettings = typeof Settings["notifications"];
+
+/**
+ * The options of the notification section, as plugin options so the settings search can render them
+ */
+export const NotificationOptions = {
+    useNative: {
+        type: OptionType.SELECT,
+        description: "Notification Style",
+        options: [
+            { label: "Only use Desktop notifications when Discord is not focused", value: "not-focused", default: true },
+            { label: "Always use Desktop notifications", value: "always" },
+            { label: "Always use Vencord notifications", value: "never" },
+        ] satisfies Array<{ value: NotificationSettings["useNative"]; } & Record<string, any>>
+    },
+    position: {
+        type: OptionType.SELECT,
+        description: "Notification Position",
+        options: [
+            { label: "Bottom Right", value: "bottom-right", default: true },
+            { label: "Top Right", value: "top-right" },
+        ] satisfies Array<{ value: NotificationSettings["position"]; } & Record<string, any>>
+    },
+    timeout: {
+        type: OptionType.SLIDER,
+        description: "Notification Timeout",
+        markers: [0, 1000, 2500, 5000, 10_000, 20_000],
+        default: 5000,
+        stickToMarkers: false
+    },
+    maxVisible: {
+        type: OptionType.SLIDER,
+        description: "Visible Notifications",
+        markers: [1, 2, 3, 4, 5],
+        default: 3,
+        stickToMarkers: true
+    },
+    logLimit: {
+        type: OptionType.SLIDER,
+        description: "Notification Log Limit",
+        markers: [0, 25, 50, 75, 100, 200],
+        default: 50,
+        stickToMarkers: true
+    }
+} satisfies { [K in keyof NotificationSettings]?: PluginOptionSelect | PluginOptionSlider; };
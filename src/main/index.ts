@@ -21,7 +21,7 @@ import { join } from "path";
 
 import { ensureSafePath } from "./ipcMain";
 import { RendererSettings } from "./settings";
-import { IS_VANILLA, THEMES_DIR } from "./utils/constants";
+import { IS_VANILLA, ONLINE_THEMES_DIR, THEMES_DIR } from "./utils/constants";
 import { installExt } from "./utils/extensions";
 
 if (IS_VESKTOP || !IS_VANILLA) {
@@ -31,9 +31,14 @@ if (IS_VESKTOP || !IS_VANILLA) {
         protocol.registerFileProtocol("vencord", ({ url: unsafeUrl }, cb) => {
             let url = unsafeUrl.slice("vencord://".length);
             if (url.endsWith("/")) url = url.slice(0, -1);
-            if (url.startsWith("/themes/")) {
-                const theme = url.slice("/themes/".length);
-                const safeUrl = ensureSafePath(THEMES_DIR, theme);
+            const themesDir = url.startsWith("/themes/")
+                ? THEMES_DIR
+                : url.startsWith("/online-themes/")
+                    ? ONLINE_THEMES_DIR
+                    : null;
+            if (themesDir) {
+                const theme = url.slice(url.indexOf("/", 1) + 1);
+                const safeUrl = ensureSafePath(themesDir, theme);
                 if (!safeUrl) {
                     cb({ statusCode: 403 });
                     return;
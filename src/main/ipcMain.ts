@@ -22,18 +22,30 @@ import "./settings";
 
 import { debounce } from "@shared/debounce";
 import { IpcEvents } from "@shared/IpcEvents";
+import { SNIPPET_NAME_REGEX } from "@shared/snippets";
+import type { CssDiagnostic } from "@utils/cssLint";
 import { BrowserWindow, ipcMain, shell, systemPreferences } from "electron";
-import { FSWatcher, mkdirSync, watch, writeFileSync } from "fs";
-import { open, readdir, readFile } from "fs/promises";
+import { existsSync, FSWatcher, mkdirSync, watch, writeFileSync } from "fs";
+import { open, readdir, readFile, rename, rm, writeFile } from "fs/promises";
 import { join, normalize } from "path";
 
 import monacoHtml from "~fileContent/monacoWin.html;base64";
 
+import { addOnlineThemesListener } from "./onlineThemes";
 import { getThemeInfo, stripBOM, UserThemeHeader } from "./themes";
-import { ALLOWED_PROTOCOLS, QUICKCSS_PATH, THEMES_DIR } from "./utils/constants";
+import { ALLOWED_PROTOCOLS, QUICKCSS_PATH, SNIPPETS_DIR, THEMES_DIR } from "./utils/constants";
 import { makeLinksOpenExternally } from "./utils/externalLinks";
 
+/**
+ * A named part of QuickCSS that can be turned off on its own. Stored as `<name>.css` in {@link SNIPPETS_DIR}
+ */
+export interface Snippet {
+    name: string;
+    css: string;
+}
+
 mkdirSync(THEMES_DIR, { recursive: true });
+mkdirSync(SNIPPETS_DIR, { recursive: true });
 
 export function ensureSafePath(basePath: string, path: string) {
     const normalizedBasePath = normalize(basePath);
@@ -46,6 +58,35 @@ function readCss() {
     return readFile(QUICKCSS_PATH, "utf-8").catch(() => "");
 }
 
+function getSnippetPath(name: string) {
+    if (!SNIPPET_NAME_REGEX.test(name)) throw `Invalid snippet name ${name}`;
+    return join(SNIPPETS_DIR, `${name}.css`);
+}
+
+async function listSnippets(): Promise<Snippet[]> {
+    const files = await readdir(SNIPPETS_DIR).catch(() => []);
+
+    const snippets = [] as Snippet[];
+    for (const fileName of files.sort()) {
+        const name = fileName.replace(/\.css$/, "");
+        if (name === fileName || !SNIPPET_NAME_REGEX.test(name)) continue;
+
+        const css = await readFile(join(SNIPPETS_DIR, fileName), "utf-8").catch(() => null);
+        if (css != null) snippets.push({ name, css });
+    }
+
+    return snippets;
+}
+
+async function renameSnippet(name: string, newName: string) {
+    const newPath = getSnippetPath(newName);
+    // Only changing the case is fine, even if the file system thinks it's the same file
+    if (name.toLowerCase() !== newName.toLowerCase() && existsSync(newPath))
+        throw `A snippet named ${newName} already exists`;
+
+    await rename(getSnippetPath(name), newPath);
+}
+
 async function listThemes(): Promise<UserThemeHeader[]> {
     const files = await readdir(THEMES_DIR).catch(() => []);
 
@@ -90,6 +131,11 @@ ipcMain.handle(IpcEvents.SET_QUICK_CSS, (_, css) =>
     writeFileSync(QUICKCSS_PATH, css)
 );
 
+ipcMain.handle(IpcEvents.GET_SNIPPETS, () => listSnippets());
+ipcMain.handle(IpcEvents.SET_SNIPPET, (_, name: string, css: string) => writeFile(getSnippetPath(name), css));
+ipcMain.handle(IpcEvents.DELETE_SNIPPET, (_, name: string) => rm(getSnippetPath(name), { force: true }));
+ipcMain.handle(IpcEvents.RENAME_SNIPPET, (_, name: string, newName: string) => renameSnippet(name, newName));
+
 ipcMain.handle(IpcEvents.GET_THEMES_DIR, () => THEMES_DIR);
 ipcMain.handle(IpcEvents.GET_THEMES_LIST, () => listThemes());
 ipcMain.handle(IpcEvents.GET_THEME_DATA, (_, fileName) => getThemeData(fileName));
@@ -109,26 +155,53 @@ export function initIpc(mainWindow: BrowserWindow) {
         }, 50));
     }).catch(() => { });
 
+    const snippetsWatcher = watch(SNIPPETS_DIR, { persistent: false }, debounce(async () => {
+        const snippets = await listSnippets();
+        mainWindow.webContents.postMessage(IpcEvents.SNIPPETS_UPDATE, snippets);
+        getQuickCssEditor()?.webContents.postMessage(IpcEvents.SNIPPETS_UPDATE, snippets);
+    }, 50));
+
     const themesWatcher = watch(THEMES_DIR, { persistent: false }, debounce(() => {
         mainWindow.webContents.postMessage(IpcEvents.THEME_UPDATE, void 0);
     }));
 
+    const removeOnlineThemesListener = addOnlineThemesListener(() => {
+        mainWindow.webContents.postMessage(IpcEvents.ONLINE_THEMES_UPDATE, void 0);
+    });
+
     mainWindow.once("closed", () => {
         quickCssWatcher?.close();
+        snippetsWatcher.close();
         themesWatcher.close();
+        removeOnlineThemesListener();
     });
 }
 
+const QUICK_CSS_EDITOR_TITLE = "Vencord QuickCSS Editor";
+
+function getQuickCssEditor() {
+    const win = BrowserWindow.getAllWindows().find(w => w.title === QUICK_CSS_EDITOR_TITLE);
+    return win && !win.isDestroyed() ? win : null;
+}
+
+// Diagnostics need the Discord window to check selectors and variables, so it lints and the editor shows them
+let quickCssDiagnostics: Record<string, CssDiagnostic[]> = {};
+
+ipcMain.handle(IpcEvents.GET_QUICK_CSS_DIAGNOSTICS, () => quickCssDiagnostics);
+ipcMain.handle(IpcEvents.SET_QUICK_CSS_DIAGNOSTICS, (_, diagnostics: Record<string, CssDiagnostic[]>) => {
+    quickCssDiagnostics = diagnostics;
+    getQuickCssEditor()?.webContents.send(IpcEvents.QUICK_CSS_DIAGNOSTICS_UPDATE, diagnostics);
+});
+
 ipcMain.handle(IpcEvents.OPEN_MONACO_EDITOR, async () => {
-    const title = "Vencord QuickCSS Editor";
-    const existingWindow = BrowserWindow.getAllWindows().find(w => w.title === title);
-    if (existingWindow && !existingWindow.isDestroyed()) {
+    const existingWindow = getQuickCssEditor();
+    if (existingWindow) {
         existingWindow.focus();
         return;
     }
 
     const win = new BrowserWindow({
-        title,
+        title: QUICK_CSS_EDITOR_TITLE,
         autoHideMenuBar: true,
         darkTheme: true,
         webPreferences: {
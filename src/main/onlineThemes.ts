@@ -0,0 +1,232 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { IpcEvents } from "@shared/IpcEvents";
+import { createHash } from "crypto";
+import { ipcMain } from "electron";
+import { existsSync, mkdirSync, readFileSync } from "fs";
+import { readFile, rm, writeFile } from "fs/promises";
+import http, { IncomingHttpHeaders } from "http";
+import https from "https";
+import { join } from "path";
+
+import { RendererSettings } from "./settings";
+import { DATA_DIR, ONLINE_THEMES_DIR } from "./utils/constants";
+
+/**
+ * An online theme from `Settings.themeLinks`. Once fetched, a copy is saved in {@link ONLINE_THEMES_DIR}
+ * and served as `vencord:///online-themes/<fileName>`, so it loads instantly and works offline
+ */
+export interface OnlineTheme {
+    fileName: string;
+    /** Whether a copy of the theme has been saved */
+    cached: boolean;
+    etag?: string;
+    lastModified?: string;
+    /** When the saved copy last changed */
+    updatedAt?: number;
+    /** When the link was last fetched successfully */
+    lastFetched?: number;
+    /** Why the last fetch failed. The saved copy, if any, is still used */
+    error?: string;
+}
+
+interface ThemeResponse {
+    /** The URL after following redirects */
+    url: string;
+    status: number;
+    headers: IncomingHttpHeaders;
+    body: string;
+}
+
+// Outside of the themes folder, which is served by the vencord protocol
+const INDEX_FILE = join(DATA_DIR, "onlineThemes.json");
+const CHECK_INTERVAL = 60 * 60 * 1000;
+const REQUEST_TIMEOUT = 15 * 1000;
+const MAX_REDIRECTS = 5;
+
+mkdirSync(ONLINE_THEMES_DIR, { recursive: true });
+
+const onlineThemes = readIndex();
+const pendingChecks = new Map<string, Promise<void>>();
+const listeners = new Set<() => void>();
+
+function readIndex(): Record<string, OnlineTheme> {
+    try {
+        const index: Record<string, OnlineTheme> = JSON.parse(readFileSync(INDEX_FILE, "utf-8"));
+        // The saved copies may have been deleted by hand
+        for (const theme of Object.values(index)) {
+            if (theme.cached && !existsSync(join(ONLINE_THEMES_DIR, theme.fileName)))
+                theme.cached = false;
+        }
+        return index;
+    } catch {
+        return {};
+    }
+}
+
+function saveIndex() {
+    return writeFile(INDEX_FILE, JSON.stringify(onlineThemes, null, 4))
+        .catch(err => console.error("[Vencord] Failed to save online themes", err));
+}
+
+function request(url: string, headers: Record<string, string>, redirects = MAX_REDIRECTS) {
+    return new Promise<ThemeResponse>((resolve, reject) => {
+        const { protocol } = new URL(url);
+        if (protocol !== "https:" && protocol !== "http:")
+            return void reject(`Unsupported protocol ${protocol}`);
+
+        const req = (protocol === "http:" ? http : https).get(url, { headers, timeout: REQUEST_TIMEOUT }, res => {
+            const { statusCode = 0, headers: resHeaders } = res;
+
+            if (statusCode >= 300 && statusCode < 400 && statusCode !== 304 && resHeaders.location) {
+                res.resume();
+                if (!redirects) return void reject("Too many redirects");
+                return void resolve(request(new URL(resHeaders.location, url).href, headers, redirects - 1));
+            }
+
+            const chunks = [] as Buffer[];
+            res.on("error", reject);
+
+            res.on("data", chunk => chunks.push(chunk));
+            res.once("end", () => resolve({
+                url,
+                status: statusCode,
+                headers: resHeaders,
+                body: Buffer.concat(chunks).toString("utf-8")
+            }));
+        });
+
+        req.once("timeout", () => req.destroy(new Error("Timed out")));
+        req.once("error", reject);
+    });
+}
+
+// url(...) and @import "..."
+const URL_REGEX = /\burl\(\s*(["']?)([^"')]*)\1\s*\)|(@import\s+)(["'])([^"']*)\4/gi;
+
+/**
+ * Make relative URLs in a theme absolute. The saved copy is served from the vencord protocol,
+ * so they would no longer point to the host of the theme
+ */
+function resolveRelativeUrls(css: string, baseUrl: string) {
+    const resolve = (ref: string) => {
+        // Absolute URLs, fragments used by SVG filters and anything that isn't a plain URL, like var()
+        if (!ref || /^[a-z][\w+.-]*:|^#|[()\s]/i.test(ref)) return ref;
+        try {
+            return new URL(ref, baseUrl).href;
+        } catch {
+            return ref;
+        }
+    };
+
+    return css.replace(URL_REGEX, (_, quote, ref, importPrefix, importQuote, importRef) =>
+        importPrefix
+            ? `${importPrefix}${importQuote}${resolve(importRef)}${importQuote}`
+            : `url(${quote}${resolve(ref)}${quote})`
+    );
+}
+
+async function checkTheme(link: string) {
+    const theme = onlineThemes[link] ??= {
+        fileName: `${createHash("sha1").update(link).digest("hex")}.css`,
+        cached: false
+    };
+
+    try {
+        const headers: Record<string, string> = {};
+        if (theme.cached) {
+            if (theme.etag) headers["If-None-Match"] = theme.etag;
+            if (theme.lastModified) headers["If-Modified-Since"] = theme.lastModified;
+        }
+
+        const res = await request(link, headers);
+        if (res.status !== 304) {
+            if (res.status >= 400) throw `${res.status} ${http.STATUS_CODES[res.status] ?? ""}`.trim();
+
+            const contentType = res.headers["content-type"];
+            if (!contentType?.startsWith("text/css") && !contentType?.startsWith("text/plain"))
+                throw "Not a CSS file. Remember to use the raw link!";
+
+            const data = resolveRelativeUrls(res.body, res.url);
+
+            // Not all hosts support conditional requests, so only count it as an update if the theme changed
+            const path = join(ONLINE_THEMES_DIR, theme.fileName);
+            const oldData = theme.cached ? await readFile(path, "utf-8").catch(() => null) : null;
+            if (oldData !== data) {
+                await writeFile(path, data);
+                theme.cached = true;
+                theme.updatedAt = Date.now();
+            }
+
+            theme.etag = res.headers.etag;
+            theme.lastModified = res.headers["last-modified"];
+        }
+
+        theme.lastFetched = Date.now();
+        delete theme.error;
+    } catch (err) {
+        theme.error = err instanceof Error ? err.message : String(err);
+    }
+}
+
+/**
+ * Check the given links for updates, and save those that weren't saved yet
+ */
+async function checkThemes(links: string[]) {
+    await Promise.all(links.map(link => {
+        let check = pendingChecks.get(link);
+        if (!check) {
+            check = checkTheme(link).finally(() => pendingChecks.delete(link));
+            pendingChecks.set(link, check);
+        }
+        return check;
+    }));
+
+    await saveIndex();
+    listeners.forEach(cb => cb());
+}
+
+function getThemeLinks(): string[] {
+    return RendererSettings.store.themeLinks ?? [];
+}
+
+/**
+ * Delete the saved copies of themes that were removed
+ */
+function pruneThemes(links: string[]) {
+    for (const [link, { fileName }] of Object.entries(onlineThemes)) {
+        if (links.includes(link)) continue;
+
+        delete onlineThemes[link];
+        rm(join(ONLINE_THEMES_DIR, fileName), { force: true }).catch(() => { });
+    }
+}
+
+function onThemeLinksChange(links: string[] = []) {
+    pruneThemes(links);
+    checkThemes(links.filter(link => !onlineThemes[link]?.cached));
+}
+
+export function addOnlineThemesListener(cb: () => void) {
+    listeners.add(cb);
+    return () => void listeners.delete(cb);
+}
+
+RendererSettings.addChangeListener("themeLinks", onThemeLinksChange);
+
+pruneThemes(getThemeLinks());
+checkThemes(getThemeLinks());
+setInterval(() => checkThemes(getThemeLinks()), CHECK_INTERVAL);
+
+ipcMain.handle(IpcEvents.GET_ONLINE_THEMES, () => onlineThemes);
+ipcMain.handle(IpcEvents.GET_ONLINE_THEME_DATA, (_, link: string) => {
+    const theme = onlineThemes[link];
+    if (!theme?.cached) return undefined;
+
+    return readFile(join(ONLINE_THEMES_DIR, theme.fileName), "utf-8").catch(() => undefined);
+});
+ipcMain.handle(IpcEvents.CHECK_ONLINE_THEMES, () => checkThemes(getThemeLinks()).then(() => onlineThemes));
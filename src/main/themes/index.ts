@@ -18,6 +18,10 @@
  * limitations under the License.
  */
 
+import { parseThemeVariable, ThemeVariable } from "./variables";
+
+export type { ThemeVariable };
+
 const splitRegex = /[^\S\r\n]*?\r?(?:\r\n|\n)[^\S\r\n]*?\*[^\S\r\n]?/;
 const escapedAtRegex = /^\\@/;
 
@@ -31,6 +35,8 @@ export interface UserThemeHeader {
     source?: string;
     website?: string;
     invite?: string;
+    /** Settings declared with `@var`, see {@link ThemeVariable} */
+    vars: ThemeVariable[];
 }
 
 function makeHeader(fileName: string, opts: Partial<UserThemeHeader> = {}): UserThemeHeader {
@@ -43,7 +49,8 @@ function makeHeader(fileName: string, opts: Partial<UserThemeHeader> = {}): User
         license: opts.license,
         source: opts.source,
         website: opts.website,
-        invite: opts.invite
+        invite: opts.invite,
+        vars: opts.vars ?? []
     };
 }
 
@@ -61,12 +68,24 @@ export function getThemeInfo(css: string, fileName: string): UserThemeHeader {
     if (!block) return makeHeader(fileName);
 
     const header: Partial<UserThemeHeader> = {};
+    const vars: ThemeVariable[] = [];
     let field = "";
     let accum = "";
+
+    // Unlike other fields, @var may be declared multiple times
+    const setField = () => {
+        if (field === "var") {
+            const variable = parseThemeVariable(accum);
+            if (variable) vars.push(variable);
+        } else {
+            header[field] = accum.trim();
+        }
+    };
+
     for (const line of block.split(splitRegex)) {
         if (line.length === 0) continue;
         if (line.charAt(0) === "@" && line.charAt(1) !== " ") {
-            header[field] = accum.trim();
+            setField();
             const l = line.indexOf(" ");
             field = line.substring(1, l);
             accum = line.substring(l + 1);
@@ -75,7 +94,8 @@ export function getThemeInfo(css: string, fileName: string): UserThemeHeader {
             accum += " " + line.replace("\\n", "\n").replace(escapedAtRegex, "@");
         }
     }
-    header[field] = accum.trim();
+    setField();
     delete header[""];
+    header.vars = vars;
     return makeHeader(fileName, header);
 }
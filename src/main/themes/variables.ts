@@ -0,0 +1,71 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/**
+ * A CSS custom property a theme lets users configure, declared in its header like
+ * ```css
+ * @var --accent color "Accent colour" #5865f2
+ * @var --radius range "Corner radius" 8px 0 24 1
+ * @var --layout select "Layout" cozy "compact,cozy,spacious"
+ * ```
+ */
+export type ThemeVariable = {
+    name: string;
+    label: string;
+    default: string;
+} & (
+        | { type: "color" | "text"; }
+        | {
+            type: "number" | "range";
+            /** The unit of the default value, like `px` */
+            unit: string;
+            min?: number;
+            max?: number;
+            step?: number;
+        }
+        | { type: "select"; options: string[]; }
+    );
+
+export const VARIABLE_NAME_REGEX = /^--[\w-]+$/;
+
+function parseNumber(value: string | undefined) {
+    const n = Number(value);
+    return value && !isNaN(n) ? n : undefined;
+}
+
+/**
+ * Parse the value of a `@var` header field
+ * @returns null if the declaration is invalid
+ */
+export function parseThemeVariable(declaration: string): ThemeVariable | null {
+    const tokens = Array.from(declaration.matchAll(/"([^"]*)"|(\S+)/g), m => m[1] ?? m[2]);
+    const [name, type, label = name, defaultValue = "", ...rest] = tokens;
+    if (!name || !VARIABLE_NAME_REGEX.test(name)) return null;
+
+    const base = { name, label, default: defaultValue };
+    switch (type) {
+        case "color":
+        case "text":
+            return { ...base, type };
+        case "number":
+        case "range":
+            return {
+                ...base,
+                type,
+                unit: defaultValue.replace(/^-?[\d.]+/, ""),
+                min: parseNumber(rest[0]),
+                max: parseNumber(rest[1]),
+                step: parseNumber(rest[2])
+            };
+        case "select": {
+            const options = rest[0]?.split(",").map(o => o.trim()).filter(Boolean) ?? [];
+            if (!options.includes(defaultValue)) options.unshift(defaultValue);
+            return { ...base, type, options };
+        }
+        default:
+            return null;
+    }
+}
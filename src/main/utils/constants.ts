@@ -26,7 +26,9 @@ export const DATA_DIR = process.env.VENCORD_USER_DATA_DIR ?? (
 );
 export const SETTINGS_DIR = join(DATA_DIR, "settings");
 export const THEMES_DIR = join(DATA_DIR, "themes");
+export const ONLINE_THEMES_DIR = join(DATA_DIR, "onlineThemes");
 export const QUICKCSS_PATH = join(SETTINGS_DIR, "quickCss.css");
+export const SNIPPETS_DIR = join(SETTINGS_DIR, "snippets");
 export const SETTINGS_FILE = join(SETTINGS_DIR, "settings.json");
 export const NATIVE_SETTINGS_FILE = join(SETTINGS_DIR, "native-settings.json");
 export const ALLOWED_PROTOCOLS = [
@@ -16,6 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { _setActiveCommand } from "@api/Commands";
 import { Devs } from "@utils/constants";
 import definePlugin from "@utils/types";
 
@@ -48,6 +49,15 @@ export default definePlugin({
                 replace: (_, cmd, args, ctx) => `,Vencord.Api.Commands._handleCommand(${cmd}, ${args}, ${ctx})`
             }
         },
+        // Answer autocomplete of Vencord commands locally instead of asking Discord's API
+        {
+            find: '"APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST"',
+            replacement: {
+                // dispatch({ type: "APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST", nonce, channelId, query, name });
+                match: /(?<=\.dispatch\()(\{type:"APPLICATION_COMMAND_AUTOCOMPLETE_REQUEST",[^}]+\})\);/,
+                replace: "$1);if(Vencord.Api.Commands._handleAutocomplete($1))return;"
+            }
+        },
         // Show plugin name instead of "Built-In"
         {
             find: ".source,children",
@@ -58,4 +68,10 @@ export default definePlugin({
             }
         }
     ],
+
+    flux: {
+        APPLICATION_COMMAND_SET_ACTIVE_COMMAND({ channelId, command }) {
+            _setActiveCommand(channelId, command);
+        }
+    }
 });
@@ -19,6 +19,7 @@
 import {
     addPreEditListener,
     addPreSendListener,
+    MessageEventPriority,
     MessageObject,
     removePreEditListener,
     removePreSendListener
@@ -136,10 +137,10 @@ export default definePlugin({
 
     start() {
         this.createRules();
-        this.preSend = addPreSendListener((_, msg) => this.onSend(msg));
-        this.preEdit = addPreEditListener((_cid, _mid, msg) =>
-            this.onSend(msg)
-        );
+        // Other listeners may turn links into something we can't clean anymore, like FakeNitro's emoji links
+        const options = { name: "ClearURLs", priority: MessageEventPriority.First };
+        this.preSend = addPreSendListener((_, msg) => this.onSend(msg), options);
+        this.preEdit = addPreEditListener((_cid, _mid, msg) => this.onSend(msg), options);
     },
 
     stop() {
@@ -0,0 +1,244 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ApplicationCommandInputType, ApplicationCommandOptionType, Argument, Command, CommandContext, CommandReturnValue, findCommand, getCommandOptions, registerCommand, runCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
+import * as DataStore from "@api/DataStore";
+import { sendMessage } from "@utils/discord";
+import { Logger } from "@utils/Logger";
+import { sleep } from "@utils/misc";
+
+export const DATA_KEY = "CommandAliases_data";
+
+// Stay well below Discord's rate limit of 5 messages per 5 seconds
+const STEP_DELAY = 1200;
+
+// Discord only accepts lowercase command names
+export const NAME_PATTERN = /^[\w-]{1,32}$/;
+export const isValidName = (name: string) => NAME_PATTERN.test(name) && name === name.toLowerCase();
+
+const logger = new Logger("CommandAliases");
+
+export interface CommandAlias {
+    name: string;
+    /** The full name of the command, like `tags preview` */
+    command: string;
+    /** Preset arguments in the same format as in macros, like `tag-name:hello` */
+    args: string;
+}
+
+export interface CommandMacro {
+    name: string;
+    description: string;
+    /** Each step is either a command starting with `/` or a message to send */
+    steps: string[];
+}
+
+export interface AliasData {
+    aliases: CommandAlias[];
+    macros: CommandMacro[];
+}
+
+export let data: AliasData = { aliases: [], macros: [] };
+const registered = new Set<string>();
+
+/**
+ * Parse arguments like `tag-name:hello message:some text` into arguments for a command's options
+ * @throws If the input doesn't start with one of the command's options
+ */
+export function parseArguments(cmd: Command, input: string): Argument[] {
+    input = input.trim();
+    if (!input) return [];
+
+    const options = getCommandOptions(cmd);
+    // Only split at option names, so values may contain colons
+    const parts = input.split(new RegExp(`(?:^|\\s+)(${options.map(o => o.name).join("|")}):`));
+    if (!options.length || parts[0])
+        throw new Error(`Invalid arguments "${input}" for the command "${cmd.name}"`);
+
+    const args = [] as Argument[];
+    for (let i = 1; i < parts.length; i += 2) {
+        const option = options.find(o => o.name === parts[i])!;
+        args.push({ name: option.name, type: option.type, value: parts[i + 1].trim(), focused: undefined, options: [] });
+    }
+
+    return args;
+}
+
+// Commands of bots are run by the bot, so they would have to be sent to it as an interaction
+const unknownCommandError = (step: string) =>
+    new Error(`Unknown command "${step.split(/\s+/, 1)[0]}". Only Discord's built-in and Vencord commands can be used, not those of bots`);
+
+/**
+ * Find the command of a step like `/tags preview tag-name:hello`.
+ * Sub-commands have spaces in their name, so the longest matching command wins
+ * @returns The command and the rest of the step, or null if there is no such command
+ */
+function findStepCommand(step: string) {
+    const words = step.slice(1).split(/\s+/);
+
+    for (let i = words.length; i > 0; i--) {
+        const cmd = findCommand(words.slice(0, i).join(" "));
+        if (cmd) return { cmd, input: words.slice(i).join(" ") };
+    }
+
+    return null;
+}
+
+/**
+ * Split a step like `/tags preview tag-name:hello` into the command and its arguments
+ * @throws If there is no such command or the arguments are invalid
+ */
+function parseCommandStep(step: string) {
+    const found = findStepCommand(step);
+    if (!found) throw unknownCommandError(step);
+
+    return { cmd: found.cmd, args: parseArguments(found.cmd, found.input) };
+}
+
+/**
+ * Check that the commands an alias or macro runs exist and that the preset arguments of an alias are valid.
+ * The arguments of macro steps depend on the values filled in, so they aren't checked
+ * @returns Why the alias or macro can't run, or null if it can
+ */
+export function getCommandError(entry: CommandAlias | CommandMacro) {
+    try {
+        if ("command" in entry) {
+            parseCommandStep(`/${entry.command} ${entry.args}`);
+        } else {
+            const step = entry.steps.find(s => s.startsWith("/") && !findStepCommand(s));
+            if (step) throw unknownCommandError(step);
+        }
+        return null;
+    } catch (e: any) {
+        return String(e.message);
+    }
+}
+
+function substitute(step: string, positional: string[], ctx: CommandContext, userId?: string) {
+    return step.replace(/\{(\d+|channel|user)\}/g, (_, key: string) => {
+        if (key === "channel") return `<#${ctx.channel.id}>`;
+        if (key === "user") return userId ? `<@${userId}>` : "";
+        return positional[Number(key) - 1] ?? "";
+    });
+}
+
+async function sendResult(ctx: CommandContext, res: void | CommandReturnValue) {
+    if (res?.content) await sendMessage(ctx.channel.id, { content: res.content });
+}
+
+async function runMacro(macro: CommandMacro, args: Argument[], ctx: CommandContext) {
+    const positional = args.find(a => a.name === "args")?.value.match(/"[^"]*"|\S+/g)?.map(a => a.replace(/^"|"$/g, "")) ?? [];
+    const userId = args.find(a => a.name === "user")?.value;
+
+    for (const [i, rawStep] of macro.steps.entries()) {
+        const step = substitute(rawStep, positional, ctx, userId).trim();
+        if (!step) continue;
+        if (i > 0) await sleep(STEP_DELAY);
+
+        try {
+            if (step.startsWith("/")) {
+                const { cmd, args } = parseCommandStep(step);
+                await sendResult(ctx, await runCommand(cmd, args, ctx));
+            } else {
+                await sendMessage(ctx.channel.id, { content: step });
+            }
+        } catch (e: any) {
+            logger.error(`Macro ${macro.name} failed at step ${i + 1}`, e);
+            sendBotMessage(ctx.channel.id, {
+                content: `Macro **${macro.name}** stopped at step ${i + 1}: ${e.message}`
+            });
+            return;
+        }
+    }
+}
+
+function registerAlias(alias: CommandAlias) {
+    const target = findCommand(alias.command);
+    const preset = new Set(alias.args.match(/[\w-]+(?=:)/g) ?? []);
+
+    registerCommand({
+        name: alias.name,
+        description: `Alias for /${alias.command}${alias.args && ` ${alias.args}`}`,
+        inputType: ApplicationCommandInputType.BUILT_IN_TEXT,
+        // Options with a preset value can't be passed again. Commands registered after this alias get none
+        options: target ? getCommandOptions(target).filter(o => !preset.has(o.name)) : [],
+        async execute(args, ctx) {
+            const cmd = findCommand(alias.command);
+            if (!cmd) {
+                sendBotMessage(ctx.channel.id, { content: `The command **/${alias.command}** doesn't exist (anymore).` });
+                return;
+            }
+
+            try {
+                return await runCommand(cmd, [...parseArguments(cmd, alias.args), ...args], ctx);
+            } catch (e: any) {
+                sendBotMessage(ctx.channel.id, { content: `Alias **${alias.name}** failed: ${e.message}` });
+            }
+        }
+    }, "CommandAliases");
+}
+
+function registerMacro(macro: CommandMacro) {
+    registerCommand({
+        name: macro.name,
+        description: macro.description || `Runs ${macro.steps.length} steps`,
+        inputType: ApplicationCommandInputType.BUILT_IN,
+        options: [
+            {
+                name: "args",
+                description: "Values for {1}, {2}, ... in the steps, separated by spaces",
+                type: ApplicationCommandOptionType.STRING,
+                required: false
+            },
+            {
+                name: "user",
+                description: "The user to use for {user}",
+                type: ApplicationCommandOptionType.USER,
+                required: false
+            }
+        ],
+        execute: (args, ctx) => void runMacro(macro, args, ctx)
+    }, "CommandAliases");
+}
+
+export function unregisterAll() {
+    for (const name of registered) unregisterCommand(name);
+    registered.clear();
+}
+
+function tryRegister<T extends { name: string; }>(item: T, register: (item: T) => void) {
+    // Unfinished entries from the settings
+    if (!isValidName(item.name)) return;
+
+    try {
+        register(item);
+        registered.add(item.name);
+    } catch (e) {
+        // Usually the name being taken by another command
+        logger.error(`Failed to register ${item.name}`, e);
+    }
+}
+
+/**
+ * Register commands for all aliases and macros, replacing the ones registered before
+ */
+export function registerAll() {
+    unregisterAll();
+
+    // Macros first, so aliases can target them
+    data.macros.forEach(m => tryRegister(m, registerMacro));
+    data.aliases.forEach(a => tryRegister(a, registerAlias));
+}
+
+export async function loadData() {
+    data = await DataStore.get<AliasData>(DATA_KEY) ?? { aliases: [], macros: [] };
+}
+
+export async function saveData(newData: AliasData) {
+    data = newData;
+    await DataStore.set(DATA_KEY, data);
+    registerAll();
+}
@@ -0,0 +1,193 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { ApplicationCommandInputType, ApplicationCommandOptionType, findCommand, findOption, Option, sendBotMessage } from "@api/Commands";
+import { definePluginSettings } from "@api/Settings";
+import { Devs } from "@utils/constants";
+import definePlugin, { OptionType } from "@utils/types";
+
+import { data, DATA_KEY, getCommandError, isValidName, loadData, NAME_PATTERN, registerAll, saveData, unregisterAll } from "./data";
+import { AliasesSettings } from "./settings";
+
+const settings = definePluginSettings({
+    aliases: {
+        type: OptionType.COMPONENT,
+        description: "",
+        component: () => <AliasesSettings />
+    }
+});
+
+const nameOption = (getNames?: () => string[]): Option => ({
+    name: "name",
+    description: "The name of the command to run it with",
+    type: ApplicationCommandOptionType.STRING,
+    required: true,
+    maxLength: 32,
+    pattern: NAME_PATTERN,
+    patternDescription: "a single lowercase word",
+    autocomplete: getNames && (query => getNames().filter(n => n.includes(query.toLowerCase())))
+});
+
+function addEntry<K extends keyof typeof data>(key: K, entry: typeof data[K][number], channelId: string) {
+    if (!isValidName(entry.name))
+        return sendBotMessage(channelId, { content: "Names must be a single lowercase word." });
+    if (findCommand(entry.name))
+        return sendBotMessage(channelId, { content: `A command with the name **/${entry.name}** already exists!` });
+
+    const error = getCommandError(entry);
+    if (error)
+        return sendBotMessage(channelId, { content: `Can't create **/${entry.name}**: ${error}` });
+
+    saveData({ ...data, [key]: [...data[key], entry] });
+    sendBotMessage(channelId, { content: `Successfully created **/${entry.name}**!` });
+}
+
+function removeEntry(key: keyof typeof data, name: string, channelId: string) {
+    const entries = data[key] as Array<{ name: string; }>;
+    if (!entries.some(e => e.name === name))
+        return sendBotMessage(channelId, { content: `**/${name}** does not exist!` });
+
+    saveData({ ...data, [key]: entries.filter(e => e.name !== name) });
+    sendBotMessage(channelId, { content: `Successfully removed **/${name}**!` });
+}
+
+export default definePlugin({
+    name: "CommandAliases",
+    description: "Create aliases for commands with preset arguments, and macros that run several commands and messages in a row",
+    authors: [Devs.Nobody],
+    dependencies: ["CommandsAPI"],
+    syncedDataStoreKeys: [DATA_KEY],
+    settings,
+
+    async start() {
+        await loadData();
+        registerAll();
+    },
+
+    stop() {
+        unregisterAll();
+    },
+
+    commands: [
+        {
+            name: "alias",
+            description: "Manage your command aliases and macros",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "command",
+                    description: "Manage command aliases",
+                    type: ApplicationCommandOptionType.SUB_COMMAND_GROUP,
+                    options: [
+                        {
+                            name: "add",
+                            description: "Create an alias for a command with preset arguments",
+                            type: ApplicationCommandOptionType.SUB_COMMAND,
+                            options: [
+                                nameOption(),
+                                {
+                                    name: "command",
+                                    description: "The full name of the command, like 'tags preview'",
+                                    type: ApplicationCommandOptionType.STRING,
+                                    required: true
+                                },
+                                {
+                                    name: "args",
+                                    description: "Preset arguments, like 'tag-name:rules'",
+                                    type: ApplicationCommandOptionType.STRING,
+                                    required: false
+                                }
+                            ]
+                        },
+                        {
+                            name: "remove",
+                            description: "Remove a command alias",
+                            type: ApplicationCommandOptionType.SUB_COMMAND,
+                            options: [nameOption(() => data.aliases.map(a => a.name))]
+                        }
+                    ]
+                },
+                {
+                    name: "macro",
+                    description: "Manage macros",
+                    type: ApplicationCommandOptionType.SUB_COMMAND_GROUP,
+                    options: [
+                        {
+                            name: "add",
+                            description: "Create a macro running several commands and messages in a row",
+                            type: ApplicationCommandOptionType.SUB_COMMAND,
+                            options: [
+                                nameOption(),
+                                {
+                                    name: "steps",
+                                    description: "Commands and messages separated by ';', like '/tags preview tag-name:{1}; Hi {user}'",
+                                    type: ApplicationCommandOptionType.STRING,
+                                    required: true
+                                },
+                                {
+                                    name: "description",
+                                    description: "Shown in the command list",
+                                    type: ApplicationCommandOptionType.STRING,
+                                    required: false
+                                }
+                            ]
+                        },
+                        {
+                            name: "remove",
+                            description: "Remove a macro",
+                            type: ApplicationCommandOptionType.SUB_COMMAND,
+                            options: [nameOption(() => data.macros.map(m => m.name))]
+                        }
+                    ]
+                },
+                {
+                    name: "list",
+                    description: "List all your aliases and macros",
+                    type: ApplicationCommandOptionType.SUB_COMMAND,
+                    options: []
+                }
+            ],
+
+            execute(args, ctx) {
+                const [group] = args;
+                const sub = group.options[0];
+                const name: string = sub && findOption(sub.options, "name", "");
+
+                switch (`${group.name} ${sub?.name ?? ""}`.trim()) {
+                    case "command add":
+                        return addEntry("aliases", {
+                            name,
+                            command: findOption<string>(sub.options, "command", "").trim().replace(/^\//, ""),
+                            args: findOption(sub.options, "args", "")
+                        }, ctx.channel.id);
+                    case "command remove":
+                        return removeEntry("aliases", name, ctx.channel.id);
+                    case "macro add":
+                        return addEntry("macros", {
+                            name,
+                            description: findOption(sub.options, "description", ""),
+                            steps: findOption<string>(sub.options, "steps", "").split(";").map(s => s.trim()).filter(Boolean)
+                        }, ctx.channel.id);
+                    case "macro remove":
+                        return removeEntry("macros", name, ctx.channel.id);
+                    case "list": {
+                        const aliases = data.aliases.map(a => `\`/${a.name}\`: /${a.command} ${a.args}`);
+                        const macros = data.macros.map(m => `\`/${m.name}\`: ${m.steps.join("; ").slice(0, 72)}`);
+
+                        sendBotMessage(ctx.channel.id, {
+                            content: [
+                                "**Aliases**",
+                                ...(aliases.length ? aliases : ["None yet, use `/alias command add` to create one"]),
+                                "**Macros**",
+                                ...(macros.length ? macros : ["None yet, use `/alias macro add` to create one"])
+                            ].join("\n")
+                        });
+                    }
+                }
+            }
+        }
+    ]
+});
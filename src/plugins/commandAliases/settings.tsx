@@ -0,0 +1,159 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Flex } from "@components/Flex";
+import { DeleteIcon } from "@components/Icons";
+import { Margins } from "@utils/margins";
+import { useForceUpdater } from "@utils/react";
+import { Button, Forms, React, TextArea, TextInput, useState } from "@webpack/common";
+
+import { AliasData, CommandAlias, CommandMacro, data, getCommandError, isValidName, saveData } from "./data";
+
+// Saves on blur instead of on every key stroke, as saving re-registers all commands
+function Input({ initialValue, onChange, placeholder }: {
+    placeholder: string;
+    initialValue: string;
+    onChange(value: string): void;
+}) {
+    const [value, setValue] = useState(initialValue);
+    return (
+        <TextInput
+            placeholder={placeholder}
+            value={value}
+            onChange={setValue}
+            spellCheck={false}
+            onBlur={() => value !== initialValue && onChange(value)}
+        />
+    );
+}
+
+function StepsInput({ initialValue, onChange }: {
+    initialValue: string[];
+    onChange(value: string[]): void;
+}) {
+    const [value, setValue] = useState(initialValue.join("\n"));
+    return (
+        <TextArea
+            placeholder={"One step per line, like\n/tags preview tag-name:{1}\nHello {user}!"}
+            value={value}
+            onChange={setValue}
+            spellCheck={false}
+            rows={4}
+            onBlur={() => {
+                const steps = value.split("\n").filter(s => s.trim());
+                if (steps.join("\n") !== initialValue.join("\n")) onChange(steps);
+            }}
+        />
+    );
+}
+
+function NameError({ name }: { name: string; }) {
+    if (!name || isValidName(name)) return null;
+
+    return (
+        <Forms.FormText style={{ color: "var(--text-danger)" }}>
+            Names must be lowercase and may only contain letters, numbers, - and _
+        </Forms.FormText>
+    );
+}
+
+function CommandError({ entry }: { entry: CommandAlias | CommandMacro; }) {
+    const isEmpty = "command" in entry ? !entry.command : !entry.steps.length;
+    const error = !isEmpty && getCommandError(entry);
+    if (!error) return null;
+
+    return (
+        <Forms.FormText style={{ color: "var(--text-danger)" }}>
+            {error}
+        </Forms.FormText>
+    );
+}
+
+function RemoveButton({ onClick }: { onClick(): void; }) {
+    return (
+        <Button
+            size={Button.Sizes.MIN}
+            onClick={onClick}
+            style={{ background: "none", color: "var(--status-danger)" }}
+        >
+            <DeleteIcon />
+        </Button>
+    );
+}
+
+export function AliasesSettings() {
+    const update = useForceUpdater();
+
+    async function save(newData: AliasData) {
+        await saveData(newData);
+        update();
+    }
+
+    function updateAlias(index: number, patch: Partial<CommandAlias>) {
+        save({ ...data, aliases: data.aliases.map((a, i) => i === index ? { ...a, ...patch } : a) });
+    }
+
+    function updateMacro(index: number, patch: Partial<CommandMacro>) {
+        save({ ...data, macros: data.macros.map((m, i) => i === index ? { ...m, ...patch } : m) });
+    }
+
+    return (
+        <>
+            <Forms.FormTitle tag="h4">Aliases</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Run a command with preset arguments, like <code>/tags preview</code> with <code>tag-name:rules</code>.
+            </Forms.FormText>
+            <Flex flexDirection="column" style={{ gap: "0.5em" }}>
+                {data.aliases.map((alias, i) => (
+                    <React.Fragment key={`${alias.name}-${i}`}>
+                        <Flex flexDirection="row" style={{ gap: "0.5em" }}>
+                            <Input placeholder="Name" initialValue={alias.name} onChange={name => updateAlias(i, { name })} />
+                            <Input placeholder="Command" initialValue={alias.command} onChange={command => updateAlias(i, { command: command.replace(/^\//, "") })} />
+                            <Input placeholder="Arguments" initialValue={alias.args} onChange={args => updateAlias(i, { args })} />
+                            <RemoveButton onClick={() => save({ ...data, aliases: data.aliases.filter((_, j) => j !== i) })} />
+                        </Flex>
+                        <NameError name={alias.name} />
+                        <CommandError entry={alias} />
+                    </React.Fragment>
+                ))}
+            </Flex>
+            <Button
+                size={Button.Sizes.SMALL}
+                className={Margins.top8 + " " + Margins.bottom20}
+                onClick={() => save({ ...data, aliases: [...data.aliases, { name: "", command: "", args: "" }] })}
+            >
+                Add Alias
+            </Button>
+
+            <Forms.FormTitle tag="h4">Macros</Forms.FormTitle>
+            <Forms.FormText className={Margins.bottom8}>
+                Run several commands and messages in a row. Steps can use <code>{"{1}"}</code>, <code>{"{2}"}</code>, ...
+                for the words passed in <code>args</code>, as well as <code>{"{user}"}</code> and <code>{"{channel}"}</code>.
+            </Forms.FormText>
+            <Flex flexDirection="column" style={{ gap: "1em" }}>
+                {data.macros.map((macro, i) => (
+                    <Flex key={`${macro.name}-${i}`} flexDirection="column" style={{ gap: "0.5em" }}>
+                        <Flex flexDirection="row" style={{ gap: "0.5em" }}>
+                            <Input placeholder="Name" initialValue={macro.name} onChange={name => updateMacro(i, { name })} />
+                            <Input placeholder="Description" initialValue={macro.description} onChange={description => updateMacro(i, { description })} />
+                            <RemoveButton onClick={() => save({ ...data, macros: data.macros.filter((_, j) => j !== i) })} />
+                        </Flex>
+                        <NameError name={macro.name} />
+                        <StepsInput initialValue={macro.steps} onChange={steps => updateMacro(i, { steps })} />
+                        <CommandError entry={macro} />
+                    </Flex>
+                ))}
+            </Flex>
+            <Button
+                size={Button.Sizes.SMALL}
+                className={Margins.top8}
+                onClick={() => save({ ...data, macros: [...data.macros, { name: "", description: "", steps: [] }] })}
+            >
+                Add Macro
+            </Button>
+        </>
+    );
+}
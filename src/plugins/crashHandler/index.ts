@@ -94,6 +94,7 @@ export default definePlugin({
                         showNotification({
                             color: "#eed202",
                             title: "Discord has crashed!",
+                            source: "CrashHandler",
                             body: "Awn :( Discord has crashed two times rapidly, not attempting to recover.",
                             noPersist: true
                         });
@@ -129,6 +130,7 @@ export default definePlugin({
             showNotification({
                 color: "#eed202",
                 title: "Discord has crashed!",
+                source: "CrashHandler",
                 body: "Attempting to recover...",
                 noPersist: true
             });
@@ -20,8 +20,9 @@ import { showNotification } from "@api/Notifications";
 import { definePluginSettings } from "@api/Settings";
 import { Devs } from "@utils/constants";
 import { Logger } from "@utils/Logger";
+import { describeConflict, getPatchConflicts } from "@utils/patchDiagnostics";
 import { canonicalizeMatch, canonicalizeReplace } from "@utils/patches";
-import definePlugin, { OptionType } from "@utils/types";
+import definePlugin, { OptionType, Patch, PatchReplacement } from "@utils/types";
 import { filters, findAll, search } from "@webpack";
 
 const PORT = 8485;
@@ -88,6 +89,20 @@ function parseNode(node: Node) {
     }
 }
 
+// Replacements of applied patches were already canonicalized when they were applied
+function applyPatches(src: string, patches: Patch[]) {
+    for (const patch of patches) {
+        if (patch.predicate && !patch.predicate()) continue;
+
+        for (const { match, replace, predicate } of patch.replacement as PatchReplacement[]) {
+            if (predicate && !predicate()) continue;
+            src = src.replace(match, replace as string);
+        }
+    }
+
+    return src;
+}
+
 function initWs(isManual = false) {
     let wasConnected = isManual;
     let hasErrored = false;
@@ -100,6 +115,7 @@ function initWs(isManual = false) {
 
         (settings.store.notifyOnAutoConnect || isManual) && showNotification({
             title: "Dev Companion Connected",
+            source: "DevCompanion",
             body: "Connected to WebSocket",
             noPersist: true
         });
@@ -114,6 +130,7 @@ function initWs(isManual = false) {
 
         showNotification({
             title: "Dev Companion Error",
+            source: "DevCompanion",
             body: (e as ErrorEvent).message || "No Error Message",
             color: "var(--status-danger, red)",
             noPersist: true,
@@ -127,6 +144,7 @@ function initWs(isManual = false) {
 
         showNotification({
             title: "Dev Companion Disconnected",
+            source: "DevCompanion",
             body: e.reason || "No Reason provided",
             color: "var(--status-danger, red)",
             noPersist: true,
@@ -141,9 +159,10 @@ function initWs(isManual = false) {
             return;
         }
 
-        function reply(error?: string) {
+        function reply(error?: string, replyData?: unknown) {
             const data = { nonce, ok: !error } as Record<string, unknown>;
             if (error) data.error = error;
+            if (replyData !== undefined) data.data = replyData;
 
             ws.send(JSON.stringify(data));
         }
@@ -166,6 +185,13 @@ function initWs(isManual = false) {
                     src = "0," + src;
                 }
 
+                // Applied patches with the same find are most likely an older version of the one being tested,
+                // which would always "prevent" it
+                const otherPatches = (mod.patches as Patch[] | undefined)?.filter(p => p.find !== find) ?? [];
+                // The module as it is with the patches of all other plugins applied
+                let patchedSrc = otherPatches.length ? applyPatches(src, otherPatches) : null;
+                const preventedBy = [] as number[];
+
                 let i = 0;
 
                 for (const { match, replace } of replacement) {
@@ -181,14 +207,34 @@ function initWs(isManual = false) {
                         Function(newSource);
 
                         src = newSource;
+
+                        if (patchedSrc != null) {
+                            const newPatchedSrc = patchedSrc.replace(matcher, replacement as string);
+                            if (newPatchedSrc === patchedSrc) preventedBy.push(i);
+                            patchedSrc = newPatchedSrc;
+                        }
                     } catch (err) {
                         return reply(`Replacement ${i} failed: ${err}`);
                     }
                 }
 
+                if (preventedBy.length) {
+                    const plugins = [...new Set(otherPatches.map(p => p.plugin))].join(", ");
+                    return reply(`Replacement ${preventedBy.join(", ")} works on the original module, but has no effect after patches by ${plugins} were applied`);
+                }
+
                 reply();
                 break;
             }
+            case "getPatchConflicts": {
+                const { plugin } = (data ?? {}) as { plugin?: string; };
+
+                reply(undefined, getPatchConflicts(plugin).map(c => ({
+                    ...c,
+                    message: describeConflict(c)
+                })));
+                break;
+            }
             case "testFind": {
                 const { type, args } = data as FindData;
                 try {
@@ -16,7 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { addPreEditListener, addPreSendListener, removePreEditListener, removePreSendListener } from "@api/MessageEvents";
+import { addPreEditListener, addPreSendListener, MessageEventPriority, removePreEditListener, removePreSendListener } from "@api/MessageEvents";
 import { definePluginSettings } from "@api/Settings";
 import { Devs } from "@utils/constants";
 import { ApngBlendOp, ApngDisposeOp, importApngJs } from "@utils/dependencies";
@@ -919,7 +919,7 @@ export default definePlugin({
             }
 
             return { cancel: false };
-        });
+        }, { name: "FakeNitro", priority: MessageEventPriority.Late });
 
         this.preEdit = addPreEditListener(async (channelId, __, messageObj) => {
             if (!s.enableEmojiBypass) return;
@@ -949,7 +949,7 @@ export default definePlugin({
             }
 
             return { cancel: false };
-        });
+        }, { name: "FakeNitro", priority: MessageEventPriority.Late });
     },
 
     stop() {
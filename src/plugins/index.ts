@@ -18,16 +18,21 @@
 
 import { registerCommand, unregisterCommand } from "@api/Commands";
 import { addContextMenuPatch, removeContextMenuPatch } from "@api/ContextMenu";
-import { Settings } from "@api/Settings";
+import { runSettingsMigrations, Settings } from "@api/Settings";
 import { Logger } from "@utils/Logger";
+import { registerPatch } from "@utils/patchDiagnostics";
+import { sortPatches } from "@utils/patches";
 import { Patch, Plugin, StartAt } from "@utils/types";
 import { FluxDispatcher } from "@webpack/common";
+import { applyPatchesAtRuntime, hasActivePatches, revertPatchesAtRuntime } from "@webpack/patcher";
 import { FluxEvents } from "@webpack/types";
 
 import Plugins from "~plugins";
 
 import { traceFunction } from "../debug/Tracer";
 
+export * as PatchDiagnostics from "@utils/patchDiagnostics";
+
 const logger = new Logger("PluginManager", "#a6d189");
 
 export const PMLogger = logger;
@@ -46,29 +51,105 @@ export function isPluginEnabled(p: string) {
 
 const pluginsValues = Object.values(Plugins);
 
-// First roundtrip to mark and force enable dependencies (only for enabled plugins)
-//
-// FIXME: might need to revisit this if there's ever nested (dependencies of dependencies) dependencies since this only
-// goes for the top level and their children, but for now this works okay with the current API plugins
-for (const p of pluginsValues) if (settings[p.name]?.enabled) {
-    p.dependencies?.forEach(d => {
-        const dep = Plugins[d];
-        if (dep) {
-            settings[d].enabled = true;
-            dep.isDependency = true;
-        }
-        else {
-            const error = new Error(`Plugin ${p.name} has unresolved dependency ${d}`);
-            if (IS_DEV)
-                throw error;
-            logger.warn(error);
+/**
+ * Plugins that can't be loaded because of a missing or circular dependency, mapped to the reason why
+ */
+export const pluginDependencyErrors = {} as Record<string, string>;
+/**
+ * Names of all plugins, sorted so that every plugin comes after all of its dependencies
+ */
+export const pluginLoadOrder = [] as string[];
+
+const startStageOrder = [StartAt.Init, StartAt.DOMContentLoaded, StartAt.WebpackReady];
+const startStages = {} as Record<string, StartAt>;
+
+// Depth first search over the dependency graph. Plugins are added to the load order once all their
+// dependencies have been, so the resulting order is a topological sort of the graph
+function resolveDependencies(name: string, visiting: string[]) {
+    if (name in startStages) return;
+
+    if (visiting.includes(name)) {
+        const cycle = [...visiting.slice(visiting.indexOf(name)), name];
+        const error = `Circular dependency: ${cycle.join(" -> ")}`;
+        for (const p of cycle) pluginDependencyErrors[p] ??= error;
+        return;
+    }
+
+    const p = Plugins[name];
+    let startAt = p.startAt ?? StartAt.WebpackReady;
+
+    visiting.push(name);
+    for (const dep of p.dependencies ?? []) {
+        if (!Plugins[dep]) {
+            pluginDependencyErrors[name] ??= `Unresolved dependency ${dep}`;
+            continue;
+        }
+
+        resolveDependencies(dep, visiting);
+
+        if (dep in pluginDependencyErrors) {
+            pluginDependencyErrors[name] ??= `Dependency ${dep} can't be loaded: ${pluginDependencyErrors[dep]}`;
+            continue;
+        }
+
+        // A plugin can't be started before its dependencies, so it is delayed to the latest stage of any of them
+        const depStartAt = startStages[dep];
+        if (depStartAt && startStageOrder.indexOf(depStartAt) > startStageOrder.indexOf(startAt))
+            startAt = depStartAt;
+    }
+    visiting.pop();
+
+    startStages[name] = startAt;
+    pluginLoadOrder.push(name);
+}
+
+for (const p of pluginsValues)
+    resolveDependencies(p.name, []);
+
+for (const name in pluginDependencyErrors)
+    logger.error(`Plugin ${name} will not be loaded. ${pluginDependencyErrors[name]}`);
+
+/**
+ * Recompute which plugins are needed as dependencies of enabled plugins.
+ * Dependencies are only enabled at runtime and never written to settings, so that
+ * they are automatically disabled again once nothing enabled needs them anymore
+ */
+export function updateDependencyFlags() {
+    for (const p of pluginsValues)
+        p.isDependency = false;
+
+    // Walk the load order backwards, so dependents are always flagged before their own dependencies are checked
+    for (let i = pluginLoadOrder.length - 1; i >= 0; i--) {
+        const name = pluginLoadOrder[i];
+        if (name in pluginDependencyErrors || !isPluginEnabled(name)) continue;
+
+        for (const dep of Plugins[name].dependencies ?? [])
+            Plugins[dep].isDependency = true;
+    }
+}
+
+updateDependencyFlags();
+
+/**
+ * Get all direct and indirect dependencies of a plugin, in load order
+ */
+export function getDependenciesRecursive(name: string) {
+    const deps = new Set<string>();
+    const visit = (n: string) => Plugins[n].dependencies?.forEach(dep => {
+        if (!deps.has(dep) && Plugins[dep]) {
+            deps.add(dep);
+            visit(dep);
         }
     });
+    visit(name);
+
+    return pluginLoadOrder.filter(n => deps.has(n));
 }
 
 for (const p of pluginsValues) {
     if (p.settings) {
         p.settings.pluginName = p.name;
+        runSettingsMigrations(p.name, p.settings);
         p.options ??= {};
         for (const [name, def] of Object.entries(p.settings.def)) {
             const checks = p.settings.checks?.[name];
@@ -76,46 +157,111 @@ for (const p of pluginsValues) {
         }
     }
 
-    if (p.patches && isPluginEnabled(p.name)) {
+    if (p.patches) {
+        const enabled = isPluginEnabled(p.name) && !(p.name in pluginDependencyErrors);
         for (const patch of p.patches) {
             patch.plugin = p.name;
             if (!Array.isArray(patch.replacement))
                 patch.replacement = [patch.replacement];
+            if (!enabled) continue;
+
             patches.push(patch);
+            registerPatch(patch);
         }
     }
 }
+sortPatches(patches);
 
 export const startAllPlugins = traceFunction("startAllPlugins", function startAllPlugins(target: StartAt) {
     logger.info(`Starting plugins (stage ${target})`);
-    for (const name in Plugins)
-        if (isPluginEnabled(name)) {
-            const p = Plugins[name];
-
-            const startAt = p.startAt ?? StartAt.WebpackReady;
-            if (startAt !== target) continue;
+    for (const name of pluginLoadOrder)
+        if (isPluginEnabled(name) && !(name in pluginDependencyErrors)) {
+            if (startStages[name] !== target) continue;
 
             startPlugin(Plugins[name]);
         }
 });
 
+/**
+ * Apply the patches of a plugin that is being enabled without restarting
+ * @returns Whether a restart is needed, because some patches target modules that were already loaded
+ */
+export function applyPluginPatches(p: Plugin) {
+    if (!p.patches?.length || hasActivePatches(p.name)) return false;
+
+    const restartPatches = applyPatchesAtRuntime(p.patches);
+    if (restartPatches.length) {
+        logger.warn(`Enabling ${p.name} requires restart, because the following patches target modules that were already loaded:\n`, restartPatches.map(patch => patch.find).join("\n"));
+        return true;
+    }
+
+    logger.info(`Applied patches of ${p.name} without restart`);
+    return false;
+}
+
+/**
+ * Revert the patches of a plugin that is being disabled without restarting
+ * @returns Whether a restart is needed, because some patched modules were already loaded
+ */
+export function revertPluginPatches(p: Plugin) {
+    if (!p.patches?.length) return false;
+
+    const restartPatches = revertPatchesAtRuntime(p.name);
+    if (restartPatches.length) {
+        logger.warn(`Disabling ${p.name} requires restart, because the following patches were applied to modules that were already loaded:\n`, restartPatches.map(patch => patch.find).join("\n"));
+        return true;
+    }
+
+    logger.info(`Reverted patches of ${p.name} without restart`);
+    return false;
+}
+
 export function startDependenciesRecursive(p: Plugin) {
     let restartNeeded = false;
     const failures: string[] = [];
-    p.dependencies?.forEach(dep => {
-        if (!Settings.plugins[dep].enabled) {
-            startDependenciesRecursive(Plugins[dep]);
-            // If the plugin has patches, don't start the plugin, just enable it.
-            Settings.plugins[dep].enabled = true;
-            if (Plugins[dep].patches) {
-                logger.warn(`Enabling dependency ${dep} requires restart.`);
-                restartNeeded = true;
-                return;
-            }
-            const result = startPlugin(Plugins[dep]);
-            if (!result) failures.push(dep);
+    for (const dep of getDependenciesRecursive(p.name)) {
+        const wasEnabled = isPluginEnabled(dep);
+        Plugins[dep].isDependency = true;
+        if (wasEnabled) continue;
+
+        // If the patches of the plugin can't be applied right now, don't start the plugin, just enable it.
+        if (applyPluginPatches(Plugins[dep])) {
+            restartNeeded = true;
+            continue;
         }
-    });
+        // Still running because it was disabled while waiting for a restart
+        if (Plugins[dep].started) continue;
+
+        const result = startPlugin(Plugins[dep]);
+        if (!result) failures.push(dep);
+    }
+    return { restartNeeded, failures };
+}
+
+/**
+ * Stop all dependencies of a plugin that was just disabled, unless they are still needed by another enabled plugin.
+ * Dependents are stopped before their own dependencies
+ */
+export function stopDependenciesRecursive(p: Plugin) {
+    let restartNeeded = false;
+    const failures: string[] = [];
+
+    updateDependencyFlags();
+    for (const dep of getDependenciesRecursive(p.name).reverse()) {
+        const depPlugin = Plugins[dep];
+        if (isPluginEnabled(dep)) continue;
+
+        if (revertPluginPatches(depPlugin)) {
+            restartNeeded = true;
+            continue;
+        }
+
+        // Never started, so there is nothing to stop
+        if (depPlugin.start && !depPlugin.started) continue;
+
+        const result = stopPlugin(depPlugin);
+        if (!result) failures.push(dep);
+    }
     return { restartNeeded, failures };
 }
 
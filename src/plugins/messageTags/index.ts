@@ -16,7 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, registerCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, commands, findOption, registerCommand, sendBotMessage, unregisterCommand } from "@api/Commands";
 import * as DataStore from "@api/DataStore";
 import { Settings } from "@api/Settings";
 import { Devs } from "@utils/constants";
@@ -47,6 +47,11 @@ const removeTag = async (name: string) => {
     return tags;
 };
 
+// Every tag is registered as a command, so they are known without waiting for the DataStore
+const getTagNames = (query: string) => Object.values(commands)
+    .filter(c => c[MessageTagsMarker] && c.name.toLowerCase().includes(query.toLowerCase()))
+    .map(c => c.name);
+
 function createTagCommand(tag: Tag) {
     registerCommand({
         name: tag.name,
@@ -74,6 +79,7 @@ export default definePlugin({
     name: "MessageTags",
     description: "Allows you to save messages and to use them with a simple command.",
     authors: [Devs.Luna],
+    syncedDataStoreKeys: [DATA_KEY],
     options: {
         clyde: {
             name: "Clyde message on send",
@@ -103,7 +109,11 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            maxLength: 32,
+                            // Tags are commands, whose names can't contain spaces
+                            pattern: /^[\w-]+$/,
+                            patternDescription: "a single word"
                         },
                         {
                             name: "message",
@@ -128,7 +138,8 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            autocomplete: getTagNames
                         }
                     ]
                 },
@@ -141,7 +152,8 @@ export default definePlugin({
                             name: "tag-name",
                             description: "The name of the tag to trigger the response",
                             type: ApplicationCommandOptionType.STRING,
-                            required: true
+                            required: true,
+                            autocomplete: getTagNames
                         }
                     ]
                 }
@@ -6,6 +6,7 @@
 
 import * as DataStore from "@api/DataStore";
 import { Settings } from "@api/Settings";
+import { SettingsMigration } from "@utils/types";
 import { UserStore } from "@webpack/common";
 
 import { DEFAULT_COLOR } from "./constants";
@@ -23,6 +24,8 @@ const CATEGORY_BASE_KEY = "PinDMsCategories-";
 const CATEGORY_MIGRATED_PINDMS_KEY = "PinDMsMigratedPinDMs";
 const CATEGORY_MIGRATED_KEY = "PinDMsMigratedOldCategories";
 const OLD_CATEGORY_KEY = "BetterPinDMsCategories-";
+// Categories are stored per account
+export const CATEGORY_KEY_REGEX = new RegExp(`^${CATEGORY_BASE_KEY}\\d+$`);
 
 
 export let categories: Category[] = [];
@@ -33,9 +36,11 @@ export async function saveCats(cats: Category[]) {
 }
 
 export async function init() {
+    await settings.migrated;
+
     const id = UserStore.getCurrentUser()?.id;
     await initCategories(id);
-    await migrateData(id);
+    await migrateData();
     forceUpdate();
 }
 
@@ -198,22 +203,32 @@ async function migratePinDMs() {
     await DataStore.set(CATEGORY_MIGRATED_PINDMS_KEY, true);
 }
 
-async function migrateOldCategories(userId: string) {
-    const oldCats = await DataStore.get<Category[]>(OLD_CATEGORY_KEY + userId);
-    // dont want to migrate if the user has already has categories.
-    if (categories.length === 0 && oldCats?.length) {
-        categories.push(...(oldCats.filter(m => m.id !== "oldPins")));
-    }
-    await DataStore.set(CATEGORY_MIGRATED_KEY, true);
-}
-
-export async function migrateData(userId: string) {
-    const m1 = await DataStore.get(CATEGORY_MIGRATED_KEY), m2 = await DataStore.get(CATEGORY_MIGRATED_PINDMS_KEY);
-    if (m1 && m2) return;
-
-    // want to migrate the old categories first and then slove any conflicts with the PinDMs pins
-    if (!m1) await migrateOldCategories(userId);
-    if (!m2) await migratePinDMs();
+export async function migrateData() {
+    if (await DataStore.get(CATEGORY_MIGRATED_PINDMS_KEY)) return;
 
+    // the old categories were already migrated by the settings schema, so this only has to slove conflicts with the PinDMs pins
+    await migratePinDMs();
     await saveCats(categories);
 }
+
+export const migrations: SettingsMigration[] = [
+    {
+        // Categories used to be stored under the keys of BetterPinDMs
+        version: 1,
+        async dataStore() {
+            // Migrated before schemas existed
+            if (await DataStore.get(CATEGORY_MIGRATED_KEY))
+                return void await DataStore.del(CATEGORY_MIGRATED_KEY);
+
+            for (const key of await DataStore.keys()) {
+                if (typeof key !== "string" || !key.startsWith(OLD_CATEGORY_KEY)) continue;
+
+                const newKey = CATEGORY_BASE_KEY + key.slice(OLD_CATEGORY_KEY.length);
+                const [oldCats, cats] = await DataStore.getMany<Category[] | undefined>([key, newKey]);
+                // dont want to migrate if the user has already has categories.
+                if (!cats?.length && oldCats?.length)
+                    await DataStore.set(newKey, oldCats.filter(m => m.id !== "oldPins"));
+            }
+        }
+    }
+];
@@ -18,7 +18,7 @@ import { Channel } from "discord-types/general";
 import { contextMenus } from "./components/contextMenu";
 import { openCategoryModal, requireSettingsMenu } from "./components/CreateCategoryModal";
 import { DEFAULT_CHUNK_SIZE } from "./constants";
-import { canMoveCategory, canMoveCategoryInDirection, categories, Category, categoryLen, collapseCategory, getAllUncollapsedChannels, getSections, init, isPinned, moveCategory, removeCategory } from "./data";
+import { canMoveCategory, canMoveCategoryInDirection, categories, Category, CATEGORY_KEY_REGEX, categoryLen, collapseCategory, getAllUncollapsedChannels, getSections, init, isPinned, migrations, moveCategory, removeCategory } from "./data";
 
 interface ChannelComponentProps {
     children: React.ReactNode,
@@ -56,6 +56,9 @@ export const settings = definePluginSettings({
         default: false,
         onChange: () => forceUpdate()
     }
+}, {}, {
+    version: 1,
+    migrations
 });
 
 export default definePlugin({
@@ -64,6 +67,7 @@ export default definePlugin({
     authors: [Devs.Ven, Devs.Aria],
     settings,
     contextMenus,
+    syncedDataStoreKeys: [CATEGORY_KEY_REGEX],
 
     patches: [
         {
@@ -105,7 +105,10 @@ export function notify(text: string, icon?: string, onClick?: () => void) {
         title: "Relationship Notifier",
         body: text,
         icon,
-        onClick
+        onClick,
+        source: "RelationshipNotifier",
+        // Losing many friends or servers at once, like when getting banned, shouldn't flood the screen
+        groupKey: "RelationshipNotifier"
     });
 }
 
@@ -0,0 +1,207 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { classNameFactory } from "@api/Styles";
+import { Flex } from "@components/Flex";
+import { getTheme, Theme } from "@utils/discord";
+import { Margins } from "@utils/margins";
+import { ModalCloseButton, ModalContent, ModalFooter, ModalHeader, ModalProps, ModalRoot, ModalSize, openModal } from "@utils/modal";
+import { useForceUpdater } from "@utils/react";
+import { Button, ChannelStore, Forms, React, Text, TextArea, useEffect, UserStore, useState } from "@webpack/common";
+import { Channel, Message } from "discord-types/general";
+
+import { cancelScheduled, onQueueChange, queue, ScheduledMessage, scheduleMessage, sendScheduled, updateScheduled } from "./store";
+import { toDateTimeLocal } from "./time";
+
+const cl = classNameFactory("vc-scheduled-");
+
+export interface PendingReply {
+    message: Message;
+    channel: Channel;
+    shouldMention: boolean;
+}
+
+export function getReplyOptions(reply: PendingReply | undefined): Pick<ScheduledMessage, "messageReference" | "mentionRepliedUser"> {
+    if (!reply) return {};
+
+    return {
+        messageReference: {
+            guild_id: reply.channel.guild_id,
+            channel_id: reply.message.channel_id,
+            message_id: reply.message.id
+        },
+        mentionRepliedUser: reply.shouldMention
+    };
+}
+
+function getChannelName(channelId: string) {
+    const channel = ChannelStore.getChannel(channelId);
+    if (!channel) return "Unknown channel";
+    if (channel.name) return channel.guild_id ? `#${channel.name}` : channel.name;
+
+    const recipient = UserStore.getUser(channel.recipients?.[0]);
+    return recipient ? `@${recipient.username}` : "Direct Message";
+}
+
+function DateTimeInput({ value, onChange }: { value: number; onChange(value: number): void; }) {
+    return (
+        <input
+            type="datetime-local"
+            className={cl("time")}
+            value={toDateTimeLocal(value)}
+            min={toDateTimeLocal(Date.now())}
+            onChange={e => {
+                const time = new Date(e.currentTarget.value).getTime();
+                if (!isNaN(time)) onChange(time);
+            }}
+            style={{ colorScheme: getTheme() === Theme.Light ? "light" : "dark" }}
+        />
+    );
+}
+
+function ScheduleModal({ rootProps, channelId, initialContent, reply, onScheduled }: {
+    rootProps: ModalProps;
+    channelId: string;
+    initialContent: string;
+    reply?: PendingReply;
+    onScheduled(): void;
+}) {
+    const [content, setContent] = useState(initialContent);
+    const [sendAt, setSendAt] = useState(() => Date.now() + 60 * 60 * 1000);
+
+    const isPast = sendAt <= Date.now();
+
+    async function schedule() {
+        await scheduleMessage({
+            channelId,
+            content,
+            sendAt,
+            ...getReplyOptions(reply)
+        });
+        onScheduled();
+        rootProps.onClose();
+    }
+
+    return (
+        <ModalRoot {...rootProps}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Schedule Message</Text>
+                <ModalCloseButton onClick={rootProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("modal-content")}>
+                <Forms.FormTitle className={Margins.top16}>Message to {getChannelName(channelId)}</Forms.FormTitle>
+                {reply && (
+                    <Forms.FormText className={Margins.bottom8}>
+                        Replying to {reply.message.author.username}
+                    </Forms.FormText>
+                )}
+                <TextArea value={content} onChange={setContent} rows={4} />
+
+                <Forms.FormTitle className={Margins.top16}>Send At</Forms.FormTitle>
+                <DateTimeInput value={sendAt} onChange={setSendAt} />
+                {isPast && (
+                    <Forms.FormText className={cl("error")}>This time is in the past</Forms.FormText>
+                )}
+            </ModalContent>
+
+            <ModalFooter>
+                <Button disabled={!content.trim() || isPast} onClick={schedule}>Schedule</Button>
+                <Button look={Button.Looks.LINK} color={Button.Colors.PRIMARY} onClick={openQueueModal}>
+                    View Queue
+                </Button>
+            </ModalFooter>
+        </ModalRoot>
+    );
+}
+
+function QueueEntry({ message }: { message: ScheduledMessage; }) {
+    const [editing, setEditing] = useState(false);
+    const [content, setContent] = useState(message.content);
+    const [sendAt, setSendAt] = useState(message.sendAt);
+
+    const status = message.error
+        ? `Failed: ${message.error}`
+        : message.missed
+            ? "Missed while Discord was closed"
+            : null;
+
+    return (
+        <div className={cl("entry")}>
+            <Flex className={cl("entry-header")}>
+                <Forms.FormTitle tag="h5" className={cl("entry-title")}>
+                    {getChannelName(message.channelId)}
+                    {message.messageReference && " (reply)"}
+                </Forms.FormTitle>
+                <Forms.FormText>{new Date(message.sendAt).toLocaleString()}</Forms.FormText>
+            </Flex>
+            {status && <Forms.FormText className={cl("error")}>{status}</Forms.FormText>}
+
+            {editing
+                ? (
+                    <>
+                        <TextArea value={content} onChange={setContent} rows={3} />
+                        <DateTimeInput value={sendAt} onChange={setSendAt} />
+                    </>
+                )
+                : <Forms.FormText className={cl("entry-content")}>{message.content}</Forms.FormText>
+            }
+
+            <Flex className={cl("entry-buttons")}>
+                {editing
+                    ? (
+                        <Button
+                            size={Button.Sizes.SMALL}
+                            disabled={!content.trim() || sendAt <= Date.now()}
+                            onClick={() => {
+                                updateScheduled(message.id, { content, sendAt });
+                                setEditing(false);
+                            }}
+                        >
+                            Save
+                        </Button>
+                    )
+                    : <Button size={Button.Sizes.SMALL} onClick={() => setEditing(true)}>Edit</Button>
+                }
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.GREEN} onClick={() => sendScheduled(message)}>
+                    Send Now
+                </Button>
+                <Button size={Button.Sizes.SMALL} color={Button.Colors.RED} onClick={() => cancelScheduled(message.id)}>
+                    Cancel
+                </Button>
+            </Flex>
+        </div>
+    );
+}
+
+function QueueModal({ rootProps }: { rootProps: ModalProps; }) {
+    const update = useForceUpdater();
+    useEffect(() => onQueueChange(update), []);
+
+    return (
+        <ModalRoot {...rootProps} size={ModalSize.MEDIUM}>
+            <ModalHeader>
+                <Text variant="heading-lg/semibold" style={{ flexGrow: 1 }}>Scheduled Messages</Text>
+                <ModalCloseButton onClick={rootProps.onClose} />
+            </ModalHeader>
+
+            <ModalContent className={cl("modal-content")}>
+                {queue.length
+                    ? queue.map(m => <QueueEntry key={`${m.id}-${m.sendAt}`} message={m} />)
+                    : <Forms.FormText className={Margins.top16}>No scheduled messages. Use the clock button in the chat bar or /schedule to schedule one.</Forms.FormText>
+                }
+            </ModalContent>
+        </ModalRoot>
+    );
+}
+
+export function openScheduleModal(props: Omit<React.ComponentProps<typeof ScheduleModal>, "rootProps">) {
+    openModal(rootProps => <ScheduleModal rootProps={rootProps} {...props} />);
+}
+
+export function openQueueModal() {
+    openModal(rootProps => <QueueModal rootProps={rootProps} />);
+}
@@ -0,0 +1,135 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import "./styles.css";
+
+import { addChatBarButton, ChatBarButton, removeChatBarButton } from "@api/ChatButtons";
+import { ApplicationCommandInputType, ApplicationCommandOptionType, findOption, sendBotMessage } from "@api/Commands";
+import { Devs } from "@utils/constants";
+import definePlugin from "@utils/types";
+import { findStoreLazy } from "@webpack";
+import { ComponentDispatch, DraftStore, DraftType, FluxDispatcher } from "@webpack/common";
+
+import { getReplyOptions, openQueueModal, openScheduleModal, PendingReply } from "./components";
+import { settings } from "./settings";
+import { queue, scheduleMessage, sendDue, startScheduler, stopScheduler } from "./store";
+import { parseScheduleTime } from "./time";
+
+const PendingReplyStore = findStoreLazy("PendingReplyStore");
+
+const getPendingReply = (channelId: string): PendingReply | undefined => PendingReplyStore.getPendingReply(channelId);
+
+function clearPendingReply(channelId: string) {
+    FluxDispatcher.dispatch({ type: "DELETE_PENDING_REPLY", channelId });
+}
+
+const ScheduleButton: ChatBarButton = ({ isMainChat, channel }) => {
+    if (!isMainChat) return null;
+
+    return (
+        <ChatBarButton
+            tooltip="Send Later (Right click to view queue)"
+            onClick={() => openScheduleModal({
+                channelId: channel.id,
+                initialContent: DraftStore.getDraft(channel.id, DraftType.ChannelMessage) ?? "",
+                reply: getPendingReply(channel.id),
+                onScheduled() {
+                    ComponentDispatch.dispatchToLastSubscribed("CLEAR_TEXT");
+                    clearPendingReply(channel.id);
+                }
+            })}
+            onContextMenu={openQueueModal}
+            buttonProps={{ "aria-haspopup": "dialog" }}
+        >
+            <svg aria-hidden="true" role="img" width="24" height="24" viewBox="0 0 24 24">
+                <path fill="currentColor" d="M12 2a10 10 0 1 0 0 20 10 10 0 0 0 0-20Zm0 18a8 8 0 1 1 0-16 8 8 0 0 1 0 16Zm.5-13H11v6l5.25 3.15.75-1.23-4.5-2.67V7Z" />
+            </svg>
+        </ChatBarButton>
+    );
+};
+
+export default definePlugin({
+    name: "ScheduledMessages",
+    description: "Schedule messages to be sent later, from the chat bar or with /schedule",
+    authors: [Devs.Nobody],
+    dependencies: ["ChatInputButtonAPI", "CommandsAPI"],
+
+    settings,
+
+    flux: {
+        CONNECTION_OPEN: sendDue
+    },
+
+    start() {
+        addChatBarButton("ScheduledMessages", ScheduleButton);
+        startScheduler();
+    },
+
+    stop() {
+        removeChatBarButton("ScheduledMessages");
+        stopScheduler();
+    },
+
+    commands: [
+        {
+            name: "schedule",
+            description: "Send a message later",
+            inputType: ApplicationCommandInputType.BUILT_IN,
+            options: [
+                {
+                    name: "message",
+                    description: "Schedule a message in this channel",
+                    type: ApplicationCommandOptionType.SUB_COMMAND,
+                    options: [
+                        {
+                            name: "time",
+                            description: "When to send it, like 'in 2h', '14:30' or '2024-05-01 09:00'",
+                            type: ApplicationCommandOptionType.STRING,
+                            required: true
+                        },
+                        {
+                            name: "content",
+                            description: "The message to send",
+                            type: ApplicationCommandOptionType.STRING,
+                            required: true
+                        }
+                    ]
+                },
+                {
+                    name: "queue",
+                    description: "View, edit and cancel your scheduled messages",
+                    type: ApplicationCommandOptionType.SUB_COMMAND,
+                    options: []
+                }
+            ],
+
+            async execute([sub], ctx) {
+                if (sub.name === "queue") return openQueueModal();
+
+                const time = findOption<string>(sub.options, "time", "");
+                const sendAt = parseScheduleTime(time);
+                if (!sendAt || sendAt <= Date.now()) {
+                    return sendBotMessage(ctx.channel.id, {
+                        content: `Couldn't understand **${time}** as a time in the future. Try something like \`in 2h\`, \`14:30\` or \`2024-05-01 09:00\`.`
+                    });
+                }
+
+                const reply = getPendingReply(ctx.channel.id);
+                await scheduleMessage({
+                    channelId: ctx.channel.id,
+                    content: findOption(sub.options, "content", ""),
+                    sendAt,
+                    ...getReplyOptions(reply)
+                });
+                if (reply) clearPendingReply(ctx.channel.id);
+
+                sendBotMessage(ctx.channel.id, {
+                    content: `Your message will be sent <t:${Math.round(sendAt / 1000)}:R>. You have ${queue.length} scheduled messages.`
+                });
+            }
+        }
+    ]
+});
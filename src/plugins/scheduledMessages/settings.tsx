@@ -0,0 +1,28 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { definePluginSettings } from "@api/Settings";
+import { OptionType } from "@utils/types";
+import { Button } from "@webpack/common";
+
+import { openQueueModal } from "./components";
+
+export const settings = definePluginSettings({
+    missedMessages: {
+        type: OptionType.SELECT,
+        description: "What to do with messages that were due while Discord was closed",
+        options: [
+            { label: "Send them right away", value: "send", default: true },
+            { label: "Keep them in the queue until I send or cancel them", value: "keep" },
+            { label: "Discard them", value: "discard" }
+        ]
+    },
+    queue: {
+        type: OptionType.COMPONENT,
+        description: "",
+        component: () => <Button onClick={openQueueModal}>View Scheduled Messages</Button>
+    }
+});
@@ -0,0 +1,176 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { showNotification } from "@api/Notifications";
+import { sendMessage } from "@utils/discord";
+import { Logger } from "@utils/Logger";
+import { ChannelStore, UserStore } from "@webpack/common";
+import { Message } from "discord-types/general";
+
+import { openQueueModal } from "./components";
+import { settings } from "./settings";
+
+// Not synced, as every device running at the same time would send the messages
+const DATA_KEY = "ScheduledMessages_queue";
+
+// setTimeout overflows for delays above ~24.8 days, so long schedules are checked again later
+const MAX_TIMEOUT = 24 * 60 * 60 * 1000;
+
+const logger = new Logger("ScheduledMessages");
+
+export interface ScheduledMessage {
+    id: string;
+    channelId: string;
+    content: string;
+    /** When to send the message, in ms */
+    sendAt: number;
+    /** Set when replying to a message */
+    messageReference?: Message["messageReference"];
+    mentionRepliedUser?: boolean;
+    /** Set if the message was due while Discord was closed and the missedMessages setting is "keep" */
+    missed?: boolean;
+    /** Set if sending failed, the message stays in the queue until it's sent manually or cancelled */
+    error?: string;
+}
+
+export let queue: ScheduledMessage[] = [];
+const listeners = new Set<() => void>();
+// Ids of messages being sent right now, so a message isn't sent twice if sendDue runs again meanwhile
+const sending = new Set<string>();
+
+let timeout: ReturnType<typeof setTimeout> | undefined;
+
+export function onQueueChange(listener: () => void) {
+    listeners.add(listener);
+    return () => void listeners.delete(listener);
+}
+
+async function setQueue(newQueue: ScheduledMessage[]) {
+    queue = newQueue.sort((a, b) => a.sendAt - b.sendAt);
+    listeners.forEach(l => l());
+    scheduleNext();
+    await DataStore.set(DATA_KEY, queue);
+}
+
+export function scheduleMessage(message: Omit<ScheduledMessage, "id">) {
+    return setQueue([...queue, { ...message, id: crypto.randomUUID() }]);
+}
+
+export function updateScheduled(id: string, patch: Partial<Pick<ScheduledMessage, "content" | "sendAt">>) {
+    // Rescheduling a failed or missed message gives it another try
+    return setQueue(queue.map(m => m.id === id ? { ...m, ...patch, missed: undefined, error: undefined } : m));
+}
+
+export function cancelScheduled(id: string) {
+    return setQueue(queue.filter(m => m.id !== id));
+}
+
+function isPending(message: ScheduledMessage) {
+    return !message.missed && !message.error;
+}
+
+export async function sendScheduled(message: ScheduledMessage) {
+    if (sending.has(message.id)) return;
+    sending.add(message.id);
+
+    const channel = ChannelStore.getChannel(message.channelId);
+
+    try {
+        if (!channel) throw new Error("The channel doesn't exist anymore or you can't access it");
+
+        await sendMessage(message.channelId, { content: message.content }, true, {
+            messageReference: message.messageReference,
+            allowedMentions: message.messageReference && {
+                parse: ["users", "roles", "everyone"],
+                replied_user: message.mentionRepliedUser ?? true
+            }
+        });
+        await cancelScheduled(message.id);
+    } catch (e: any) {
+        logger.error("Failed to send scheduled message", e);
+        const error = String(e?.body?.message ?? e?.message ?? e);
+
+        await setQueue(queue.map(m => m.id === message.id ? { ...m, error } : m));
+        showNotification({
+            title: "Failed to send scheduled message",
+            body: error,
+            color: "var(--red-360)",
+            source: "ScheduledMessages",
+            priority: "high",
+            actions: [{ label: "Open Queue", onClick: openQueueModal }]
+        });
+    } finally {
+        sending.delete(message.id);
+    }
+}
+
+/**
+ * Send all messages that are due. Also called when the connection to Discord (re)opens
+ */
+export async function sendDue() {
+    // Channels aren't known before connecting, this runs again once connected or back online
+    if (!navigator.onLine || !UserStore.getCurrentUser()) return;
+
+    const now = Date.now();
+    for (const message of queue.filter(m => isPending(m) && m.sendAt <= now)) {
+        await sendScheduled(message);
+    }
+
+    scheduleNext();
+}
+
+function scheduleNext() {
+    clearTimeout(timeout);
+
+    const next = queue.find(isPending);
+    if (!next) return;
+
+    timeout = setTimeout(sendDue, Math.min(Math.max(next.sendAt - Date.now(), 0), MAX_TIMEOUT));
+}
+
+/**
+ * Load the queue and handle messages that were due while Discord was closed
+ */
+export async function startScheduler() {
+    const now = Date.now();
+    const stored = await DataStore.get<ScheduledMessage[]>(DATA_KEY) ?? [];
+    const missed = stored.filter(m => isPending(m) && m.sendAt <= now);
+
+    switch (settings.store.missedMessages) {
+        case "send":
+            queue = stored;
+            break;
+        case "keep":
+            queue = stored.map(m => missed.includes(m) ? { ...m, missed: true } : m);
+            break;
+        case "discard":
+            queue = stored.filter(m => !missed.includes(m));
+            break;
+    }
+
+    if (missed.length && settings.store.missedMessages !== "send") {
+        showNotification({
+            title: "Missed scheduled messages",
+            body: settings.store.missedMessages === "keep"
+                ? `${missed.length} messages were due while Discord was closed. Open the queue to send or cancel them.`
+                : `${missed.length} messages were due while Discord was closed and have been discarded.`,
+            source: "ScheduledMessages",
+            actions: settings.store.missedMessages === "keep"
+                ? [{ label: "Open Queue", onClick: openQueueModal }]
+                : undefined
+        });
+    }
+
+    await setQueue(queue);
+    window.addEventListener("online", sendDue);
+    sendDue();
+}
+
+export function stopScheduler() {
+    clearTimeout(timeout);
+    window.removeEventListener("online", sendDue);
+}
@@ -0,0 +1,56 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+const UNITS: Record<string, number> = {
+    s: 1000,
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse when to send a message. Accepts durations like `in 1h30m`, times of day like `14:30` or `2:30pm`
+ * (the next time it's that time) and dates like `2024-05-01 09:00`
+ * @returns The time in ms, or null if the input isn't understood
+ */
+export function parseScheduleTime(input: string, now = Date.now()): number | null {
+    input = input.trim().toLowerCase().replace(/^in\s+/, "");
+
+    const duration = input.replace(/\s+/g, "");
+    if (/^(\d+[smhdw])+$/.test(duration)) {
+        let ms = 0;
+        for (const [, amount, unit] of duration.matchAll(/(\d+)([smhdw])/g))
+            ms += Number(amount) * UNITS[unit];
+        return now + ms;
+    }
+
+    const clock = input.match(/^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+    if (clock && (clock[2] || clock[3])) {
+        let hours = Number(clock[1]);
+        const minutes = Number(clock[2] ?? 0);
+        if (minutes > 59 || (clock[3] ? hours < 1 || hours > 12 : hours > 23)) return null;
+
+        if (clock[3]) hours = hours % 12 + (clock[3] === "pm" ? 12 : 0);
+
+        const date = new Date(now);
+        date.setHours(hours, minutes, 0, 0);
+        if (date.getTime() <= now) date.setDate(date.getDate() + 1);
+        return date.getTime();
+    }
+
+    const date = new Date(input).getTime();
+    return isNaN(date) ? null : date;
+}
+
+/**
+ * Format a time for a datetime-local input, which expects local time without a timezone
+ */
+export function toDateTimeLocal(time: number) {
+    const date = new Date(time);
+    date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+    return date.toISOString().slice(0, 16);
+}
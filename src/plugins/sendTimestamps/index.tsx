@@ -170,7 +170,7 @@ export default definePlugin({
             if (settings.store.replaceMessageContents) {
                 msg.content = msg.content.replace(/`\d{1,2}:\d{2} ?(?:AM|PM)?`/gi, parseTime);
             }
-        });
+        }, { name: "SendTimestamps" });
     },
 
     stop() {
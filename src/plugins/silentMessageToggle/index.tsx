@@ -17,7 +17,7 @@
 */
 
 import { addChatBarButton, ChatBarButton, removeChatBarButton } from "@api/ChatButtons";
-import { addPreSendListener, removePreSendListener, SendListener } from "@api/MessageEvents";
+import { addPreSendListener, MessageEventPriority, removePreSendListener, SendListener } from "@api/MessageEvents";
 import { definePluginSettings } from "@api/Settings";
 import { Devs } from "@utils/constants";
 import definePlugin, { OptionType } from "@utils/types";
@@ -57,7 +57,7 @@ const SilentMessageToggle: ChatBarButton = ({ isMainChat }) => {
             }
         };
 
-        addPreSendListener(listener);
+        addPreSendListener(listener, { name: "SilentMessageToggle", priority: MessageEventPriority.Last });
         return () => void removePreSendListener(listener);
     }, [enabled]);
 
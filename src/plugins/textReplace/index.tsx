@@ -17,7 +17,7 @@
 */
 
 import { DataStore } from "@api/index";
-import { addPreSendListener, removePreSendListener } from "@api/MessageEvents";
+import { addPreSendListener, MessageEventPriority, removePreSendListener } from "@api/MessageEvents";
 import { definePluginSettings } from "@api/Settings";
 import { Flex } from "@components/Flex";
 import { DeleteIcon } from "@components/Icons";
@@ -245,6 +245,7 @@ export default definePlugin({
     description: "Replace text in your messages. You can find pre-made rules in the #textreplace-rules channel in Vencord's Server",
     authors: [Devs.AutumnVN, Devs.TheKodeToad],
     dependencies: ["MessageEventsAPI"],
+    syncedDataStoreKeys: [STRING_RULES_KEY, REGEX_RULES_KEY],
 
     settings,
 
@@ -256,7 +257,7 @@ export default definePlugin({
             // Channel used for sharing rules, applying rules here would be messy
             if (channelId === TEXT_REPLACE_RULES_CHANNEL_ID) return;
             msg.content = applyRules(msg.content);
-        });
+        }, { name: "TextReplace", priority: MessageEventPriority.Early });
     },
 
     stop() {
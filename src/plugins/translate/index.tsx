@@ -88,7 +88,7 @@ export default definePlugin({
             if (!message.content) return;
 
             message.content = (await translate("sent", message.content)).text;
-        });
+        }, { name: "Translate" });
     },
 
     stop() {
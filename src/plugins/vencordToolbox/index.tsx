@@ -20,7 +20,9 @@ import "./index.css";
 
 import { openNotificationLogModal } from "@api/Notifications/notificationLog";
 import { Settings, useSettings } from "@api/Settings";
+import { getProfileNames } from "@api/SettingsProfiles";
 import ErrorBoundary from "@components/ErrorBoundary";
+import { switchToProfile } from "@components/VencordSettings/SettingsProfiles";
 import { Devs } from "@utils/constants";
 import definePlugin from "@utils/types";
 import { findExportedComponentLazy } from "@webpack";
@@ -30,7 +32,8 @@ import type { ReactNode } from "react";
 const HeaderBarIcon = findExportedComponentLazy("Icon", "Divider");
 
 function VencordPopout(onClose: () => void) {
-    const { useQuickCss } = useSettings(["useQuickCss"]);
+    const { useQuickCss, activeProfile } = useSettings(["useQuickCss", "activeProfile"]);
+    const profileNames = getProfileNames();
 
     const pluginEntries = [] as ReactNode[];
 
@@ -81,6 +84,23 @@ function VencordPopout(onClose: () => void) {
                 label="Open QuickCSS"
                 action={() => VencordNative.quickCss.openEditor()}
             />
+            {profileNames.length > 0 && (
+                <Menu.MenuItem
+                    id="vc-toolbox-profiles"
+                    label="Switch Profile"
+                >
+                    {profileNames.map(name => (
+                        <Menu.MenuRadioItem
+                            id={`vc-toolbox-profile-${name}`}
+                            key={name}
+                            group="vc-toolbox-profiles"
+                            label={name}
+                            checked={name === activeProfile}
+                            action={() => switchToProfile(name)}
+                        />
+                    ))}
+                </Menu.MenuItem>
+            )}
             {...pluginEntries}
         </Menu.Menu>
     );
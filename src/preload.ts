@@ -59,6 +59,11 @@ if (location.protocol !== "data:") {
 else {
     contextBridge.exposeInMainWorld("setCss", debounce(VencordNative.quickCss.set));
     contextBridge.exposeInMainWorld("getCurrentCss", VencordNative.quickCss.get);
+    contextBridge.exposeInMainWorld("getSnippets", VencordNative.quickCss.getSnippets);
+    contextBridge.exposeInMainWorld("setSnippet", VencordNative.quickCss.setSnippet);
+    contextBridge.exposeInMainWorld("addSnippetsChangeListener", VencordNative.quickCss.addSnippetsChangeListener);
+    contextBridge.exposeInMainWorld("getDiagnostics", VencordNative.quickCss.getDiagnostics);
+    contextBridge.exposeInMainWorld("addDiagnosticsListener", VencordNative.quickCss.addDiagnosticsListener);
     // shrug
     contextBridge.exposeInMainWorld("getTheme", () => "vs-dark");
 }
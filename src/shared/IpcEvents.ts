@@ -21,12 +21,24 @@ export const enum IpcEvents {
     THEME_UPDATE = "VencordThemeUpdate",
     GET_QUICK_CSS = "VencordGetQuickCss",
     SET_QUICK_CSS = "VencordSetQuickCss",
+    SNIPPETS_UPDATE = "VencordSnippetsUpdate",
+    GET_SNIPPETS = "VencordGetSnippets",
+    SET_SNIPPET = "VencordSetSnippet",
+    DELETE_SNIPPET = "VencordDeleteSnippet",
+    RENAME_SNIPPET = "VencordRenameSnippet",
+    QUICK_CSS_DIAGNOSTICS_UPDATE = "VencordQuickCssDiagnosticsUpdate",
+    GET_QUICK_CSS_DIAGNOSTICS = "VencordGetQuickCssDiagnostics",
+    SET_QUICK_CSS_DIAGNOSTICS = "VencordSetQuickCssDiagnostics",
     UPLOAD_THEME = "VencordUploadTheme",
     DELETE_THEME = "VencordDeleteTheme",
     GET_THEMES_DIR = "VencordGetThemesDir",
     GET_THEMES_LIST = "VencordGetThemesList",
     GET_THEME_DATA = "VencordGetThemeData",
     GET_THEME_SYSTEM_VALUES = "VencordGetThemeSystemValues",
+    GET_ONLINE_THEMES = "VencordGetOnlineThemes",
+    GET_ONLINE_THEME_DATA = "VencordGetOnlineThemeData",
+    CHECK_ONLINE_THEMES = "VencordCheckOnlineThemes",
+    ONLINE_THEMES_UPDATE = "VencordOnlineThemesUpdate",
     GET_SETTINGS_DIR = "VencordGetSettingsDir",
     GET_SETTINGS = "VencordGetSettings",
     SET_SETTINGS = "VencordSetSettings",
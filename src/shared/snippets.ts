@@ -0,0 +1,11 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+/**
+ * Snippet names are used as file names and end up in comments of the QuickCSS style,
+ * so they can't contain anything but plain text
+ */
+export const SNIPPET_NAME_REGEX = /^[\w\- ]{1,64}$/;
@@ -72,6 +72,35 @@ export async function deauthorizeCloud() {
     });
 }
 
+async function authorizeDevCloud() {
+    try {
+        const res = await fetch(new URL("/v1/oauth/dev", getCloudUrl()), {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ userId: getUserId() })
+        });
+        if (!res.ok) throw new Error(`API returned ${res.status}`);
+
+        const { secret } = await res.json();
+        cloudLogger.info("Authorized with dev secret");
+        await setAuthorization(secret);
+        showNotification({
+            title: "Cloud Integration",
+            source: "Cloud",
+            body: "Cloud integrations enabled (dev backend)!"
+        });
+        Settings.cloud.authenticated = true;
+    } catch (e: any) {
+        cloudLogger.error("Failed to authorize with dev backend", e);
+        showNotification({
+            title: "Cloud Integration",
+            source: "Cloud",
+            body: `Setup failed (${e.toString()}).`
+        });
+        Settings.cloud.authenticated = false;
+    }
+}
+
 export async function authorizeCloud() {
     if (await getAuthorization() !== undefined) {
         Settings.cloud.authenticated = true;
@@ -80,16 +109,30 @@ export async function authorizeCloud() {
 
     try {
         const oauthConfiguration = await fetch(new URL("/v1/oauth/settings", getCloudUrl()));
-        var { clientId, redirectUri } = await oauthConfiguration.json();
+        var { clientId, redirectUri, devAuth } = await oauthConfiguration.json();
     } catch {
         showNotification({
             title: "Cloud Integration",
+            source: "Cloud",
             body: "Setup failed (couldn't retrieve OAuth configuration)."
         });
         Settings.cloud.authenticated = false;
         return;
     }
 
+    // Local backends (scripts/cloudServer) can skip Discord OAuth for testing
+    if (devAuth) {
+        if (IS_DEV) return authorizeDevCloud();
+
+        showNotification({
+            title: "Cloud Integration",
+            source: "Cloud",
+            body: "Setup failed (this backend only supports development builds of Vencord)."
+        });
+        Settings.cloud.authenticated = false;
+        return;
+    }
+
     openModal((props: any) => <OAuth2AuthorizeModal
         {...props}
         scopes={["identify"]}
@@ -114,12 +157,14 @@ export async function authorizeCloud() {
                     await setAuthorization(secret);
                     showNotification({
                         title: "Cloud Integration",
+                        source: "Cloud",
                         body: "Cloud integrations enabled!"
                     });
                     Settings.cloud.authenticated = true;
                 } else {
                     showNotification({
                         title: "Cloud Integration",
+                        source: "Cloud",
                         body: "Setup failed (no secret returned?)."
                     });
                     Settings.cloud.authenticated = false;
@@ -128,6 +173,7 @@ export async function authorizeCloud() {
                 cloudLogger.error("Failed to authorize", e);
                 showNotification({
                     title: "Cloud Integration",
+                    source: "Cloud",
                     body: `Setup failed (${e.toString()}).`
                 });
                 Settings.cloud.authenticated = false;
@@ -0,0 +1,433 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+export const enum CssDiagnosticSeverity {
+    /** The browser ignores the code */
+    ERROR = "error",
+    /** The code works, but likely not as intended or not for long */
+    WARNING = "warning",
+    /** Worth knowing, but often expected. Like selectors that don't match anything on the current screen */
+    INFO = "info"
+}
+
+export interface CssDiagnostic {
+    severity: CssDiagnosticSeverity;
+    message: string;
+    /** Lines and columns start at 1, like in editors */
+    line: number;
+    column: number;
+    endLine: number;
+    endColumn: number;
+}
+
+const enum BlockType {
+    /** The top level, and at-rules like `@media` containing rules */
+    RULES,
+    STYLE,
+    KEYFRAMES,
+    /** At-rules like `@font-face` containing descriptors instead of properties */
+    DESCRIPTORS
+}
+
+interface Block {
+    type: BlockType;
+    start: number;
+}
+
+const RULE_AT_RULES = ["media", "supports", "layer", "container", "document", "scope", "starting-style"];
+const KEYFRAMES_AT_RULES = ["keyframes", "-webkit-keyframes"];
+
+// Discord's class names end in a hash that changes with updates, like `container_a1b2c3` or the older `container-3nd8Ds`
+const HASHED_CLASS_REGEX = /\.(-?[a-zA-Z][\w-]*?)(?:_([\da-f]{6})|-([\w-]{6}))(?![\w-])/g;
+const VAR_REGEX = /var\(\s*(--[\w-]+)\s*([,)])/g;
+const PROPERTY_REGEX = /^-?-?[a-zA-Z_][\w-]*$/;
+// States the elements usually aren't in while linting, so they're ignored when checking if selectors match anything
+const STATE_SELECTOR_REGEX = /::?(?:hover|active|focus(?:-visible|-within)?|visited|target|before|after|placeholder|selection|marker|backdrop|first-letter|first-line|-webkit-[\w-]+|-moz-[\w-]+)(?:\([^)]*\))?/g;
+
+let knownVariables: Set<string> | undefined;
+let knownVariablesSheetCount = 0;
+// Whether a stylesheet couldn't be read, so any variable might be declared in it
+let hasUnreadableSheets = false;
+
+function collectVariables(rules: CSSRuleList, out: Set<string>) {
+    for (const rule of rules) {
+        if (rule instanceof CSSStyleRule) {
+            for (const property of rule.style) {
+                if (property.startsWith("--")) out.add(property);
+            }
+        }
+        if (rule instanceof CSSImportRule && rule.styleSheet) {
+            collectSheetVariables(rule.styleSheet, out);
+        } else if ("cssRules" in rule) {
+            collectVariables(rule.cssRules as CSSRuleList, out);
+        }
+    }
+}
+
+function collectSheetVariables(sheet: CSSStyleSheet, out: Set<string>) {
+    try {
+        collectVariables(sheet.cssRules, out);
+    } catch {
+        // Stylesheets from other origins, like themes, can't be read
+        hasUnreadableSheets = true;
+    }
+}
+
+/**
+ * Get the custom properties declared anywhere on the page, by Discord, themes or QuickCSS
+ * @returns The variables, or null if some stylesheets can't be read, so it's unknown which variables exist
+ */
+function getKnownVariables() {
+    // Collecting them takes a while, so they're only collected again once stylesheets were added or removed
+    if (!knownVariables || knownVariablesSheetCount !== document.styleSheets.length) {
+        knownVariables = new Set();
+        knownVariablesSheetCount = document.styleSheets.length;
+        hasUnreadableSheets = false;
+        for (const sheet of document.styleSheets) collectSheetVariables(sheet, knownVariables);
+    }
+
+    if (hasUnreadableSheets) return null;
+
+    // Discord sets some variables, like the font scale, on the root element itself. Those change at any time
+    const known = new Set(knownVariables);
+    for (const property of document.documentElement.style) {
+        if (property.startsWith("--")) known.add(property);
+    }
+    return known;
+}
+
+/**
+ * Replace comments and the contents of strings with spaces, so braces and semicolons in them don't count.
+ * Offsets stay the same, so positions in the result are positions in the original
+ */
+function maskCss(css: string, report: (start: number, end: number, message: string) => void) {
+    let masked = "";
+    let i = 0;
+
+    while (i < css.length) {
+        const char = css[i];
+
+        if (char === "/" && css[i + 1] === "*") {
+            let end = css.indexOf("*/", i + 2);
+            if (end === -1) {
+                report(i, css.length, "Unclosed comment. Everything after it is ignored");
+                end = css.length;
+            } else {
+                end += 2;
+            }
+            masked += css.slice(i, end).replace(/[^\n]/g, " ");
+            i = end;
+        } else if (char === "\"" || char === "'") {
+            let end = i + 1;
+            while (end < css.length && css[end] !== char && css[end] !== "\n") {
+                end += css[end] === "\\" ? 2 : 1;
+            }
+            if (css[end] !== char) report(i, end, "Unclosed string");
+
+            end = Math.min(end + 1, css.length);
+            masked += char + " ".repeat(Math.max(end - i - 2, 0)) + (end - i > 1 ? css[end - 1] : "");
+            i = end;
+        } else {
+            masked += char;
+            i++;
+        }
+    }
+
+    return masked;
+}
+
+/**
+ * Split at commas outside of parentheses, like the selectors of a selector list
+ * @returns The start and end offset of each part, relative to the text
+ */
+function splitTopLevel(text: string) {
+    const parts = [] as Array<[number, number]>;
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === "(" || text[i] === "[") depth++;
+        else if (text[i] === ")" || text[i] === "]") depth--;
+        else if (text[i] === "," && depth === 0) {
+            parts.push([start, i]);
+            start = i + 1;
+        }
+    }
+    parts.push([start, text.length]);
+
+    return parts;
+}
+
+export interface CssLintOptions {
+    /**
+     * Whether to report selectors that don't match anything on the current screen.
+     * This queries the page once for every selector, which takes a while for large files
+     */
+    matchSelectors?: boolean;
+}
+
+/**
+ * Find mistakes in CSS. Selectors and variables are checked against the current page, so this only works in the renderer
+ */
+export function lintCss(css: string, { matchSelectors = true }: CssLintOptions = {}): CssDiagnostic[] {
+    const diagnostics = [] as CssDiagnostic[];
+
+    const lineStarts = [0];
+    for (let i = 0; i < css.length; i++) {
+        if (css[i] === "\n") lineStarts.push(i + 1);
+    }
+
+    const toPosition = (offset: number) => {
+        let line = lineStarts.length - 1;
+        while (lineStarts[line] > offset) line--;
+        return [line + 1, offset - lineStarts[line] + 1];
+    };
+
+    const report = (severity: CssDiagnosticSeverity, start: number, end: number, message: string) => {
+        const [line, column] = toPosition(start);
+        const [endLine, endColumn] = toPosition(Math.max(end, start + 1));
+        diagnostics.push({ severity, message, line, column, endLine, endColumn });
+    };
+
+    const masked = maskCss(css, (start, end, message) => report(CssDiagnosticSeverity.ERROR, start, end, message));
+
+    const declaredVariables = new Set<string>();
+    const variableReferences = [] as Array<[name: string, start: number, end: number]>;
+
+    // Trim a segment of the masked text, returning its offsets in the original
+    const trimSegment = (start: number, end: number) => {
+        while (start < end && /\s/.test(masked[start])) start++;
+        while (end > start && /\s/.test(masked[end - 1])) end--;
+        return [start, end] as const;
+    };
+
+    function checkDeclaration(blockType: BlockType, segmentStart: number, segmentEnd: number) {
+        const [start, end] = trimSegment(segmentStart, segmentEnd);
+        if (start === end) return;
+
+        const colon = masked.indexOf(":", start);
+        if (colon === -1 || colon >= end) {
+            report(CssDiagnosticSeverity.ERROR, start, end, "Expected a declaration like `property: value`");
+            return;
+        }
+
+        const property = css.slice(start, colon).trim();
+        const value = css.slice(colon + 1, end).replace(/!\s*important\s*$/i, "").trim();
+
+        if (!PROPERTY_REGEX.test(property)) {
+            report(CssDiagnosticSeverity.ERROR, start, colon, `Invalid property name "${property}"`);
+            return;
+        }
+
+        for (const match of masked.slice(colon, end).matchAll(VAR_REGEX)) {
+            // References with a fallback work either way
+            if (match[2] === ")") {
+                const refStart = colon + match.index! + match[0].indexOf("--");
+                variableReferences.push([match[1], refStart, refStart + match[1].length]);
+            }
+        }
+
+        if (property.startsWith("--")) {
+            declaredVariables.add(property);
+            return;
+        }
+
+        // Descriptors of at-rules like @font-face aren't properties
+        if (blockType !== BlockType.STYLE) return;
+
+        // Browsers only know their own prefixed properties, but themes often include those of all of them
+        if (property.startsWith("-")) return;
+
+        if (!CSS.supports(property, "inherit"))
+            report(CssDiagnosticSeverity.WARNING, start, colon, `Unknown property "${property}"`);
+        else if (value && !value.includes("var(") && !CSS.supports(property, value))
+            report(CssDiagnosticSeverity.WARNING, colon + 1, end, `Invalid value for "${property}"`);
+    }
+
+    function checkSelectors(start: number, end: number) {
+        for (const [partStart, partEnd] of splitTopLevel(masked.slice(start, end))) {
+            const [selStart, selEnd] = trimSegment(start + partStart, start + partEnd);
+            const selector = css.slice(selStart, selEnd);
+
+            if (!selector) {
+                report(CssDiagnosticSeverity.ERROR, start, end, "Empty selector in selector list");
+                continue;
+            }
+
+            if (!CSS.supports(`selector(${selector})`)) {
+                report(CssDiagnosticSeverity.ERROR, selStart, selEnd, `Invalid selector "${selector}"`);
+                continue;
+            }
+
+            for (const match of selector.matchAll(HASHED_CLASS_REGEX)) {
+                const [className, name, newHash, oldHash] = match;
+                // Real hashes have digits or mixed case, plain names like `.button-normal` don't
+                if (newHash ? !/\d/.test(newHash) : !/[\dA-Z_]/.test(oldHash)) continue;
+
+                const classStart = selStart + match.index!;
+                report(
+                    CssDiagnosticSeverity.WARNING,
+                    classStart,
+                    classStart + className.length,
+                    `"${className}" contains a hash that changes when Discord updates. Use [class*="${name}${newHash ? "_" : "-"}"] instead`
+                );
+            }
+
+            if (!matchSelectors) continue;
+
+            const stateless = selector.replace(STATE_SELECTOR_REGEX, "").trim();
+            if (!stateless || /[>+~]$/.test(stateless)) continue;
+
+            try {
+                if (!document.querySelector(stateless))
+                    report(CssDiagnosticSeverity.INFO, selStart, selEnd, `"${selector}" doesn't match anything on the current screen`);
+            } catch {
+                // Selectors that only work with the states removed above
+            }
+        }
+    }
+
+    const stack = [{ type: BlockType.RULES, start: 0 }] as Block[];
+    let segmentStart = 0;
+
+    for (let i = 0; i < masked.length; i++) {
+        const char = masked[i];
+        if (char !== "{" && char !== "}" && char !== ";") continue;
+
+        const block = stack[stack.length - 1];
+        const [start, end] = trimSegment(segmentStart, i);
+        const prelude = css.slice(start, end);
+
+        if (char === "{") {
+            let type: BlockType;
+
+            if (prelude.startsWith("@")) {
+                const name = prelude.slice(1).split(/[\s(]/, 1)[0].toLowerCase();
+                type = RULE_AT_RULES.includes(name)
+                    // Conditional rules nested in style rules contain declarations
+                    ? block.type === BlockType.STYLE ? BlockType.STYLE : BlockType.RULES
+                    : KEYFRAMES_AT_RULES.includes(name)
+                        ? BlockType.KEYFRAMES
+                        : BlockType.DESCRIPTORS;
+            } else if (block.type === BlockType.KEYFRAMES || block.type === BlockType.DESCRIPTORS) {
+                type = BlockType.STYLE;
+            } else {
+                if (!prelude)
+                    report(CssDiagnosticSeverity.ERROR, i, i + 1, "Missing selector");
+                // Nested rules can start with combinators and use &, so they're left to the browser
+                else if (block.type === BlockType.RULES)
+                    checkSelectors(start, end);
+
+                type = BlockType.STYLE;
+            }
+
+            stack.push({ type, start: i });
+        } else if (block.type === BlockType.RULES || block.type === BlockType.KEYFRAMES) {
+            // Only at-rules like @import can end with a semicolon here
+            if (prelude && !prelude.startsWith("@"))
+                report(CssDiagnosticSeverity.ERROR, start, end, block.type === BlockType.RULES
+                    ? "Declarations have to be inside a rule like `selector { property: value; }`"
+                    : "Expected a keyframe like `50% { property: value; }`"
+                );
+
+            if (char === "}") {
+                if (stack.length === 1) report(CssDiagnosticSeverity.ERROR, i, i + 1, "Unexpected }");
+                else stack.pop();
+            }
+        } else {
+            checkDeclaration(block.type, segmentStart, i);
+            if (char === "}") stack.pop();
+        }
+
+        segmentStart = i + 1;
+    }
+
+    const [restStart, restEnd] = trimSegment(segmentStart, masked.length);
+    if (restStart !== restEnd) {
+        if (stack.length > 1) checkDeclaration(stack[stack.length - 1].type, restStart, restEnd);
+        else if (!css.slice(restStart, restEnd).startsWith("@"))
+            report(CssDiagnosticSeverity.ERROR, restStart, restEnd, "Unexpected text outside of a rule");
+    }
+
+    for (const block of stack.slice(1))
+        report(CssDiagnosticSeverity.ERROR, block.start, block.start + 1, "Unclosed {");
+
+    const known = variableReferences.length ? getKnownVariables() : null;
+    if (known) {
+        for (const [name, start, end] of variableReferences) {
+            if (!declaredVariables.has(name) && !known.has(name))
+                report(CssDiagnosticSeverity.WARNING, start, end, `Unknown variable "${name}". Discord may have removed or renamed it`);
+        }
+    }
+
+    return diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export interface CssTargets {
+    /** Selectors of style rules that set properties, with whitespace collapsed */
+    selectors: Set<string>;
+    /** Custom properties that are declared anywhere */
+    variables: Set<string>;
+}
+
+interface TargetBlock {
+    type: BlockType;
+    selectors: string[];
+    hasProperties: boolean;
+}
+
+/**
+ * Get what a stylesheet styles, to find stylesheets that override each other. Rules only declaring
+ * custom properties, like `:root { --accent: red; }`, count for their variables but not their selectors
+ */
+export function getCssTargets(css: string): CssTargets {
+    const masked = maskCss(css, () => { });
+    const targets: CssTargets = { selectors: new Set(), variables: new Set() };
+
+    const stack = [{ type: BlockType.RULES, selectors: [], hasProperties: false }] as TargetBlock[];
+    let segmentStart = 0;
+
+    for (let i = 0; i < masked.length; i++) {
+        const char = masked[i];
+        if (char !== "{" && char !== "}" && char !== ";") continue;
+
+        const block = stack[stack.length - 1];
+        const start = segmentStart;
+        const segment = css.slice(start, i).trim();
+        segmentStart = i + 1;
+
+        if (char === "{") {
+            if (segment.startsWith("@")) {
+                const isConditional = RULE_AT_RULES.includes(segment.slice(1).split(/[\s(]/, 1)[0].toLowerCase());
+                // Conditional rules nested in style rules style the same elements
+                stack.push(isConditional
+                    ? { type: block.type, selectors: block.type === BlockType.STYLE ? block.selectors : [], hasProperties: false }
+                    : { type: BlockType.DESCRIPTORS, selectors: [], hasProperties: false });
+            } else if (block.type === BlockType.RULES) {
+                const selectors = splitTopLevel(masked.slice(start, i))
+                    .map(([partStart, partEnd]) => css.slice(start + partStart, start + partEnd).trim().replace(/\s+/g, " "));
+                stack.push({ type: BlockType.STYLE, selectors, hasProperties: false });
+            } else {
+                // Nested style rules and keyframes are left out
+                stack.push({ type: BlockType.DESCRIPTORS, selectors: [], hasProperties: false });
+            }
+            continue;
+        }
+
+        if (block.type === BlockType.STYLE && segment.includes(":")) {
+            const property = segment.slice(0, segment.indexOf(":")).trim();
+            if (property.startsWith("--")) targets.variables.add(property);
+            else block.hasProperties = true;
+        }
+
+        if (char === "}" && stack.length > 1) {
+            stack.pop();
+            if (block.hasProperties) block.selectors.forEach(s => s && targets.selectors.add(s));
+        }
+    }
+
+    return targets;
+}
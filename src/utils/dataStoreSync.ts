@@ -0,0 +1,120 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { Settings } from "@api/Settings";
+
+import { Logger } from "./Logger";
+import type { UnsyncedKeyFilter } from "./settingsMerge";
+
+const logger = new Logger("DataStoreSync");
+
+/** The largest value of a single key that is synced to the cloud, in characters of its JSON */
+export const MAX_KEY_SIZE = 256 * 1024;
+/** The largest amount of DataStore data that is synced to the cloud, in characters of JSON */
+export const MAX_TOTAL_SIZE = 1024 * 1024;
+
+// Data of Vencord itself, which isn't declared by a plugin
+const CoreSyncedKeys: Record<string, Array<string | RegExp>> = {
+    Notifications: ["notification-log"]
+};
+
+export interface SyncedDataStoreKey {
+    key: string;
+    /** The plugin that declared this key */
+    owner: string;
+    /** The size of the JSON of the value */
+    size: number;
+    /** Whether the user opted this key out of cloud sync */
+    excluded: boolean;
+    /** Whether this key is skipped during cloud sync because it or all synced data together are too large */
+    tooLarge: boolean;
+}
+
+function getDeclaredKeys() {
+    const declared = Object.entries(CoreSyncedKeys);
+    for (const p of Object.values(Vencord.Plugins.plugins)) {
+        if (p.syncedDataStoreKeys) declared.push([p.name, p.syncedDataStoreKeys]);
+    }
+    return declared;
+}
+
+/**
+ * Get the plugin that declared a DataStore key as synced
+ * @returns The plugin name, or null if the key isn't synced
+ */
+export function getSyncedKeyOwner(key: string) {
+    for (const [owner, patterns] of getDeclaredKeys()) {
+        if (patterns.some(p => typeof p === "string" ? p === key : p.test(key))) return owner;
+    }
+    return null;
+}
+
+async function getSyncedEntries() {
+    const { excludedDataStoreKeys } = Settings.cloud;
+
+    const entries = [] as Array<SyncedDataStoreKey & { value: any; }>;
+    let totalSize = 0;
+
+    // Sorted, so the same keys are left out when all data together is too large, no matter the order they were stored in
+    const stored = (await DataStore.entries())
+        .filter((e): e is [string, any] => typeof e[0] === "string")
+        .sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0);
+
+    for (const [key, value] of stored) {
+        const owner = getSyncedKeyOwner(key);
+        if (!owner) continue;
+
+        const size = JSON.stringify(value)?.length ?? 0;
+        const excluded = excludedDataStoreKeys.includes(key);
+        const tooLarge = !excluded && (size > MAX_KEY_SIZE || totalSize + size > MAX_TOTAL_SIZE);
+        if (!excluded && !tooLarge) totalSize += size;
+
+        entries.push({ key, owner, size, excluded, tooLarge, value });
+    }
+
+    return entries;
+}
+
+/**
+ * Get every synced key that currently has data, along with its cloud sync state
+ */
+export async function getSyncedDataStoreKeys(): Promise<SyncedDataStoreKey[]> {
+    return (await getSyncedEntries())
+        .map(({ value, ...key }) => key)
+        .sort((a, b) => a.owner.localeCompare(b.owner) || a.key.localeCompare(b.key));
+}
+
+/**
+ * Export the data of every synced key
+ * @param cloud Whether this is for cloud sync. Skips keys the user opted out of and keys that are too large
+ */
+export async function exportDataStore(cloud = false) {
+    const data = {} as Record<string, any>;
+
+    for (const { key, value, excluded, tooLarge } of await getSyncedEntries()) {
+        if (cloud && (excluded || tooLarge)) {
+            if (tooLarge) logger.warn(`Not syncing ${key} to the cloud because it is too large`);
+            continue;
+        }
+
+        data[key] = value;
+    }
+
+    return data;
+}
+
+/**
+ * Get a check for DataStore keys this device doesn't sync: keys none of its plugins declared, keys the user
+ * opted out of and keys that are too large. Cloud sync keeps the cloud value of these instead of treating
+ * them as deleted, and never writes it locally
+ */
+export async function getUnsyncedKeyFilter(): Promise<UnsyncedKeyFilter> {
+    const { excludedDataStoreKeys } = Settings.cloud;
+    const tooLarge = new Set((await getSyncedEntries()).filter(e => e.tooLarge).map(e => e.key));
+
+    return key => !getSyncedKeyOwner(key) || excludedDataStoreKeys.includes(key) || tooLarge.has(key);
+}
@@ -0,0 +1,46 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+const MODIFIERS = ["Control", "Alt", "Shift", "Meta"] as const;
+
+function normaliseKey(key: string) {
+    return key.length === 1 ? key.toUpperCase() : key;
+}
+
+/**
+ * Get the keybind a keyboard event represents, modifiers first
+ * @returns The keys, or null if only modifiers are pressed
+ */
+export function keybindFromEvent(e: KeyboardEvent | React.KeyboardEvent) {
+    if ((MODIFIERS as readonly string[]).includes(e.key)) return null;
+
+    const keys = [] as string[];
+    if (e.ctrlKey) keys.push("Control");
+    if (e.altKey) keys.push("Alt");
+    if (e.shiftKey) keys.push("Shift");
+    if (e.metaKey) keys.push("Meta");
+    keys.push(normaliseKey(e.key));
+
+    return keys;
+}
+
+/**
+ * Check whether a keyboard event matches a keybind. Modifiers have to match exactly,
+ * so `["Control", "K"]` doesn't match Ctrl+Shift+K
+ */
+export function matchesKeybind(e: KeyboardEvent | React.KeyboardEvent, keybind: string[] | undefined) {
+    if (!keybind?.length) return false;
+
+    const keys = keybindFromEvent(e);
+    if (keys?.length !== keybind.length) return false;
+
+    const expected = new Set(keybind.map(normaliseKey));
+    return keys.every(k => expected.has(k));
+}
+
+export function formatKeybind(keybind: string[]) {
+    return keybind.map(k => k === "Control" ? "Ctrl" : k === " " ? "Space" : k).join(" + ");
+}
@@ -0,0 +1,212 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { Patch, PatchReplacement } from "./types";
+
+export const enum ReplacementStatus {
+    /** The replacement changed the module code */
+    APPLIED = "applied",
+    /** The match didn't match anything, so the code was left unchanged */
+    NO_EFFECT = "no-effect",
+    /** The replacement threw an error or produced invalid code */
+    ERRORED = "errored",
+    /** The predicate of the replacement returned false */
+    SKIPPED = "skipped"
+}
+
+export const enum PatchStatus {
+    /** No module matching the find has been loaded yet */
+    PENDING = "pending",
+    /** All replacements were applied in every matched module */
+    OK = "ok",
+    /** Some replacements failed or had no effect */
+    PARTIAL = "partial",
+    /** No replacement could be applied */
+    FAILED = "failed"
+}
+
+export const enum ConflictType {
+    /** The find or match of a patch matched the original module, but no longer did after another plugin's patch was applied */
+    PREVENTED = "prevented",
+    /** Both patches were applied, but the later one changed code that was inserted or changed by the earlier one */
+    OVERLAP = "overlap"
+}
+
+export interface ReplacementDiagnostic {
+    match: string;
+    status: ReplacementStatus;
+    error?: string;
+    /** How long applying this replacement took, in milliseconds */
+    time: number;
+}
+
+export interface ModuleDiagnostic {
+    id: string | number;
+    replacements: ReplacementDiagnostic[];
+    /** Whether the replacements were undone because this patch is a group and one of them failed */
+    undone: boolean;
+}
+
+export interface PatchDiagnostic {
+    plugin: string;
+    find: string;
+    noWarn: boolean;
+    modules: ModuleDiagnostic[];
+}
+
+export interface PatchConflict {
+    type: ConflictType;
+    id: string | number;
+    /** The plugin whose patch was applied first */
+    plugin: string;
+    find: string;
+    /** The plugin whose patch was affected by it */
+    affectedPlugin: string;
+    affectedFind: string;
+    /** The match of the affected replacement, or undefined if the find of the affected patch no longer matched */
+    match?: string;
+}
+
+const diagnostics = new Map<Patch, PatchDiagnostic>();
+const conflicts = [] as PatchConflict[];
+
+/**
+ * Register a patch, so it shows up as pending until a module matching its find is loaded
+ */
+export function registerPatch(patch: Patch) {
+    if (diagnostics.has(patch)) return diagnostics.get(patch)!;
+
+    const diagnostic: PatchDiagnostic = {
+        plugin: patch.plugin,
+        find: patch.find,
+        noWarn: !!patch.noWarn,
+        modules: []
+    };
+    diagnostics.set(patch, diagnostic);
+    return diagnostic;
+}
+
+/**
+ * Start recording the results of applying a patch to a module. Re-applying a patch
+ * to the same module, for example when plugins are toggled at runtime, replaces the previous results
+ */
+export function recordPatchMatch(patch: Patch, id: string | number) {
+    const { modules } = registerPatch(patch);
+
+    const moduleDiagnostic: ModuleDiagnostic = { id, replacements: [], undone: false };
+    const idx = modules.findIndex(m => m.id === id);
+    if (idx === -1) modules.push(moduleDiagnostic);
+    else modules[idx] = moduleDiagnostic;
+
+    return moduleDiagnostic;
+}
+
+export function recordReplacement(moduleDiagnostic: ModuleDiagnostic, replacement: PatchReplacement, status: ReplacementStatus, time: number, error?: unknown) {
+    moduleDiagnostic.replacements.push({
+        match: String(replacement.match),
+        status,
+        time,
+        error: error == null ? undefined : String(error)
+    });
+}
+
+/**
+ * Forget the results of all patches of a plugin, for example because it was disabled
+ */
+export function clearPluginDiagnostics(plugin: string) {
+    for (const [patch, diagnostic] of diagnostics) {
+        if (diagnostic.plugin === plugin) diagnostics.delete(patch);
+    }
+}
+
+export function recordConflict(type: ConflictType, id: string | number, patch: Patch, affectedPatch: Patch, replacement?: PatchReplacement) {
+    const match = replacement && String(replacement.match);
+    const isDuplicate = conflicts.some(c =>
+        c.type === type && c.id === id && c.match === match
+        && c.find === patch.find && c.plugin === patch.plugin
+        && c.affectedFind === affectedPatch.find && c.affectedPlugin === affectedPatch.plugin
+    );
+    if (isDuplicate) return;
+
+    conflicts.push({
+        type,
+        id,
+        plugin: patch.plugin,
+        find: patch.find,
+        affectedPlugin: affectedPatch.plugin,
+        affectedFind: affectedPatch.find,
+        match
+    });
+}
+
+/**
+ * Forget all conflicts in a module, because it is about to be patched again
+ */
+export function clearModuleConflicts(id: string | number) {
+    for (let i = conflicts.length - 1; i >= 0; i--) {
+        if (conflicts[i].id === id) conflicts.splice(i, 1);
+    }
+}
+
+/**
+ * Get all conflicts between patches, optionally only those a plugin is involved in
+ */
+export function getPatchConflicts(plugin?: string) {
+    return plugin
+        ? conflicts.filter(c => c.plugin === plugin || c.affectedPlugin === plugin)
+        : [...conflicts];
+}
+
+export function describeConflict({ type, id, plugin, affectedPlugin }: PatchConflict) {
+    return type === ConflictType.PREVENTED
+        ? `${plugin}'s patch prevents ${affectedPlugin}'s patch on module ${id}`
+        : `${affectedPlugin}'s patch changes code inserted by ${plugin}'s patch on module ${id}`;
+}
+
+export function getPatchStatus({ modules, noWarn }: PatchDiagnostic) {
+    if (!modules.length) return PatchStatus.PENDING;
+
+    let applied = 0;
+    let failed = 0;
+    for (const { replacements, undone } of modules) {
+        for (const { status } of replacements) {
+            if (status === ReplacementStatus.SKIPPED) continue;
+            if (status === ReplacementStatus.NO_EFFECT && noWarn) continue;
+
+            if (status === ReplacementStatus.APPLIED && !undone) applied++;
+            else failed++;
+        }
+    }
+
+    if (!failed) return PatchStatus.OK;
+    return applied ? PatchStatus.PARTIAL : PatchStatus.FAILED;
+}
+
+/**
+ * Get the diagnostics of all registered patches, optionally only those of one plugin
+ */
+export function getPatchDiagnostics(plugin?: string) {
+    const res = [...diagnostics.values()];
+    return plugin ? res.filter(d => d.plugin === plugin) : res;
+}
+
+/**
+ * Summarise the state of all patches of a plugin
+ * @returns The amount of patches in each state
+ */
+export function getPluginPatchHealth(plugin: string) {
+    const health = {
+        [PatchStatus.PENDING]: 0,
+        [PatchStatus.OK]: 0,
+        [PatchStatus.PARTIAL]: 0,
+        [PatchStatus.FAILED]: 0
+    };
+
+    for (const diagnostic of getPatchDiagnostics(plugin))
+        health[getPatchStatus(diagnostic)]++;
+
+    return health;
+}
@@ -16,7 +16,7 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
-import { PatchReplacement, ReplaceFn } from "./types";
+import { Patch, PatchReplacement, ReplaceFn } from "./types";
 
 export function canonicalizeMatch(match: RegExp | string) {
     if (typeof match === "string") return match;
@@ -55,3 +55,10 @@ export function canonicalizeReplacement(replacement: Pick<PatchReplacement, "mat
     );
     Object.defineProperties(replacement, descriptors);
 }
+
+/**
+ * Sort patches in the order they should be applied in, highest priority first. Patches with the same priority keep their order
+ */
+export function sortPatches(patches: Patch[]) {
+    return patches.sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
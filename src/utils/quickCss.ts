@@ -17,10 +17,31 @@
 */
 
 import { Settings, SettingsStore } from "@api/Settings";
+import type { Snippet } from "@main/ipcMain";
+import type { OnlineTheme } from "@main/onlineThemes";
+import { VARIABLE_NAME_REGEX } from "@main/themes/variables";
+import { debounce } from "@shared/debounce";
+import { onceReady } from "@webpack";
+import { FluxDispatcher, SelectedGuildStore } from "@webpack/common";
+
+import { CssDiagnostic, lintCss } from "./cssLint";
+import { isThemeRuleActive } from "./themeRules";
 
 
 let style: HTMLStyleElement;
 let themesStyle: HTMLStyleElement;
+let themeVariablesStyle: HTMLStyleElement;
+
+let quickCss = "";
+let snippets: Snippet[] = [];
+
+// Bumped when local theme files change, so they aren't loaded from cache
+let localThemesVersion = Date.now();
+const webThemeUrls = new Map<string, { data: string; url: string; }>();
+let onlineThemes: Record<string, OnlineTheme> = {};
+let isDiscordReady = false;
+// The themes that were active when they were last loaded
+let lastActiveThemes = "";
 
 function createStyle(id: string) {
     const style = document.createElement("style");
@@ -39,53 +60,203 @@ async function initSystemValues() {
     createStyle("vencord-os-theme-values").textContent = `:root{${variables}}`;
 }
 
+// Selectors are checked against the page, so linting waits until Discord has loaded
+const lintQuickCss = debounce(() => {
+    const diagnostics: Record<string, CssDiagnostic[]> = { "": lintCss(quickCss) };
+    for (const snippet of snippets) diagnostics[snippet.name] = lintCss(snippet.css);
+
+    VencordNative.quickCss.setDiagnostics(diagnostics);
+}, 500);
+
+// Snippets come first, so the main QuickCSS file can override them
+function applyQuickCss() {
+    const { disabledSnippets } = Settings;
+
+    style.textContent = [
+        ...snippets
+            .filter(s => !disabledSnippets.includes(s.name))
+            .map(s => `/* Snippet: ${s.name} */\n${s.css}`),
+        quickCss
+    ].join("\n\n");
+    // At the time of writing this, changing textContent resets the disabled state
+    style.disabled = !Settings.useQuickCss;
+
+    if (isDiscordReady) lintQuickCss();
+}
+
 export async function toggle(isEnabled: boolean) {
     if (!style) {
         if (isEnabled) {
             style = createStyle("vencord-custom-css");
             VencordNative.quickCss.addChangeListener(css => {
-                style.textContent = css;
-                // At the time of writing this, changing textContent resets the disabled state
-                style.disabled = !Settings.useQuickCss;
+                quickCss = css;
+                applyQuickCss();
             });
-            style.textContent = await VencordNative.quickCss.get();
+            VencordNative.quickCss.addSnippetsChangeListener(newSnippets => {
+                snippets = newSnippets;
+                applyQuickCss();
+            });
+            SettingsStore.addChangeListener("disabledSnippets", applyQuickCss);
+            positionQuickCss();
+
+            [quickCss, snippets] = await Promise.all([
+                VencordNative.quickCss.get(),
+                VencordNative.quickCss.getSnippets()
+            ]);
+            applyQuickCss();
         }
     } else
         style.disabled = !isEnabled;
 }
 
-async function initThemes() {
-    themesStyle ??= createStyle("vencord-themes");
+// Values are written into a stylesheet as they are, so they must not be able to end their declaration or rule.
+// That rules out ; { } < as well as comments and escapes, and strings have to be closed on the same line
+const isSafeCssValue = (name: string, value: string) =>
+    !/[;{}<\\]|\/\*/.test(value)
+    && /^(?:[^"']|"[^"\n]*"|'[^'\n]*')*$/.test(value)
+    && CSS.supports(name, value);
 
-    const { themeLinks, enabledThemes } = Settings;
+async function applyThemeVariables() {
+    const { enabledThemes, themeVariables } = Settings;
 
-    const links: string[] = [...themeLinks];
+    // Values are kept when a theme stops declaring a variable, in case it comes back, but aren't applied
+    const themes = await VencordNative.themes.getThemesList();
+    const declarations = themes
+        .filter(theme => enabledThemes.includes(theme.fileName))
+        .flatMap(({ fileName, vars }) => Object.entries(themeVariables[fileName] ?? {})
+            .filter(([name, value]) =>
+                VARIABLE_NAME_REGEX.test(name) && vars.some(v => v.name === name) && isSafeCssValue(name, value)
+            )
+        )
+        .map(([name, value]) => `${name}: ${value} !important;`)
+        .join("");
 
-    if (IS_WEB) {
-        for (const theme of enabledThemes) {
-            const themeData = await VencordNative.themes.getThemeData(theme);
-            if (!themeData) continue;
-            const blob = new Blob([themeData], { type: "text/css" });
-            links.push(URL.createObjectURL(blob));
-        }
-    } else {
-        const localThemes = enabledThemes.map(theme => `vencord:///themes/${theme}?v=${Date.now()}`);
-        links.push(...localThemes);
+    // Themes often declare their variables for the theme classes instead of :root
+    themeVariablesStyle.textContent = declarations && `:root, .theme-dark, .theme-light {${declarations}}`;
+}
+
+/**
+ * Get the enabled local theme file names and online theme links in the order they load,
+ * see {@link Settings.themeOrder}
+ */
+export function getOrderedThemes() {
+    const { themeLinks, enabledThemes, themeOrder } = Settings;
+
+    // Themes missing from the order keep their default order after the others, as sort is stable
+    const rank = (theme: string) => {
+        const i = themeOrder.indexOf(theme);
+        return i === -1 ? themeOrder.length : i;
+    };
+
+    return [...themeLinks, ...enabledThemes].sort((a, b) => rank(a) - rank(b));
+}
+
+function isThemeActive(theme: string) {
+    const rule = Settings.themeRules[theme];
+    if (!rule) return true;
+    if (rule.type !== "time" && !isDiscordReady) return false;
+
+    return isThemeRuleActive(rule);
+}
+
+async function getWebThemeUrl(fileName: string) {
+    const data = await VencordNative.themes.getThemeData(fileName);
+    if (!data) return null;
+
+    const cached = webThemeUrls.get(fileName);
+    if (cached?.data === data) return cached.url;
+    if (cached) URL.revokeObjectURL(cached.url);
+
+    const url = URL.createObjectURL(new Blob([data], { type: "text/css" }));
+    webThemeUrls.set(fileName, { data, url });
+    return url;
+}
+
+function getThemeUrl(theme: string) {
+    if (Settings.themeLinks.includes(theme)) {
+        // Saved copies load instantly and work offline. Until the theme is saved, the link is used directly
+        const onlineTheme = onlineThemes[theme];
+        return onlineTheme?.cached
+            ? `vencord:///online-themes/${onlineTheme.fileName}?v=${onlineTheme.updatedAt}`
+            : theme.trim();
     }
+    if (IS_WEB) return getWebThemeUrl(theme);
+    return `vencord:///themes/${theme}?v=${localThemesVersion}`;
+}
+
+// Created before QuickCSS, which is then moved into place by positionQuickCss
+function createThemeStyles() {
+    themesStyle = createStyle("vencord-themes");
+    // Created after the themes, so the overrides win
+    themeVariablesStyle = createStyle("vencord-theme-variables");
+}
+
+async function initThemes() {
+    applyThemeVariables();
 
-    themesStyle.textContent = links.map(link => `@import url("${link.trim()}");`).join("\n");
+    const activeThemes = getOrderedThemes().filter(isThemeActive);
+    lastActiveThemes = activeThemes.join("\n");
+
+    const links = await Promise.all(activeThemes.map(getThemeUrl));
+    const css = links
+        .filter(Boolean)
+        .map(link => `@import url("${link}");`)
+        .join("\n");
+
+    // Importing the same themes again would make them flash
+    if (themesStyle.textContent !== css) themesStyle.textContent = css;
+}
+
+async function updateOnlineThemes() {
+    onlineThemes = await VencordNative.themes.getOnlineThemes();
+    initThemes();
+}
+
+function positionQuickCss() {
+    if (!style || !themesStyle) return;
+
+    if (Settings.themesOverrideQuickCss) themesStyle.before(style);
+    else themeVariablesStyle.after(style);
+}
+
+// Rules are checked often, so themes are only loaded again if a rule's result changed
+function checkThemeRules() {
+    if (!Object.keys(Settings.themeRules).length) return;
+
+    const activeThemes = getOrderedThemes().filter(isThemeActive).join("\n");
+    if (activeThemes !== lastActiveThemes) initThemes();
 }
 
 document.addEventListener("DOMContentLoaded", () => {
     initSystemValues();
-    initThemes();
+    createThemeStyles();
+    if (IS_WEB) initThemes();
+    else updateOnlineThemes();
 
     toggle(Settings.useQuickCss);
     SettingsStore.addChangeListener("useQuickCss", toggle);
 
     SettingsStore.addChangeListener("themeLinks", initThemes);
     SettingsStore.addChangeListener("enabledThemes", initThemes);
+    SettingsStore.addChangeListener("themeOrder", initThemes);
+    SettingsStore.addChangeListener("themeRules", initThemes);
+    SettingsStore.addChangeListener("themeVariables", applyThemeVariables);
+    SettingsStore.addChangeListener("themesOverrideQuickCss", positionQuickCss);
+
+    if (!IS_WEB) {
+        VencordNative.quickCss.addThemeChangeListener(() => {
+            localThemesVersion = Date.now();
+            initThemes();
+        });
+        VencordNative.themes.addOnlineThemesChangeListener(updateOnlineThemes);
+    }
 
-    if (!IS_WEB)
-        VencordNative.quickCss.addThemeChangeListener(initThemes);
+    setInterval(checkThemeRules, 60 * 1000);
+    onceReady.then(() => {
+        isDiscordReady = true;
+        if (style) lintQuickCss();
+        SelectedGuildStore.addChangeListener(checkThemeRules);
+        FluxDispatcher.subscribe("USER_SETTINGS_PROTO_UPDATE", checkThemeRules);
+        checkThemeRules();
+    });
 });
@@ -0,0 +1,126 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+
+// Encrypted settings are laid out as MAGIC | salt | iv | AES-GCM ciphertext of the deflated settings
+const MAGIC = new TextEncoder().encode("VCE1");
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const PBKDF2_ITERATIONS = 600_000;
+
+// Only stored on this device. The key itself isn't extractable, so the passphrase can't be recovered from it
+const KEY_STORE_KEY = "Vencord_cloudEncryptionKey";
+
+interface EncryptionKey {
+    salt: Uint8Array;
+    key: CryptoKey;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<EncryptionKey> {
+    const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+    const key = await crypto.subtle.deriveKey(
+        { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+        material,
+        { name: "AES-GCM", length: 256 },
+        false,
+        ["encrypt", "decrypt"]
+    );
+
+    return { salt, key };
+}
+
+function isSameBytes(a: Uint8Array, b: Uint8Array) {
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+}
+
+function getStoredKey() {
+    return DataStore.get<EncryptionKey>(KEY_STORE_KEY);
+}
+
+export async function isEncryptionEnabled() {
+    return await getStoredKey() != null;
+}
+
+export function isEncrypted(data: Uint8Array) {
+    return isSameBytes(data.subarray(0, MAGIC.length), MAGIC);
+}
+
+function parseEncrypted(data: Uint8Array) {
+    let offset = MAGIC.length;
+    const salt = data.slice(offset, offset += SALT_LENGTH);
+    const iv = data.slice(offset, offset += IV_LENGTH);
+    return { salt, iv, ciphertext: data.subarray(offset) };
+}
+
+async function decryptWith({ key }: EncryptionKey, data: Uint8Array) {
+    const { iv, ciphertext } = parseEncrypted(data);
+    try {
+        return new Uint8Array(await crypto.subtle.decrypt({ name: "AES-GCM", iv }, key, ciphertext));
+    } catch {
+        // AES-GCM fails authentication for any wrong key, it can't tell us more than that
+        throw new Error("Could not decrypt your cloud settings. Is your passphrase correct?");
+    }
+}
+
+/**
+ * Set up encryption with a new passphrase and a fresh salt. Settings have to be uploaded again afterwards
+ * for the cloud to use it
+ */
+export async function createEncryptionKey(passphrase: string) {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    await DataStore.set(KEY_STORE_KEY, await deriveKey(passphrase, salt));
+}
+
+/**
+ * Set up encryption using the passphrase that encrypted existing cloud data, like on a second device
+ * @throws If the passphrase is wrong. Nothing is stored in that case
+ */
+export async function unlockEncryptedData(passphrase: string, data: Uint8Array) {
+    const key = await deriveKey(passphrase, parseEncrypted(data).salt);
+    await decryptWith(key, data);
+    await DataStore.set(KEY_STORE_KEY, key);
+}
+
+export async function removeEncryptionKey() {
+    await DataStore.del(KEY_STORE_KEY);
+}
+
+/**
+ * Encrypt data for upload if encryption is set up, otherwise return it unchanged
+ */
+export async function encryptCloudData(data: Uint8Array) {
+    const stored = await getStoredKey();
+    if (!stored) return data;
+
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: "AES-GCM", iv }, stored.key, data));
+
+    const out = new Uint8Array(MAGIC.length + SALT_LENGTH + IV_LENGTH + ciphertext.length);
+    out.set(MAGIC);
+    out.set(stored.salt, MAGIC.length);
+    out.set(iv, MAGIC.length + SALT_LENGTH);
+    out.set(ciphertext, MAGIC.length + SALT_LENGTH + IV_LENGTH);
+    return out;
+}
+
+/**
+ * Decrypt downloaded data if it is encrypted, otherwise return it unchanged
+ * @throws A message meant for the user if this device can't decrypt the data
+ */
+export async function decryptCloudData(data: Uint8Array) {
+    if (!isEncrypted(data)) return data;
+
+    const stored = await getStoredKey();
+    if (!stored)
+        throw new Error("Your cloud settings are encrypted. Enter your passphrase in the Cloud tab to sync them.");
+
+    // A different salt means the passphrase was set up again on another device
+    if (!isSameBytes(stored.salt, parseEncrypted(data).salt))
+        throw new Error("Your cloud settings are encrypted with a different passphrase. Enter the new one in the Cloud tab.");
+
+    return decryptWith(stored, data);
+}
@@ -0,0 +1,445 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import * as DataStore from "@api/DataStore";
+import { DefaultSettings, migrateSettings, PlainSettings, Settings } from "@api/Settings";
+import { SNIPPET_NAME_REGEX } from "@shared/snippets";
+
+import { getSyncedKeyOwner } from "./dataStoreSync";
+import type { UnsyncedKeyFilter } from "./settingsMerge";
+import { OptionType, Plugin, PluginOptionsItem } from "./types";
+
+/**
+ * The format of settings backups. `dataStore` is optional and holds plugin data stored in the {@link DataStore}.
+ * `snippets` holds the QuickCSS snippets by name and is missing in backups from older versions
+ */
+export interface SettingsBackup {
+    settings: Record<string, any>;
+    quickCss: string;
+    snippets?: Record<string, string>;
+    dataStore?: Record<string, any>;
+}
+
+/**
+ * Keys to delete, which a backup can't express. Settings use dot notation, like `plugins.MessageLogger.ignoreUsers`
+ */
+export interface SettingsDeletions {
+    settings: string[];
+    dataStore: string[];
+}
+
+export const enum ImportSectionType {
+    CORE = "core",
+    PLUGIN = "plugin",
+    QUICK_CSS = "quickCss",
+    SNIPPET = "snippet",
+    DATA_STORE = "dataStore"
+}
+
+export interface ImportChange {
+    /** The changed key. Nested core settings use dot notation, like `notifications.timeout` */
+    key: string;
+    oldValue: any;
+    newValue: any;
+}
+
+export interface ImportSection {
+    /** Unique id, used to choose which sections to apply */
+    id: string;
+    type: ImportSectionType;
+    name: string;
+    /** Only contains valid values that differ from the current ones */
+    changes: ImportChange[];
+}
+
+export interface ImportIssue {
+    /** The section the key belongs to, like the plugin name */
+    section: string;
+    key: string;
+    message: string;
+}
+
+export interface SettingsImport {
+    sections: ImportSection[];
+    /** Unknown or invalid keys. These are never written */
+    issues: ImportIssue[];
+}
+
+const CORE_SECTION_NAME = "Vencord Settings";
+
+function isEqual(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(v => typeof v === "string");
+}
+
+function isJsonValue(value: unknown): boolean {
+    switch (typeof value) {
+        case "string":
+        case "boolean":
+            return true;
+        case "number":
+            return Number.isFinite(value);
+        case "object":
+            if (value === null) return true;
+            return Object.values(value).every(isJsonValue);
+        default:
+            return false;
+    }
+}
+
+function checkCoreType(def: unknown, value: unknown) {
+    // Settings without a default, like macosVibrancyStyle, are optional strings
+    if (def === undefined) return value == null || typeof value === "string" ? null : "Expected a string";
+    if (Array.isArray(def)) return Array.isArray(value) ? null : "Expected a list";
+    if (isPlainObject(def)) return isPlainObject(value) ? null : "Expected an object";
+    return typeof value === typeof def ? null : `Expected a ${typeof def}`;
+}
+
+function validateCoreSettings(
+    imported: Record<string, any>,
+    defaults: Record<string, any>,
+    current: Record<string, any> | undefined,
+    path: string,
+    changes: ImportChange[],
+    issues: ImportIssue[]
+) {
+    for (const [key, value] of Object.entries(imported)) {
+        const fullKey = path ? `${path}.${key}` : key;
+        // Plugin settings are validated separately
+        if (fullKey === "plugins") continue;
+
+        if (!(key in defaults)) {
+            issues.push({ section: CORE_SECTION_NAME, key: fullKey, message: "Unknown setting" });
+            continue;
+        }
+
+        const def = defaults[key];
+        if (isPlainObject(def) && Object.keys(def).length) {
+            if (!isPlainObject(value))
+                issues.push({ section: CORE_SECTION_NAME, key: fullKey, message: "Expected an object" });
+            else
+                validateCoreSettings(value, def, current?.[key], fullKey, changes, issues);
+            continue;
+        }
+
+        const error = checkCoreType(def, value);
+        if (error)
+            issues.push({ section: CORE_SECTION_NAME, key: fullKey, message: error });
+        else if (!isEqual(current?.[key], value))
+            changes.push({ key: fullKey, oldValue: current?.[key], newValue: value });
+    }
+}
+
+function checkOptionType(option: PluginOptionsItem, value: unknown) {
+    switch (option.type) {
+        case OptionType.STRING:
+        case OptionType.COLOR:
+            return typeof value === "string" ? null : "Expected a string";
+        case OptionType.NUMBER:
+        case OptionType.SLIDER:
+            return typeof value === "number" && Number.isFinite(value) ? null : "Expected a number";
+        case OptionType.BIGINT:
+            return typeof value === "number" || typeof value === "string" ? null : "Expected a number";
+        case OptionType.BOOLEAN:
+            return typeof value === "boolean" ? null : "Expected a boolean";
+        case OptionType.SELECT:
+            return option.options.some(o => o.value === value)
+                ? null
+                : `Expected one of ${option.options.map(o => JSON.stringify(o.value)).join(", ")}`;
+        case OptionType.COMPONENT:
+            // Custom components store whatever they like
+            return null;
+        case OptionType.LIST: {
+            if (!isStringArray(value)) return "Expected a list of strings";
+            if (option.maxItems != null && value.length > option.maxItems) return `Expected at most ${option.maxItems} items`;
+            for (const item of value) {
+                const valid = option.isValidItem?.(item) ?? true;
+                if (valid !== true) return typeof valid === "string" ? valid : `Invalid item ${JSON.stringify(item)}`;
+            }
+            return null;
+        }
+        case OptionType.MAP:
+            return isPlainObject(value) && Object.values(value).every(v => typeof v === "string")
+                ? null
+                : "Expected an object of strings";
+        case OptionType.KEYBIND:
+            return isStringArray(value) ? null : "Expected a list of keys";
+        case OptionType.USER:
+        case OptionType.CHANNEL:
+        case OptionType.GUILD:
+        case OptionType.ROLE:
+            if (option.multiple) return isStringArray(value) ? null : "Expected a list of IDs";
+            return typeof value === "string" ? null : "Expected an ID";
+    }
+}
+
+function validateOption(plugin: Plugin, option: PluginOptionsItem, value: unknown) {
+    const typeError = checkOptionType(option, value);
+    if (typeError || !("isValid" in option) || !option.isValid) return typeError;
+
+    try {
+        const isValid = (option.isValid as (this: unknown, value: unknown) => boolean | string).call(plugin.settings, value);
+        if (typeof isValid === "string") return isValid;
+        if (!isValid) return "Invalid value";
+    } catch (err) {
+        return `Failed to validate: ${err}`;
+    }
+
+    return null;
+}
+
+function validatePluginSettings(plugin: Plugin, imported: Record<string, any>, issues: ImportIssue[]) {
+    const { name } = plugin;
+
+    // Bring settings from older backups up to date first, so they are checked against the current options
+    const schema = plugin.settings?.schema;
+    if (schema) {
+        const result = migrateSettings(schema, imported);
+        if (result.failed) {
+            issues.push({ section: name, key: "settingsVersion", message: `Migration to version ${result.failed.version} failed: ${result.failed.error}` });
+            return [];
+        }
+        imported = { ...result.settings, settingsVersion: result.version };
+    }
+
+    const changes = [] as ImportChange[];
+    const current = Settings.plugins[name];
+
+    for (const [key, value] of Object.entries(imported)) {
+        const option = plugin.options?.[key];
+
+        let error: string | null;
+        if (key === "enabled") error = typeof value === "boolean" ? null : "Expected a boolean";
+        else if (key === "settingsVersion") error = typeof value === "number" ? null : "Expected a number";
+        // Plugins store private settings next to their options, see DefinedSettings.withPrivateSettings.
+        // Those aren't defined anywhere, so they can only be checked for being valid JSON
+        else if (!option) error = isJsonValue(value) ? null : "Expected a JSON value";
+        else error = validateOption(plugin, option, value);
+
+        if (error)
+            issues.push({ section: name, key, message: error });
+        else if (!isEqual(current[key], value))
+            changes.push({ key, oldValue: current[key], newValue: value });
+    }
+
+    // The version alone isn't a change worth showing
+    return changes.every(c => c.key === "settingsVersion") ? [] : changes;
+}
+
+/**
+ * Validate a settings backup against the current settings and every plugin's settings definition.
+ * Nothing is written, use {@link applySettingsImport} to apply the result
+ */
+export async function validateSettingsBackup(backup: unknown): Promise<SettingsImport> {
+    if (!isPlainObject(backup) || !isPlainObject(backup.settings) || typeof backup.quickCss !== "string")
+        throw new Error("Invalid Settings. Is this even a Vencord Settings file?");
+
+    const { settings, quickCss, snippets, dataStore } = backup as SettingsBackup;
+    const { plugins } = Vencord.Plugins;
+
+    const sections = [] as ImportSection[];
+    const issues = [] as ImportIssue[];
+
+    const coreChanges = [] as ImportChange[];
+    validateCoreSettings(settings, DefaultSettings, PlainSettings, "", coreChanges, issues);
+    if (coreChanges.length)
+        sections.push({ id: ImportSectionType.CORE, type: ImportSectionType.CORE, name: CORE_SECTION_NAME, changes: coreChanges });
+
+    if (settings.plugins != null && !isPlainObject(settings.plugins)) {
+        issues.push({ section: CORE_SECTION_NAME, key: "plugins", message: "Expected an object" });
+    } else {
+        for (const [name, pluginSettings] of Object.entries(settings.plugins ?? {})) {
+            if (!plugins[name]) {
+                issues.push({ section: name, key: "*", message: "Unknown plugin" });
+                continue;
+            }
+            if (!isPlainObject(pluginSettings)) {
+                issues.push({ section: name, key: "*", message: "Expected an object" });
+                continue;
+            }
+
+            const changes = validatePluginSettings(plugins[name], pluginSettings, issues);
+            if (changes.length)
+                sections.push({ id: `${ImportSectionType.PLUGIN}:${name}`, type: ImportSectionType.PLUGIN, name, changes });
+        }
+    }
+
+    const currentQuickCss = await VencordNative.quickCss.get();
+    if (quickCss !== currentQuickCss)
+        sections.push({
+            id: ImportSectionType.QUICK_CSS,
+            type: ImportSectionType.QUICK_CSS,
+            name: "QuickCSS",
+            changes: [{ key: "quickCss", oldValue: currentQuickCss, newValue: quickCss }]
+        });
+
+    if (snippets != null && !isPlainObject(snippets)) {
+        issues.push({ section: "Snippets", key: "*", message: "Expected an object" });
+    } else if (snippets) {
+        const currentSnippets = await VencordNative.quickCss.getSnippets();
+
+        for (const [name, css] of Object.entries(snippets)) {
+            if (!SNIPPET_NAME_REGEX.test(name)) {
+                issues.push({ section: "Snippets", key: name, message: "Invalid snippet name" });
+                continue;
+            }
+            if (typeof css !== "string") {
+                issues.push({ section: "Snippets", key: name, message: "Expected a string" });
+                continue;
+            }
+
+            const currentCss = currentSnippets.find(s => s.name === name)?.css;
+            if (css !== currentCss)
+                sections.push({
+                    id: `${ImportSectionType.SNIPPET}:${name}`,
+                    type: ImportSectionType.SNIPPET,
+                    name,
+                    changes: [{ key: name, oldValue: currentCss, newValue: css }]
+                });
+        }
+
+        // Like QuickCSS, the backup has all snippets, so those missing from it were deleted
+        for (const { name, css } of currentSnippets) {
+            if (!(name in snippets))
+                sections.push({
+                    id: `${ImportSectionType.SNIPPET}:${name}`,
+                    type: ImportSectionType.SNIPPET,
+                    name,
+                    changes: [{ key: name, oldValue: css, newValue: undefined }]
+                });
+        }
+    }
+
+    if (dataStore != null && !isPlainObject(dataStore)) {
+        issues.push({ section: "DataStore", key: "*", message: "Expected an object" });
+    } else if (dataStore) {
+        for (const [key, value] of Object.entries(dataStore)) {
+            if (!getSyncedKeyOwner(key)) {
+                issues.push({ section: "DataStore", key, message: "Not declared as synced by any plugin" });
+                continue;
+            }
+
+            const currentValue = await DataStore.get(key);
+            if (!isEqual(currentValue, value))
+                sections.push({
+                    id: `${ImportSectionType.DATA_STORE}:${key}`,
+                    type: ImportSectionType.DATA_STORE,
+                    name: key,
+                    changes: [{ key, oldValue: currentValue, newValue: value }]
+                });
+        }
+    }
+
+    return { sections, issues };
+}
+
+/**
+ * Apply a validated import
+ * @param sectionIds The ids of the sections to apply. Defaults to all of them
+ */
+export async function applySettingsImport({ sections }: SettingsImport, sectionIds = sections.map(s => s.id)) {
+    let quickCss: string | undefined;
+
+    for (const { id, type, name, changes } of sections) {
+        if (!sectionIds.includes(id)) continue;
+
+        switch (type) {
+            case ImportSectionType.CORE:
+                for (const { key, newValue } of changes) {
+                    const path = key.split(".");
+                    const last = path.pop()!;
+                    let target = PlainSettings as Record<string, any>;
+                    for (const k of path) target = target[k] ??= {};
+                    target[last] = newValue;
+                }
+                break;
+            case ImportSectionType.PLUGIN: {
+                const target = PlainSettings.plugins[name] ??= { enabled: false };
+                for (const { key, newValue } of changes) target[key] = newValue;
+                break;
+            }
+            case ImportSectionType.QUICK_CSS:
+                quickCss = changes[0].newValue;
+                break;
+            case ImportSectionType.SNIPPET: {
+                const { newValue } = changes[0];
+                if (newValue === undefined) await VencordNative.quickCss.deleteSnippet(name);
+                else await VencordNative.quickCss.setSnippet(name, newValue);
+                break;
+            }
+            case ImportSectionType.DATA_STORE:
+                await DataStore.set(name, changes[0].newValue);
+                break;
+        }
+    }
+
+    // Written without notifying listeners, like a full restore. Most changes need a restart anyway
+    await VencordNative.settings.set(PlainSettings);
+    if (quickCss !== undefined) await VencordNative.quickCss.set(quickCss);
+}
+
+/**
+ * Write a backup as it is, like restores did before imports were validated. Cloud sync uses this, because
+ * settings of plugins this device doesn't have and values it considers invalid would otherwise be missing
+ * from its next upload and be deleted on every device
+ * @param isUnsyncedDataStoreKey Checks for DataStore keys this device doesn't sync, which are left alone
+ */
+export async function applySettingsBackup(backup: unknown, isUnsyncedDataStoreKey: UnsyncedKeyFilter) {
+    if (!isPlainObject(backup) || !isPlainObject(backup.settings) || typeof backup.quickCss !== "string")
+        throw new Error("Invalid Settings. Is this even a Vencord Settings file?");
+
+    const { settings, quickCss, snippets, dataStore } = backup as SettingsBackup;
+
+    Object.assign(PlainSettings, settings);
+    await VencordNative.settings.set(PlainSettings);
+    if (quickCss !== await VencordNative.quickCss.get()) await VencordNative.quickCss.set(quickCss);
+
+    if (isPlainObject(snippets)) {
+        const currentSnippets = await VencordNative.quickCss.getSnippets();
+
+        for (const [name, css] of Object.entries(snippets)) {
+            if (!SNIPPET_NAME_REGEX.test(name) || typeof css !== "string") continue;
+            if (css !== currentSnippets.find(s => s.name === name)?.css) await VencordNative.quickCss.setSnippet(name, css);
+        }
+
+        for (const { name } of currentSnippets) {
+            if (!(name in snippets)) await VencordNative.quickCss.deleteSnippet(name);
+        }
+    }
+
+    if (isPlainObject(dataStore)) {
+        for (const [key, value] of Object.entries(dataStore)) {
+            if (!isUnsyncedDataStoreKey(key)) await DataStore.set(key, value);
+        }
+    }
+}
+
+/**
+ * Delete settings and synced DataStore keys, for example ones that were deleted on another device
+ */
+export async function applySettingsDeletions({ settings, dataStore }: SettingsDeletions) {
+    for (const key of settings) {
+        const path = key.split(".");
+        const last = path.pop()!;
+
+        let target: unknown = PlainSettings;
+        for (const k of path) target = isPlainObject(target) ? target[k] : undefined;
+        if (isPlainObject(target)) delete target[last];
+    }
+
+    for (const key of dataStore) {
+        if (getSyncedKeyOwner(key)) await DataStore.del(key);
+    }
+
+    await VencordNative.settings.set(PlainSettings);
+}
@@ -0,0 +1,206 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { SNIPPET_NAME_REGEX } from "@shared/snippets";
+
+import { SettingsBackup, SettingsDeletions } from "./settingsImport";
+
+/**
+ * A key that was changed differently on this device and in the cloud since the last sync
+ */
+export interface SyncConflict {
+    /**
+     * The path of the setting, like `plugins.MessageLogger.ignoreUsers`. QuickCSS uses `quickCss`,
+     * snippet names are prefixed with `snippet:` and DataStore keys with `dataStore:`
+     */
+    key: string;
+    base: any;
+    local: any;
+    remote: any;
+}
+
+export const enum ConflictChoice {
+    LOCAL = "local",
+    REMOTE = "remote"
+}
+
+type FlatSettings = Record<string, any>;
+
+/**
+ * Checks whether this device doesn't sync a DataStore key, for example because none of its plugins declared it
+ */
+export type UnsyncedKeyFilter = (key: string) => boolean;
+
+const QUICK_CSS_KEY = "quickCss";
+const SNIPPET_PREFIX = "snippet:";
+// DataStore keys can contain dots, so they aren't split into paths like settings
+const DATA_STORE_PREFIX = "dataStore:";
+
+// Device specific settings that are never synced
+const EXCLUDED_KEYS = ["cloud"];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Keys this device can't store are missing from its exports without having been deleted, so the cloud value is kept
+function isUnsynced(key: string, isUnsyncedDataStoreKey: UnsyncedKeyFilter) {
+    if (key.startsWith(SNIPPET_PREFIX)) return !SNIPPET_NAME_REGEX.test(key.slice(SNIPPET_PREFIX.length));
+    if (key.startsWith(DATA_STORE_PREFIX)) return isUnsyncedDataStoreKey(key.slice(DATA_STORE_PREFIX.length));
+    return false;
+}
+
+// Plugin options and profiles are compared as a whole, even if their value is an object
+function isLeaf(path: string[]) {
+    switch (path[0]) {
+        case "plugins":
+            return path.length === 3;
+        case "profiles":
+            return path.length === 2;
+        default:
+            return false;
+    }
+}
+
+function flatten(value: unknown, path: string[], out: FlatSettings) {
+    if (!isPlainObject(value) || isLeaf(path)) {
+        out[path.join(".")] = value;
+        return;
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+        if (!path.length && EXCLUDED_KEYS.includes(key)) continue;
+        flatten(child, [...path, key], out);
+    }
+}
+
+/**
+ * Flatten a backup into a map of setting paths to values, which is the granularity conflicts are detected at
+ */
+export function flattenBackup({ settings, quickCss, snippets, dataStore }: SettingsBackup) {
+    const out = {} as FlatSettings;
+    flatten(settings, [], out);
+    out[QUICK_CSS_KEY] = quickCss;
+    for (const [name, css] of Object.entries(snippets ?? {}))
+        out[SNIPPET_PREFIX + name] = css;
+    for (const [key, value] of Object.entries(dataStore ?? {}))
+        out[DATA_STORE_PREFIX + key] = value;
+    return out;
+}
+
+/**
+ * Turn flattened settings back into a backup. Device specific settings are taken from `local`
+ */
+export function unflattenBackup(flat: FlatSettings, local: SettingsBackup): SettingsBackup {
+    const settings = {} as Record<string, any>;
+    const snippets = {} as Record<string, string>;
+    const dataStore = {} as Record<string, any>;
+
+    for (const [key, value] of Object.entries(flat)) {
+        if (key === QUICK_CSS_KEY || value === undefined) continue;
+
+        if (key.startsWith(SNIPPET_PREFIX)) {
+            snippets[key.slice(SNIPPET_PREFIX.length)] = value;
+            continue;
+        }
+
+        if (key.startsWith(DATA_STORE_PREFIX)) {
+            dataStore[key.slice(DATA_STORE_PREFIX.length)] = value;
+            continue;
+        }
+
+        const path = key.split(".");
+        const last = path.pop()!;
+        let target = settings;
+        for (const k of path) target = target[k] ??= {};
+        target[last] = value;
+    }
+
+    for (const key of EXCLUDED_KEYS) {
+        if (key in local.settings) settings[key] = local.settings[key];
+    }
+
+    return { settings, quickCss: flat[QUICK_CSS_KEY] ?? "", snippets, dataStore };
+}
+
+/**
+ * Get the keys that exist locally, but not in the merged settings because they were deleted on another device.
+ * Importing a backup only writes the keys it has, so these have to be deleted separately.
+ * Snippets aren't included, as backups have all of them and missing ones are deleted on import
+ */
+export function getDeletions(merged: FlatSettings, local: SettingsBackup): SettingsDeletions {
+    const deletions: SettingsDeletions = { settings: [], dataStore: [] };
+
+    for (const [key, value] of Object.entries(flattenBackup(local))) {
+        if (value === undefined || merged[key] !== undefined) continue;
+        if (key === QUICK_CSS_KEY || key.startsWith(SNIPPET_PREFIX)) continue;
+
+        if (key.startsWith(DATA_STORE_PREFIX))
+            deletions.dataStore.push(key.slice(DATA_STORE_PREFIX.length));
+        else
+            deletions.settings.push(key);
+    }
+
+    return deletions;
+}
+
+/**
+ * Three-way merge local and remote settings. Keys only changed on one side since the base snapshot
+ * are taken from that side, keys changed differently on both sides are returned as conflicts and
+ * keep their local value until resolved. Keys this device doesn't sync always keep their remote value
+ */
+export function mergeSettings(base: SettingsBackup, local: SettingsBackup, remote: SettingsBackup, isUnsyncedDataStoreKey: UnsyncedKeyFilter) {
+    const flatBase = flattenBackup(base);
+    const flatLocal = flattenBackup(local);
+    const flatRemote = flattenBackup(remote);
+
+    const merged = { ...flatLocal };
+    const conflicts = [] as SyncConflict[];
+
+    for (const key of new Set([...Object.keys(flatLocal), ...Object.keys(flatRemote)])) {
+        const localValue = flatLocal[key];
+        const remoteValue = flatRemote[key];
+        if (isEqual(localValue, remoteValue)) continue;
+
+        if (isUnsynced(key, isUnsyncedDataStoreKey)) {
+            merged[key] = remoteValue;
+            continue;
+        }
+
+        const baseValue = flatBase[key];
+        if (isEqual(remoteValue, baseValue)) continue;
+
+        if (isEqual(localValue, baseValue))
+            merged[key] = remoteValue;
+        else
+            conflicts.push({ key, base: baseValue, local: localValue, remote: remoteValue });
+    }
+
+    return { merged, conflicts };
+}
+
+/**
+ * Apply the chosen side of each conflict to merged settings
+ */
+export function resolveConflicts(merged: FlatSettings, conflicts: SyncConflict[], choices: Record<string, ConflictChoice>) {
+    const resolved = { ...merged };
+    for (const { key, local, remote } of conflicts)
+        resolved[key] = choices[key] === ConflictChoice.REMOTE ? remote : local;
+
+    return resolved;
+}
+
+export function isSameSettings(a: FlatSettings, b: FlatSettings) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+        if (!isEqual(a[key], b[key])) return false;
+    }
+    return true;
+}
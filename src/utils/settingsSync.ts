@@ -16,17 +16,30 @@
  * along with this program.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import * as DataStore from "@api/DataStore";
 import { showNotification } from "@api/Notifications";
 import { PlainSettings, Settings } from "@api/Settings";
+import { importProfile } from "@api/SettingsProfiles";
+import { resolveSyncConflicts } from "@components/VencordSettings/SyncConflictModal";
 import { Toasts } from "@webpack/common";
 import { deflateSync, inflateSync } from "fflate";
 
 import { getCloudAuth, getCloudUrl } from "./cloud";
+import { exportDataStore, getUnsyncedKeyFilter } from "./dataStoreSync";
+import { localStorage } from "./localStorage";
 import { Logger } from "./Logger";
 import { relaunch } from "./native";
+import { createEncryptionKey, decryptCloudData, encryptCloudData, isEncrypted, removeEncryptionKey, unlockEncryptedData } from "./settingsCrypto";
+import { applySettingsBackup, applySettingsDeletions, applySettingsImport, SettingsBackup, SettingsImport, validateSettingsBackup } from "./settingsImport";
+import { flattenBackup, getDeletions, isSameSettings, mergeSettings, resolveConflicts, unflattenBackup } from "./settingsMerge";
 import { chooseFile, saveFile } from "./web";
 
-export async function importSettings(data: string) {
+/**
+ * Parse and validate a settings file without applying it. Profiles exported from the Vencord tab
+ * are added to the profiles right away, as they don't touch anything else
+ * @returns The validated import, or null if the file was a profile
+ */
+export async function previewSettingsImport(data: string): Promise<SettingsImport | null> {
     try {
         var parsed = JSON.parse(data);
     } catch (err) {
@@ -34,18 +47,37 @@ export async function importSettings(data: string) {
         throw new Error("Failed to parse JSON: " + String(err));
     }
 
-    if ("settings" in parsed && "quickCss" in parsed) {
-        Object.assign(PlainSettings, parsed.settings);
-        await VencordNative.settings.set(parsed.settings);
-        await VencordNative.quickCss.set(parsed.quickCss);
-    } else
-        throw new Error("Invalid Settings. Is this even a Vencord Settings file?");
+    if (parsed && "profileName" in parsed && "profile" in parsed) {
+        importProfile(String(parsed.profileName), parsed.profile);
+        return null;
+    }
+
+    return validateSettingsBackup(parsed);
 }
 
-export async function exportSettings({ minify }: { minify?: boolean; } = {}) {
+/**
+ * Import every valid setting of a settings file. Unknown and invalid keys are skipped and returned as issues
+ */
+export async function importSettings(data: string) {
+    const settingsImport = await previewSettingsImport(data);
+    if (settingsImport) {
+        await applySettingsImport(settingsImport);
+        if (settingsImport.issues.length)
+            new Logger("SettingsSync").warn("Skipped invalid settings while importing:", settingsImport.issues);
+    }
+
+    return settingsImport;
+}
+
+/**
+ * @param cloud Whether the settings are exported for cloud sync. Leaves out plugin data the user doesn't want to sync
+ */
+export async function exportSettings({ minify, cloud }: { minify?: boolean; cloud?: boolean; } = {}) {
     const settings = VencordNative.settings.get();
     const quickCss = await VencordNative.quickCss.get();
-    return JSON.stringify({ settings, quickCss }, null, minify ? undefined : 4);
+    const snippets = Object.fromEntries((await VencordNative.quickCss.getSnippets()).map(s => [s.name, s.css]));
+    const dataStore = await exportDataStore(cloud);
+    return JSON.stringify({ settings, quickCss, snippets, dataStore } satisfies SettingsBackup, null, minify ? undefined : 4);
 }
 
 export async function downloadSettingsBackup() {
@@ -73,7 +105,11 @@ const toastSuccess = () =>
 const toastFailure = (err: any) =>
     toast(Toasts.Type.FAILURE, `Failed to import settings: ${String(err)}`);
 
-export async function uploadSettingsBackup(showToast = true): Promise<void> {
+/**
+ * Let the user pick a settings file
+ * @returns The file contents, or null if no file was picked
+ */
+export async function readSettingsBackup(): Promise<string | null> {
     if (IS_DISCORD_DESKTOP) {
         const [file] = await DiscordNative.fileManager.openFiles({
             filters: [
@@ -82,38 +118,186 @@ export async function uploadSettingsBackup(showToast = true): Promise<void> {
             ]
         });
 
-        if (file) {
-            try {
-                await importSettings(new TextDecoder().decode(file.data));
-                if (showToast) toastSuccess();
-            } catch (err) {
-                new Logger("SettingsSync").error(err);
-                if (showToast) toastFailure(err);
-            }
-        }
+        return file ? new TextDecoder().decode(file.data) : null;
     } else {
         const file = await chooseFile("application/json");
-        if (!file) return;
-
-        const reader = new FileReader();
-        reader.onload = async () => {
-            try {
-                await importSettings(reader.result as string);
-                if (showToast) toastSuccess();
-            } catch (err) {
-                new Logger("SettingsSync").error(err);
-                if (showToast) toastFailure(err);
-            }
-        };
-        reader.readAsText(file);
+        return file ? file.text() : null;
+    }
+}
+
+export async function uploadSettingsBackup(showToast = true): Promise<void> {
+    const data = await readSettingsBackup();
+    if (data == null) return;
+
+    try {
+        await importSettings(data);
+        if (showToast) toastSuccess();
+    } catch (err) {
+        new Logger("SettingsSync").error(err);
+        if (showToast) toastFailure(err);
     }
 }
 
 // Cloud settings
 const cloudSettingsLogger = new Logger("Cloud:Settings", "#39b7e0");
 
-export async function putCloudSettings(manual?: boolean) {
-    const settings = await exportSettings({ minify: true });
+const SYNC_BASE_KEY = "Vencord_cloudSyncBase";
+const SYNC_HISTORY_KEY = "Vencord_cloudSyncHistory";
+const MAX_SYNC_HISTORY = 10;
+
+// The cloud version the user was last notified about conflicts with
+let notifiedConflictsVersion: number | null = null;
+
+/**
+ * The settings as they were after the last sync, used as base for merging
+ */
+interface SyncBase {
+    /** The version the cloud returned for these settings */
+    version: number;
+    data: string;
+}
+
+export const enum SyncHistoryType {
+    UPLOAD = "upload",
+    DOWNLOAD = "download",
+    MERGE = "merge"
+}
+
+export interface SyncHistoryEntry {
+    type: SyncHistoryType;
+    timestamp: number;
+    /**
+     * The local settings at that time. For uploads these are the uploaded settings,
+     * for downloads and merges the settings before they were changed
+     */
+    data: string;
+}
+
+function setSyncBase(version: number, data: string) {
+    return DataStore.set(SYNC_BASE_KEY, { version, data } satisfies SyncBase);
+}
+
+async function addSyncHistory(type: SyncHistoryType, data: string) {
+    await DataStore.update<SyncHistoryEntry[]>(SYNC_HISTORY_KEY, history =>
+        [{ type, timestamp: Date.now(), data }, ...history ?? []].slice(0, MAX_SYNC_HISTORY)
+    );
+}
+
+export async function getSyncHistory() {
+    return await DataStore.get<SyncHistoryEntry[]>(SYNC_HISTORY_KEY) ?? [];
+}
+
+/**
+ * Decrypt and inflate settings downloaded from the cloud. If they can't be decrypted, the user is told why
+ * @returns The settings, or null if they couldn't be decrypted
+ */
+async function decodeCloudSettings(data: ArrayBuffer) {
+    try {
+        var decrypted = await decryptCloudData(new Uint8Array(data));
+    } catch (e: any) {
+        cloudSettingsLogger.error("Failed to decrypt settings", e);
+        showNotification({
+            title: "Cloud Settings",
+            source: "Cloud",
+            body: e.message,
+            color: "var(--red-360)"
+        });
+        return null;
+    }
+
+    return new TextDecoder().decode(inflateSync(decrypted));
+}
+
+async function downloadCloudData() {
+    const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
+        method: "GET",
+        headers: {
+            Authorization: await getCloudAuth(),
+            Accept: "application/octet-stream"
+        },
+    });
+
+    if (res.status === 404) return null;
+    if (!res.ok) throw new Error(`API returned ${res.status}`);
+
+    return new Uint8Array(await res.arrayBuffer());
+}
+
+/**
+ * Check that the cloud has no encrypted settings this device can't decrypt, because it doesn't know the passphrase.
+ * Uploading would replace those with unencrypted ones. If there are, the user is asked for the passphrase
+ */
+async function canOverwriteCloudSettings() {
+    try {
+        const data = await downloadCloudData();
+        if (data) await decryptCloudData(data);
+        return true;
+    } catch (e: any) {
+        cloudSettingsLogger.error("Not uploading settings", e);
+        showNotification({
+            title: "Cloud Settings",
+            source: "Cloud",
+            body: e.message,
+            color: "var(--red-360)"
+        });
+        return false;
+    }
+}
+
+/**
+ * Set the passphrase cloud settings are encrypted with. If the cloud has settings encrypted with a passphrase
+ * this device doesn't know yet, like one set up on another device, the passphrase has to match it and is only
+ * stored. Otherwise the settings are encrypted with the new passphrase and uploaded again
+ * @returns Whether the passphrase was used to unlock existing settings
+ * @throws If the passphrase doesn't match the one of the existing settings
+ */
+export async function setCloudPassphrase(passphrase: string) {
+    const data = await downloadCloudData();
+    const canDecrypt = data && await decryptCloudData(data).then(() => true, () => false);
+
+    if (data && isEncrypted(data) && !canDecrypt) {
+        await unlockEncryptedData(passphrase, data);
+        cloudSettingsLogger.info("Unlocked encrypted cloud settings");
+        return true;
+    }
+
+    await createEncryptionKey(passphrase);
+    await putCloudSettings();
+    cloudSettingsLogger.info("Encrypted cloud settings with a new passphrase");
+    return false;
+}
+
+/**
+ * Forget the passphrase and upload the settings unencrypted again
+ */
+export async function disableCloudEncryption() {
+    await removeEncryptionKey();
+    await putCloudSettings();
+}
+
+/**
+ * Export the settings to upload. Keys this device doesn't sync are kept as they were in the cloud
+ * at the last sync, so uploading doesn't delete them on other devices
+ */
+async function exportCloudSettings() {
+    const data = await exportSettings({ minify: true, cloud: true });
+    const base = await DataStore.get<SyncBase>(SYNC_BASE_KEY);
+    if (!base) return data;
+
+    const local: SettingsBackup = JSON.parse(data);
+    const cloud: SettingsBackup = JSON.parse(base.data);
+    // With the base as the remote side, every local change wins
+    const { merged } = mergeSettings(cloud, local, cloud, await getUnsyncedKeyFilter());
+    return JSON.stringify(unflattenBackup(merged, local));
+}
+
+/**
+ * Upload the local settings, overwriting the ones in the cloud
+ * @param data The settings to upload instead of the local ones
+ * @returns Whether the upload succeeded
+ */
+export async function putCloudSettings(manual?: boolean, data?: string) {
+    const settings = data ?? await exportCloudSettings();
 
     try {
         const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
@@ -122,39 +306,49 @@ export async function putCloudSettings(manual?: boolean) {
                 Authorization: await getCloudAuth(),
                 "Content-Type": "application/octet-stream"
             },
-            body: deflateSync(new TextEncoder().encode(settings))
+            body: await encryptCloudData(deflateSync(new TextEncoder().encode(settings)))
         });
 
         if (!res.ok) {
             cloudSettingsLogger.error(`Failed to sync up, API returned ${res.status}`);
             showNotification({
                 title: "Cloud Settings",
+                source: "Cloud",
                 body: `Could not synchronize settings to cloud (API returned ${res.status}).`,
                 color: "var(--red-360)"
             });
-            return;
+            return false;
         }
 
         const { written } = await res.json();
         PlainSettings.cloud.settingsSyncVersion = written;
         VencordNative.settings.set(PlainSettings);
 
+        await setSyncBase(written, settings);
+        await addSyncHistory(SyncHistoryType.UPLOAD, settings);
+
         cloudSettingsLogger.info("Settings uploaded to cloud successfully");
 
         if (manual) {
             showNotification({
                 title: "Cloud Settings",
+                source: "Cloud",
                 body: "Synchronized settings to the cloud!",
                 noPersist: true,
             });
         }
+
+        return true;
     } catch (e: any) {
         cloudSettingsLogger.error("Failed to sync up", e);
         showNotification({
             title: "Cloud Settings",
+            source: "Cloud",
             body: `Could not synchronize settings to the cloud (${e.toString()}).`,
             color: "var(--red-360)"
         });
+
+        return false;
     }
 }
 
@@ -174,6 +368,7 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
             if (shouldNotify)
                 showNotification({
                     title: "Cloud Settings",
+                    source: "Cloud",
                     body: "There are no settings in the cloud.",
                     noPersist: true
                 });
@@ -185,6 +380,7 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
             if (shouldNotify)
                 showNotification({
                     title: "Cloud Settings",
+                    source: "Cloud",
                     body: "Your settings are up to date.",
                     noPersist: true
                 });
@@ -195,6 +391,7 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
             cloudSettingsLogger.error(`Failed to sync down, API returned ${res.status}`);
             showNotification({
                 title: "Cloud Settings",
+                source: "Cloud",
                 body: `Could not synchronize settings from the cloud (API returned ${res.status}).`,
                 color: "var(--red-360)"
             });
@@ -209,25 +406,29 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
             if (shouldNotify)
                 showNotification({
                     title: "Cloud Settings",
+                    source: "Cloud",
                     body: "Your local settings are newer than the cloud ones.",
                     noPersist: true,
                 });
             return;
         }
 
-        const data = await res.arrayBuffer();
+        const settings = await decodeCloudSettings(await res.arrayBuffer());
+        if (settings == null) return false;
 
-        const settings = new TextDecoder().decode(inflateSync(new Uint8Array(data)));
-        await importSettings(settings);
+        await addSyncHistory(SyncHistoryType.DOWNLOAD, await exportSettings({ minify: true }));
+        await applySettingsBackup(JSON.parse(settings), await getUnsyncedKeyFilter());
 
         // sync with server timestamp instead of local one
         PlainSettings.cloud.settingsSyncVersion = written;
         VencordNative.settings.set(PlainSettings);
+        await setSyncBase(written, settings);
 
         cloudSettingsLogger.info("Settings loaded from cloud successfully");
         if (shouldNotify)
             showNotification({
                 title: "Cloud Settings",
+                source: "Cloud",
                 body: "Your settings have been updated! Click here to restart to fully apply changes!",
                 color: "var(--green-360)",
                 onClick: IS_WEB ? () => location.reload() : relaunch,
@@ -239,6 +440,7 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
         cloudSettingsLogger.error("Failed to sync down", e);
         showNotification({
             title: "Cloud Settings",
+            source: "Cloud",
             body: `Could not synchronize settings from the cloud (${e.toString()}).`,
             color: "var(--red-360)"
         });
@@ -247,6 +449,139 @@ export async function getCloudSettings(shouldNotify = true, force = false) {
     }
 }
 
+/**
+ * Synchronize settings with the cloud by merging local and cloud changes since the last sync.
+ * Conflicting changes are resolved by the user. If this isn't a manual sync, they are asked to do so
+ * with a notification instead of a modal
+ * @returns Whether local settings were changed
+ */
+export async function syncCloudSettings(manual = false) {
+    const base = await DataStore.get<SyncBase>(SYNC_BASE_KEY);
+
+    // Without a base there is nothing to merge against, so pick a side like older versions did
+    if (!base) {
+        if (!localStorage.Vencord_settingsDirty) return getCloudSettings(manual);
+
+        if (await canOverwriteCloudSettings() && await putCloudSettings(manual))
+            delete localStorage.Vencord_settingsDirty;
+        return false;
+    }
+
+    try {
+        const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
+            method: "GET",
+            headers: {
+                Authorization: await getCloudAuth(),
+                Accept: "application/octet-stream",
+                "If-None-Match": base.version.toString()
+            },
+        });
+
+        // Nothing changed in the cloud since the last sync, so local changes can be uploaded as they are
+        if (res.status === 404 || res.status === 304) {
+            if (localStorage.Vencord_settingsDirty) {
+                if (await putCloudSettings(manual)) delete localStorage.Vencord_settingsDirty;
+            } else if (manual) {
+                showNotification({
+                    title: "Cloud Settings",
+                    source: "Cloud",
+                    body: "Your settings are up to date.",
+                    noPersist: true
+                });
+            }
+            return false;
+        }
+
+        if (!res.ok) {
+            cloudSettingsLogger.error(`Failed to sync, API returned ${res.status}`);
+            showNotification({
+                title: "Cloud Settings",
+                source: "Cloud",
+                body: `Could not synchronize settings with the cloud (API returned ${res.status}).`,
+                color: "var(--red-360)"
+            });
+            return false;
+        }
+
+        const written = Number(res.headers.get("etag")!);
+        const remoteData = await decodeCloudSettings(await res.arrayBuffer());
+        if (remoteData == null) return false;
+
+        const localData = await exportSettings({ minify: true, cloud: true });
+
+        const local: SettingsBackup = JSON.parse(localData);
+        const remote: SettingsBackup = JSON.parse(remoteData);
+        const isUnsyncedDataStoreKey = await getUnsyncedKeyFilter();
+        const { conflicts, ...result } = mergeSettings(JSON.parse(base.data), local, remote, isUnsyncedDataStoreKey);
+        let { merged } = result;
+
+        if (conflicts.length) {
+            cloudSettingsLogger.info(`${conflicts.length} settings were changed both locally and in the cloud`);
+
+            if (!manual) {
+                // Every settings change syncs again, so only notify once until the cloud changes
+                if (notifiedConflictsVersion === written) return false;
+                notifiedConflictsVersion = written;
+
+                showNotification({
+                    title: "Cloud Settings",
+                    source: "Cloud",
+                    body: `${conflicts.length} settings were changed both on this device and another one. Click here to choose which to keep!`,
+                    color: "var(--yellow-360)",
+                    onClick: () => syncCloudSettings(true)
+                });
+                return false;
+            }
+
+            const choices = await resolveSyncConflicts(conflicts);
+            if (!choices) return false;
+            merged = resolveConflicts(merged, conflicts, choices);
+        }
+
+        const localChanged = !isSameSettings(merged, flattenBackup(local));
+        if (localChanged) {
+            await addSyncHistory(SyncHistoryType.MERGE, localData);
+            await applySettingsBackup(unflattenBackup(merged, local), isUnsyncedDataStoreKey);
+            await applySettingsDeletions(getDeletions(merged, local));
+        }
+
+        if (isSameSettings(merged, flattenBackup(remote))) {
+            PlainSettings.cloud.settingsSyncVersion = written;
+            VencordNative.settings.set(PlainSettings);
+            await setSyncBase(written, remoteData);
+            delete localStorage.Vencord_settingsDirty;
+        } else if (await putCloudSettings(false, JSON.stringify(unflattenBackup(merged, local)))) {
+            // Uploading also updates the base
+            delete localStorage.Vencord_settingsDirty;
+        }
+
+        cloudSettingsLogger.info("Settings merged with the cloud successfully");
+        if (manual)
+            showNotification({
+                title: "Cloud Settings",
+                source: "Cloud",
+                body: localChanged
+                    ? "Your settings have been merged with the cloud! Click here to restart to fully apply changes!"
+                    : "Synchronized settings with the cloud!",
+                color: "var(--green-360)",
+                onClick: localChanged ? (IS_WEB ? () => location.reload() : relaunch) : undefined,
+                noPersist: true
+            });
+
+        return localChanged;
+    } catch (e: any) {
+        cloudSettingsLogger.error("Failed to sync", e);
+        showNotification({
+            title: "Cloud Settings",
+            source: "Cloud",
+            body: `Could not synchronize settings with the cloud (${e.toString()}).`,
+            color: "var(--red-360)"
+        });
+
+        return false;
+    }
+}
+
 export async function deleteCloudSettings() {
     try {
         const res = await fetch(new URL("/v1/settings", getCloudUrl()), {
@@ -258,6 +593,7 @@ export async function deleteCloudSettings() {
             cloudSettingsLogger.error(`Failed to delete, API returned ${res.status}`);
             showNotification({
                 title: "Cloud Settings",
+                source: "Cloud",
                 body: `Could not delete settings (API returned ${res.status}).`,
                 color: "var(--red-360)"
             });
@@ -267,6 +603,7 @@ export async function deleteCloudSettings() {
         cloudSettingsLogger.info("Settings deleted from cloud successfully");
         showNotification({
             title: "Cloud Settings",
+            source: "Cloud",
             body: "Settings deleted from cloud!",
             color: "var(--green-360)"
         });
@@ -274,6 +611,7 @@ export async function deleteCloudSettings() {
         cloudSettingsLogger.error("Failed to delete", e);
         showNotification({
             title: "Cloud Settings",
+            source: "Cloud",
             body: `Could not delete settings (${e.toString()}).`,
             color: "var(--red-360)"
         });
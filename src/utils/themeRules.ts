@@ -0,0 +1,52 @@
+/*
+ * Vencord, a Discord client mod
+ * Copyright (c) 2024 Vendicated and contributors
+ * SPDX-License-Identifier: GPL-3.0-or-later
+ */
+
+import { SelectedGuildStore } from "@webpack/common";
+
+import { getTheme, Theme } from "./discord";
+
+/**
+ * Decides when an enabled theme is loaded. Themes without a rule are always loaded.
+ * Appearance and guild rules can only be checked once Discord has loaded
+ */
+export type ThemeRule =
+    | {
+        type: "time";
+        /** Local time like `20:00`. If it's after `to`, the rule spans midnight */
+        from: string;
+        to: string;
+    }
+    | {
+        type: "appearance";
+        appearance: "dark" | "light";
+    }
+    | {
+        type: "guild";
+        guildIds: string[];
+    };
+
+function toMinutes(time: string) {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + (minutes || 0);
+}
+
+export function isThemeRuleActive(rule: ThemeRule, now = new Date()) {
+    switch (rule.type) {
+        case "time": {
+            const current = now.getHours() * 60 + now.getMinutes();
+            const from = toMinutes(rule.from);
+            const to = toMinutes(rule.to);
+
+            return from <= to
+                ? current >= from && current < to
+                : current >= from || current < to;
+        }
+        case "appearance":
+            return getTheme() === (rule.appearance === "dark" ? Theme.Dark : Theme.Light);
+        case "guild":
+            return rule.guildIds.includes(SelectedGuildStore.getGuildId());
+    }
+}
@@ -44,6 +44,11 @@ export interface Patch {
     noWarn?: boolean;
     /** Only apply this set of replacements if all of them succeed. Use this if your replacements depend on each other */
     group?: boolean;
+    /**
+     * Patches with a higher priority are applied to a module before patches with a lower one. Defaults to 0.
+     * Use this if your patch conflicts with a patch of another plugin touching the same module
+     */
+    priority?: number;
     predicate?(): boolean;
 }
 
@@ -55,6 +60,7 @@ export interface PluginAuthor {
 export interface Plugin extends PluginDef {
     patches?: Patch[];
     started: boolean;
+    /** Whether this plugin is currently needed by another enabled plugin */
     isDependency?: boolean;
 }
 
@@ -71,7 +77,8 @@ export interface PluginDef {
     commands?: Command[];
     /**
      * A list of other plugins that your plugin depends on.
-     * These will automatically be enabled and loaded before your plugin
+     * These (and their own dependencies) will automatically be enabled and loaded before your plugin,
+     * and disabled again once no enabled plugin needs them anymore
      * Common examples are CommandsAPI, MessageEventsAPI...
      */
     dependencies?: string[],
@@ -125,6 +132,11 @@ export interface PluginDef {
      * The key will be used as text for the button
      */
     toolboxActions?: Record<string, () => void>;
+    /**
+     * DataStore keys holding data of this plugin that should be included in backups and synced to the cloud.
+     * Use a RegExp for keys that aren't known in advance, like ones that include the user id
+     */
+    syncedDataStoreKeys?: Array<string | RegExp>;
 
     tags?: string[];
 }
@@ -146,6 +158,22 @@ export const enum OptionType {
     SELECT,
     SLIDER,
     COMPONENT,
+    /** A list of strings */
+    LIST,
+    /** A map of string keys to string values */
+    MAP,
+    /** A hex color like `#5865f2` */
+    COLOR,
+    /** A keyboard shortcut. Use `matchesKeybind` from `@utils/keybinds` to check for it */
+    KEYBIND,
+    /** The ID of a user, or a list of them if `multiple` is set */
+    USER,
+    /** The ID of a channel, or a list of them if `multiple` is set */
+    CHANNEL,
+    /** The ID of a guild, or a list of them if `multiple` is set */
+    GUILD,
+    /** The ID of a role, or a list of them if `multiple` is set */
+    ROLE,
 }
 
 export type SettingsDefinition = Record<string, PluginSettingDef>;
@@ -162,6 +190,11 @@ export type PluginSettingDef = (
     | PluginSettingSliderDef
     | PluginSettingComponentDef
     | PluginSettingBigIntDef
+    | PluginSettingListDef
+    | PluginSettingMapDef
+    | PluginSettingColorDef
+    | PluginSettingKeybindDef
+    | PluginSettingEntityDef
 ) & PluginSettingCommon;
 
 export interface PluginSettingCommon {
@@ -238,6 +271,42 @@ export interface PluginSettingSliderDef {
     stickToMarkers?: boolean;
 }
 
+export interface PluginSettingListDef {
+    type: OptionType.LIST;
+    default?: string[];
+    /** Check a single item before it is added. Return a string to show it as error */
+    isValidItem?(item: string): boolean | string;
+    /** The maximum amount of items */
+    maxItems?: number;
+}
+
+export interface PluginSettingMapDef {
+    type: OptionType.MAP;
+    default?: Record<string, string>;
+    keyPlaceholder?: string;
+    valuePlaceholder?: string;
+}
+
+export interface PluginSettingColorDef {
+    type: OptionType.COLOR;
+    default?: string;
+}
+
+export interface PluginSettingKeybindDef {
+    type: OptionType.KEYBIND;
+    /** The keys of the shortcut, modifiers first. For example `["Control", "Shift", "K"]` */
+    default?: string[];
+}
+
+export type EntityOptionType = OptionType.USER | OptionType.CHANNEL | OptionType.GUILD | OptionType.ROLE;
+
+export interface PluginSettingEntityDef {
+    type: EntityOptionType;
+    /** Allow picking more than one entity. The value is a list of IDs instead of a single one */
+    multiple?: boolean;
+    default?: string | string[];
+}
+
 interface IPluginOptionComponentProps {
     /**
      * Run this when the value changes.
@@ -271,6 +340,11 @@ type PluginSettingType<O extends PluginSettingDef> = O extends PluginSettingStri
     O extends PluginSettingSelectDef ? O["options"][number]["value"] :
     O extends PluginSettingSliderDef ? number :
     O extends PluginSettingComponentDef ? any :
+    O extends PluginSettingListDef ? string[] :
+    O extends PluginSettingMapDef ? Record<string, string> :
+    O extends PluginSettingColorDef ? string :
+    O extends PluginSettingKeybindDef ? string[] :
+    O extends PluginSettingEntityDef ? (O extends { multiple: true; } ? string[] : string) :
     never;
 type PluginSettingDefaultType<O extends PluginSettingDef> = O extends PluginSettingSelectDef ? (
     O["options"] extends { default?: boolean; }[] ? O["options"][number]["value"] : undefined
@@ -302,10 +376,40 @@ export interface DefinedSettings<
      * will be an empty string until plugin is initialized
      */
     pluginName: string;
+    /** The version of these settings and how to migrate from older versions, if any */
+    schema?: SettingsSchema;
+    /**
+     * Resolves once all DataStore migrations of this plugin have finished.
+     * Plugin start isn't delayed until then, so `start` must await this before it reads or writes DataStore keys
+     * that are migrated
+     */
+    migrated: Promise<void>;
 
     withPrivateSettings<T extends object>(): DefinedSettings<Def, Checks, T>;
 }
 
+export interface SettingsMigration {
+    /** The version the settings are at after this migration ran */
+    version: number;
+    /**
+     * Migrate the settings of the plugin in place. Runs once on load, before the plugin is started.
+     * If this throws, the settings are left as they were after the previous migration
+     */
+    settings?(settings: Record<string, any>): void;
+    /**
+     * Migrate DataStore keys owned by the plugin. Runs once on load, possibly after the plugin was started,
+     * see {@link DefinedSettings.migrated}. Unlike settings, DataStore keys have no version yet on first run,
+     * so this should do nothing if there is no old data
+     */
+    dataStore?(): Promise<void>;
+}
+
+export interface SettingsSchema {
+    /** The current version of the settings. Bump this whenever you add a migration */
+    version: number;
+    migrations?: SettingsMigration[];
+}
+
 export type PartialExcept<T, R extends keyof T> = Partial<T> & Required<Pick<T, R>>;
 
 export type IpcRes<V = any> = { ok: true; value: V; } | { ok: false, error: any; };
@@ -321,13 +425,23 @@ export type PluginOptionsItem =
     | PluginOptionBoolean
     | PluginOptionSelect
     | PluginOptionSlider
-    | PluginOptionComponent;
+    | PluginOptionComponent
+    | PluginOptionList
+    | PluginOptionMap
+    | PluginOptionColor
+    | PluginOptionKeybind
+    | PluginOptionEntity;
 export type PluginOptionString = PluginSettingStringDef & PluginSettingCommon & IsDisabled & IsValid<string>;
 export type PluginOptionNumber = (PluginSettingNumberDef | PluginSettingBigIntDef) & PluginSettingCommon & IsDisabled & IsValid<number | BigInt>;
 export type PluginOptionBoolean = PluginSettingBooleanDef & PluginSettingCommon & IsDisabled & IsValid<boolean>;
 export type PluginOptionSelect = PluginSettingSelectDef & PluginSettingCommon & IsDisabled & IsValid<PluginSettingSelectOption>;
 export type PluginOptionSlider = PluginSettingSliderDef & PluginSettingCommon & IsDisabled & IsValid<number>;
 export type PluginOptionComponent = PluginSettingComponentDef & PluginSettingCommon;
+export type PluginOptionList = PluginSettingListDef & PluginSettingCommon & IsDisabled & IsValid<string[]>;
+export type PluginOptionMap = PluginSettingMapDef & PluginSettingCommon & IsDisabled & IsValid<Record<string, string>>;
+export type PluginOptionColor = PluginSettingColorDef & PluginSettingCommon & IsDisabled & IsValid<string>;
+export type PluginOptionKeybind = PluginSettingKeybindDef & PluginSettingCommon & IsDisabled & IsValid<string[]>;
+export type PluginOptionEntity = PluginSettingEntityDef & PluginSettingCommon & IsDisabled & IsValid<string | string[]>;
 
 export type PluginNative<PluginExports extends Record<string, (event: Electron.IpcMainInvokeEvent, ...args: any[]) => any>> = {
     [key in keyof PluginExports]:
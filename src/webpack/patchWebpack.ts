@@ -18,11 +18,12 @@
 
 import { WEBPACK_CHUNK } from "@utils/constants";
 import { Logger } from "@utils/Logger";
-import { canonicalizeReplacement } from "@utils/patches";
-import { PatchReplacement } from "@utils/types";
+import { clearModuleConflicts, clearPluginDiagnostics, ConflictType, recordConflict, recordPatchMatch, recordReplacement, registerPatch, ReplacementStatus } from "@utils/patchDiagnostics";
+import { canonicalizeReplacement, sortPatches } from "@utils/patches";
+import { Patch, PatchReplacement } from "@utils/types";
 
 import { traceFunction } from "../debug/Tracer";
-import { _initWebpack } from ".";
+import { _initWebpack, wreq } from ".";
 
 let webpackChunk: any[];
 
@@ -107,26 +108,26 @@ function patchPush(webpackGlobal: any) {
     });
 }
 
-function patchFactories(factories: Record<string | number, (module: { exports: any; }, exports: any, require: any) => void>) {
+type ModuleFactory = (module: { exports: any; }, exports: any, require: any) => void;
+
+interface PatchedModuleFactory extends ModuleFactory {
+    /** The unpatched factory, as shipped by Discord */
+    original: ModuleFactory;
+    /** The factory with all patches applied, which is what actually gets called */
+    patched: ModuleFactory;
+    /** The patches that were applied to this factory */
+    patches: Patch[];
+}
+
+function patchFactories(factories: Record<string | number, ModuleFactory>) {
     const { subscriptions, listeners } = Vencord.Webpack;
     const { patches } = Vencord.Plugins;
 
     for (const id in factories) {
-        let mod = factories[id];
-        // Discords Webpack chunks for some ungodly reason contain random
-        // newlines. Cyn recommended this workaround and it seems to work fine,
-        // however this could potentially break code, so if anything goes weird,
-        // this is probably why.
-        // Additionally, `[actual newline]` is one less char than "\n", so if Discord
-        // ever targets newer browsers, the minifier could potentially use this trick and
-        // cause issues.
-        //
-        // 0, prefix is to turn it into an expression: 0,function(){} would be invalid syntax without the 0,
-        let code: string = "0," + mod.toString().replaceAll("\n", "");
-        const originalMod = mod;
-        const patchedBy = new Set();
+        const originalMod = factories[id];
 
         const factory = factories[id] = function (module, exports, require) {
+            const mod = factory.patched;
             try {
                 mod(module, exports, require);
             } catch (err) {
@@ -174,104 +175,342 @@ function patchFactories(factories: Record<string | number, (module: { exports: a
                     logger.error("Error while firing callback for webpack chunk", err);
                 }
             }
-        } as any as { toString: () => string, original: any, (...args: any[]): void; };
+        } as PatchedModuleFactory;
 
         // for some reason throws some error on which calling .toString() leads to infinite recursion
         // when you force load all chunks???
-        factory.toString = () => mod.toString();
+        factory.toString = () => factory.patched.toString();
         factory.original = originalMod;
 
-        for (let i = 0; i < patches.length; i++) {
-            const patch = patches[i];
-            const executePatch = traceFunction(`patch by ${patch.plugin}`, (match: string | RegExp, replace: string) => code.replace(match, replace));
+        const { mod, matched } = patchFactory(id, originalMod, patches);
+        factory.patched = mod;
+        factory.patches = matched;
+
+        for (const patch of matched) {
+            if (!patch.all) patches.splice(patches.indexOf(patch), 1);
+        }
+    }
+}
+
+function getPatchedFactories() {
+    const factories = [] as Array<[id: string, factory: PatchedModuleFactory]>;
+    // webpack hasn't been initialised yet, so there are no factories to patch
+    if (wreq == null) return factories;
+
+    for (const id in wreq.m) {
+        const factory = wreq.m[id] as ModuleFactory | PatchedModuleFactory;
+        if ("original" in factory) factories.push([id, factory]);
+    }
+
+    return factories;
+}
+
+function repatchFactory(id: string | number, factory: PatchedModuleFactory, patchList: Patch[]) {
+    const { mod, matched } = patchFactory(id, factory.original, sortPatches(patchList));
+    factory.patched = mod;
+    factory.patches = matched;
+}
+
+/**
+ * Whether any patches of a plugin are currently applied or waiting for their module to be loaded
+ */
+export function hasActivePatches(plugin: string) {
+    return Vencord.Plugins.patches.some(p => p.plugin === plugin)
+        || getPatchedFactories().some(([, factory]) => factory.patches.some(p => p.plugin === plugin));
+}
+
+/**
+ * Apply patches of a plugin that was enabled at runtime. Modules that were not required yet are
+ * re-evaluated from their original source, and patches for modules that haven't been loaded yet are queued as usual.
+ * This is all or nothing: If any patch targets a module that was already required, nothing is applied
+ * @returns The patches that can only be applied by restarting
+ */
+export function applyPatchesAtRuntime(newPatches: Patch[]) {
+    const { patches } = Vencord.Plugins;
+
+    const restartNeeded = new Set<Patch>();
+    const toApply = new Map<PatchedModuleFactory, [id: string, patches: Patch[]]>();
+    const found = new Set<Patch>();
+
+    for (const [id, factory] of getPatchedFactories()) {
+        const code = String(factory.original).replaceAll("\n", "");
+
+        for (const patch of newPatches) {
+            if (!patch.all && found.has(patch)) continue;
             if (patch.predicate && !patch.predicate()) continue;
+            if (!code.includes(patch.find)) continue;
 
-            if (code.includes(patch.find)) {
-                patchedBy.add(patch.plugin);
+            found.add(patch);
+            if (wreq.c[id]) {
+                restartNeeded.add(patch);
+                continue;
+            }
 
-                const previousMod = mod;
-                const previousCode = code;
+            if (!toApply.has(factory)) toApply.set(factory, [id, []]);
+            toApply.get(factory)![1].push(patch);
+        }
+    }
 
-                // we change all patch.replacement to array in plugins/index
-                for (const replacement of patch.replacement as PatchReplacement[]) {
-                    if (replacement.predicate && !replacement.predicate()) continue;
-                    const lastMod = mod;
-                    const lastCode = code;
+    if (restartNeeded.size) return [...restartNeeded];
 
-                    canonicalizeReplacement(replacement, patch.plugin);
+    for (const [factory, [id, modulePatches]] of toApply)
+        repatchFactory(id, factory, [...factory.patches, ...modulePatches]);
 
-                    try {
-                        const newCode = executePatch(replacement.match, replacement.replace as string);
-                        if (newCode === code) {
-                            if (!patch.noWarn) {
-                                logger.warn(`Patch by ${patch.plugin} had no effect (Module id is ${id}): ${replacement.match}`);
-                                if (IS_DEV) {
-                                    logger.debug("Function Source:\n", code);
-                                }
-                            }
+    for (const patch of newPatches) {
+        registerPatch(patch);
+        if (patch.all || !found.has(patch)) patches.push(patch);
+    }
+    sortPatches(patches);
 
-                            if (patch.group) {
-                                logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} had no effect`);
-                                code = previousCode;
-                                mod = previousMod;
-                                patchedBy.delete(patch.plugin);
-                                break;
-                            }
-                        } else {
-                            code = newCode;
-                            mod = (0, eval)(`// Webpack Module ${id} - Patched by ${[...patchedBy].join(", ")}\n${newCode}\n//# sourceURL=WebpackModule${id}`);
+    return [];
+}
+
+/**
+ * Revert all patches of a plugin that was disabled at runtime, by re-evaluating the modules it patched
+ * with the remaining patches. This is all or nothing: If any patched module was already required, nothing is reverted
+ * @returns The patches that can only be reverted by restarting
+ */
+export function revertPatchesAtRuntime(plugin: string) {
+    const { patches } = Vencord.Plugins;
+
+    const restartNeeded = [] as Patch[];
+    const toRevert = [] as Array<[id: string, factory: PatchedModuleFactory]>;
+
+    for (const [id, factory] of getPatchedFactories()) {
+        const pluginPatches = factory.patches.filter(p => p.plugin === plugin);
+        if (!pluginPatches.length) continue;
+
+        if (wreq.c[id]) restartNeeded.push(...pluginPatches);
+        else toRevert.push([id, factory]);
+    }
+
+    if (restartNeeded.length) return restartNeeded;
+
+    for (const [id, factory] of toRevert)
+        repatchFactory(id, factory, factory.patches.filter(p => p.plugin !== plugin));
+
+    for (let i = patches.length - 1; i >= 0; i--) {
+        if (patches[i].plugin === plugin) patches.splice(i, 1);
+    }
+    clearPluginDiagnostics(plugin);
+
+    return [];
+}
+
+/** A part of a module's code that was changed by a patch, as offsets into the current code */
+interface PatchedRegion {
+    patch: Patch;
+    start: number;
+    end: number;
+}
+
+function matches(code: string, match: string | RegExp) {
+    // search ignores lastIndex, so global regexes are fine here
+    return typeof match === "string" ? code.includes(match) : code.search(match) !== -1;
+}
+
+/**
+ * Find the patch of another plugin that made a find or match stop matching a module
+ * @param history The module code after each applied replacement, in order
+ */
+function findPreventingPatch(originalCode: string, history: Array<[patch: Patch, code: string]>, test: (code: string) => boolean, affectedPatch: Patch) {
+    if (!history.length || !test(originalCode)) return;
+
+    for (const [patch, code] of history) {
+        if (!test(code)) return patch.plugin !== affectedPatch.plugin ? patch : undefined;
+    }
+}
+
+/**
+ * Get the part of the code a replacement changed, by skipping the common start and end
+ */
+function getChangedRange(before: string, after: string) {
+    const minLength = Math.min(before.length, after.length);
+
+    let start = 0;
+    while (start < minLength && before[start] === after[start]) start++;
+
+    let suffix = 0;
+    while (suffix < minLength - start && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) suffix++;
+
+    return { start, oldEnd: before.length - suffix, newEnd: after.length - suffix };
+}
+
+/**
+ * Record conflicts with the regions other plugins changed and move the regions to where they are in the new code
+ * @returns The updated regions
+ */
+function updatePatchedRegions(id: string | number, regions: PatchedRegion[], patch: Patch, replacement: PatchReplacement, before: string, after: string) {
+    // Global replacements can change code all over the module, which would make the changed range meaningless
+    if (replacement.match instanceof RegExp && replacement.match.global) return regions;
+
+    const { start, oldEnd, newEnd } = getChangedRange(before, after);
+    const delta = newEnd - oldEnd;
+
+    const newRegions = regions.map(region => {
+        if (region.end <= start) return region;
+        if (region.start >= oldEnd) return { ...region, start: region.start + delta, end: region.end + delta };
+
+        if (region.patch.plugin !== patch.plugin)
+            recordConflict(ConflictType.OVERLAP, id, region.patch, patch, replacement);
+
+        return { ...region, start: Math.min(region.start, start), end: Math.max(region.end + delta, newEnd) };
+    });
+    newRegions.push({ patch, start, end: newEnd });
+
+    return newRegions;
+}
+
+/**
+ * Apply a list of patches to a module factory
+ * @returns The patched factory (or the original one if nothing was changed) and the patches whose find matched it
+ */
+function patchFactory(id: string | number, originalMod: ModuleFactory, patchList: Patch[]) {
+    // Discords Webpack chunks for some ungodly reason contain random
+    // newlines. Cyn recommended this workaround and it seems to work fine,
+    // however this could potentially break code, so if anything goes weird,
+    // this is probably why.
+    // Additionally, `[actual newline]` is one less char than "\n", so if Discord
+    // ever targets newer browsers, the minifier could potentially use this trick and
+    // cause issues.
+    //
+    // 0, prefix is to turn it into an expression: 0,function(){} would be invalid syntax without the 0,
+    let code: string = "0," + originalMod.toString().replaceAll("\n", "");
+    const originalCode = code;
+    let mod = originalMod;
+    const patchedBy = new Set();
+    const matched = [] as Patch[];
+
+    // Used to find out which patch is at fault if patches of different plugins conflict
+    let history = [] as Array<[patch: Patch, code: string]>;
+    let regions = [] as PatchedRegion[];
+    clearModuleConflicts(id);
+
+    for (const patch of patchList) {
+        const executePatch = traceFunction(`patch by ${patch.plugin}`, (match: string | RegExp, replace: string) => code.replace(match, replace));
+        if (patch.predicate && !patch.predicate()) continue;
+
+        if (!code.includes(patch.find)) {
+            const preventingPatch = findPreventingPatch(originalCode, history, c => c.includes(patch.find), patch);
+            if (preventingPatch) {
+                recordConflict(ConflictType.PREVENTED, id, preventingPatch, patch);
+                logger.warn(`Patch by ${preventingPatch.plugin} prevents patch by ${patch.plugin} (Module id is ${id}): find ${patch.find} no longer matches`);
+            }
+        } else {
+            patchedBy.add(patch.plugin);
+            matched.push(patch);
+            const diagnostic = recordPatchMatch(patch, id);
+
+            const previousMod = mod;
+            const previousCode = code;
+            const previousHistory = history;
+            const previousRegions = regions;
+
+            // we change all patch.replacement to array in plugins/index
+            for (const replacement of patch.replacement as PatchReplacement[]) {
+                if (replacement.predicate && !replacement.predicate()) {
+                    recordReplacement(diagnostic, replacement, ReplacementStatus.SKIPPED, 0);
+                    continue;
+                }
+                const lastMod = mod;
+                const lastCode = code;
+                const lastHistory = history;
+                const lastRegions = regions;
+                const startTime = performance.now();
+
+                canonicalizeReplacement(replacement, patch.plugin);
+
+                try {
+                    const newCode = executePatch(replacement.match, replacement.replace as string);
+                    if (newCode === code) {
+                        recordReplacement(diagnostic, replacement, ReplacementStatus.NO_EFFECT, performance.now() - startTime);
+
+                        const preventingPatch = findPreventingPatch(originalCode, history, c => matches(c, replacement.match), patch);
+                        if (preventingPatch) {
+                            recordConflict(ConflictType.PREVENTED, id, preventingPatch, patch, replacement);
+                            logger.warn(`Patch by ${preventingPatch.plugin} prevents patch by ${patch.plugin} (Module id is ${id}): ${replacement.match}`);
                         }
-                    } catch (err) {
-                        logger.error(`Patch by ${patch.plugin} errored (Module id is ${id}): ${replacement.match}\n`, err);
-
-                        if (IS_DEV) {
-                            const changeSize = code.length - lastCode.length;
-                            const match = lastCode.match(replacement.match)!;
-
-                            // Use 200 surrounding characters of context
-                            const start = Math.max(0, match.index! - 200);
-                            const end = Math.min(lastCode.length, match.index! + match[0].length + 200);
-                            // (changeSize may be negative)
-                            const endPatched = end + changeSize;
-
-                            const context = lastCode.slice(start, end);
-                            const patchedContext = code.slice(start, endPatched);
-
-                            // inline require to avoid including it in !IS_DEV builds
-                            const diff = (require("diff") as typeof import("diff")).diffWordsWithSpace(context, patchedContext);
-                            let fmt = "%c %s ";
-                            const elements = [] as string[];
-                            for (const d of diff) {
-                                const color = d.removed
-                                    ? "red"
-                                    : d.added
-                                        ? "lime"
-                                        : "grey";
-                                fmt += "%c%s";
-                                elements.push("color:" + color, d.value);
-                            }
 
-                            logger.errorCustomFmt(...Logger.makeTitle("white", "Before"), context);
-                            logger.errorCustomFmt(...Logger.makeTitle("white", "After"), patchedContext);
-                            const [titleFmt, ...titleElements] = Logger.makeTitle("white", "Diff");
-                            logger.errorCustomFmt(titleFmt + fmt, ...titleElements, ...elements);
+                        if (!patch.noWarn) {
+                            logger.warn(`Patch by ${patch.plugin} had no effect (Module id is ${id}): ${replacement.match}`);
+                            if (IS_DEV) {
+                                logger.debug("Function Source:\n", code);
+                            }
                         }
 
-                        patchedBy.delete(patch.plugin);
                         if (patch.group) {
-                            logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} errored`);
+                            logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} had no effect`);
+                            diagnostic.undone = true;
                             code = previousCode;
                             mod = previousMod;
+                            history = previousHistory;
+                            regions = previousRegions;
+                            patchedBy.delete(patch.plugin);
                             break;
                         }
+                    } else {
+                        regions = updatePatchedRegions(id, regions, patch, replacement, code, newCode);
+                        history = [...history, [patch, newCode]];
+                        code = newCode;
+                        mod = (0, eval)(`// Webpack Module ${id} - Patched by ${[...patchedBy].join(", ")}\n${newCode}\n//# sourceURL=WebpackModule${id}`);
+                        recordReplacement(diagnostic, replacement, ReplacementStatus.APPLIED, performance.now() - startTime);
+                    }
+                } catch (err) {
+                    recordReplacement(diagnostic, replacement, ReplacementStatus.ERRORED, performance.now() - startTime, err);
+                    logger.error(`Patch by ${patch.plugin} errored (Module id is ${id}): ${replacement.match}\n`, err);
+
+                    if (IS_DEV) {
+                        const changeSize = code.length - lastCode.length;
+                        const match = lastCode.match(replacement.match)!;
+
+                        // Use 200 surrounding characters of context
+                        const start = Math.max(0, match.index! - 200);
+                        const end = Math.min(lastCode.length, match.index! + match[0].length + 200);
+                        // (changeSize may be negative)
+                        const endPatched = end + changeSize;
+
+                        const context = lastCode.slice(start, end);
+                        const patchedContext = code.slice(start, endPatched);
+
+                        // inline require to avoid including it in !IS_DEV builds
+                        const diff = (require("diff") as typeof import("diff")).diffWordsWithSpace(context, patchedContext);
+                        let fmt = "%c %s ";
+                        const elements = [] as string[];
+                        for (const d of diff) {
+                            const color = d.removed
+                                ? "red"
+                                : d.added
+                                    ? "lime"
+                                    : "grey";
+                            fmt += "%c%s";
+                            elements.push("color:" + color, d.value);
+                        }
 
-                        code = lastCode;
-                        mod = lastMod;
+                        logger.errorCustomFmt(...Logger.makeTitle("white", "Before"), context);
+                        logger.errorCustomFmt(...Logger.makeTitle("white", "After"), patchedContext);
+                        const [titleFmt, ...titleElements] = Logger.makeTitle("white", "Diff");
+                        logger.errorCustomFmt(titleFmt + fmt, ...titleElements, ...elements);
                     }
-                }
 
-                if (!patch.all) patches.splice(i--, 1);
+                    patchedBy.delete(patch.plugin);
+                    if (patch.group) {
+                        logger.warn(`Undoing patch group ${patch.find} by ${patch.plugin} because replacement ${replacement.match} errored`);
+                        diagnostic.undone = true;
+                        code = previousCode;
+                        mod = previousMod;
+                        history = previousHistory;
+                        regions = previousRegions;
+                        break;
+                    }
+
+                    code = lastCode;
+                    mod = lastMod;
+                    history = lastHistory;
+                    regions = lastRegions;
+                }
             }
         }
     }
+
+    return { mod, matched };
 }